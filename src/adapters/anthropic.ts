@@ -7,6 +7,7 @@
 import { anthropic, createAnthropic } from '@ai-sdk/anthropic';
 import { generateText, streamText, type LanguageModel } from 'ai';
 import { BaseAdapter } from './base';
+import type { ProviderErrorCategory } from '../provider-errors';
 import type {
   ProviderConfig,
   GenerateOptions,
@@ -15,8 +16,47 @@ import type {
   ValidationResult,
   ModelInfo,
   ModelParams,
+  ProviderBatchRequest,
+  ProviderBatchSubmission,
+  ProviderBatchState,
+  ProviderBatchResult,
 } from '../types';
 
+// Message Batches API는 max_tokens가 필수
+const DEFAULT_BATCH_MAX_TOKENS = 4096;
+
+// 에러 본문 { type: 'error', error: { type, message } }의 error.type
+const ERROR_TYPE_CATEGORIES: Record<string, ProviderErrorCategory> = {
+  rate_limit_error: 'rate_limit',
+  overloaded_error: 'server',
+  api_error: 'server',
+  authentication_error: 'auth',
+  permission_error: 'auth',
+  billing_error: 'quota',
+  request_too_large: 'context_overflow',
+  not_found_error: 'model_not_found',
+};
+
+// Message Batches API 응답 (필요한 필드만)
+interface AnthropicMessageBatch {
+  id: string;
+  processing_status: 'in_progress' | 'canceling' | 'ended';
+  request_counts?: { processing: number; succeeded: number; errored: number; canceled: number; expired: number };
+}
+
+// 결과 JSONL의 한 줄
+interface AnthropicBatchResultLine {
+  custom_id: string;
+  result: {
+    type: 'succeeded' | 'errored' | 'canceled' | 'expired';
+    message?: {
+      content?: Array<{ type: string; text?: string }>;
+      usage?: { input_tokens: number; output_tokens: number; cache_read_input_tokens?: number | null };
+    };
+    error?: { error?: { message?: string } };
+  };
+}
+
 export class AnthropicAdapter extends BaseAdapter {
   readonly providerType = 'anthropic';
   readonly supportsVision = true;
@@ -37,6 +77,7 @@ export class AnthropicAdapter extends BaseAdapter {
     if (effectiveApiKey) {
       const custom = createAnthropic({
         apiKey: effectiveApiKey,
+        baseURL: effectiveBaseUrl,
       });
       return custom(modelId);
     }
@@ -57,6 +98,7 @@ export class AnthropicAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -78,6 +120,7 @@ export class AnthropicAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -164,6 +207,92 @@ export class AnthropicAdapter extends BaseAdapter {
     this.baseUrl = baseUrl;
   }
 
+  async submitBatch(
+    modelId: string,
+    requests: ProviderBatchRequest[],
+    config: ProviderConfig
+  ): Promise<ProviderBatchSubmission> {
+    const response = await this.requestApi(config, '/messages/batches', {
+      method: 'POST',
+      body: JSON.stringify({
+        requests: requests.map((request) => ({
+          custom_id: request.customId,
+          params: {
+            model: modelId,
+            max_tokens: request.maxTokens ?? DEFAULT_BATCH_MAX_TOKENS,
+            system: request.system,
+            messages: request.messages ?? [{ role: 'user', content: request.prompt ?? '' }],
+            temperature: request.temperature,
+          },
+        })),
+      }),
+    });
+
+    const batch = await response.json() as AnthropicMessageBatch;
+    return { externalId: batch.id };
+  }
+
+  async getBatchState(externalId: string, config: ProviderConfig): Promise<ProviderBatchState> {
+    const batch = await (await this.requestApi(config, `/messages/batches/${externalId}`)).json() as AnthropicMessageBatch;
+    const counts = batch.request_counts;
+
+    // ended 이후에는 요청별 결과에 성공/실패가 담김 (취소된 배치도 처리된 요청은 결과가 있음)
+    return {
+      status: batch.processing_status === 'ended' ? 'completed' : 'in_progress',
+      completedCount: counts?.succeeded,
+      failedCount: counts && counts.errored + counts.canceled + counts.expired,
+    };
+  }
+
+  async getBatchResults(
+    externalId: string,
+    _state: ProviderBatchState,
+    config: ProviderConfig
+  ): Promise<ProviderBatchResult[]> {
+    const body = await (await this.requestApi(config, `/messages/batches/${externalId}/results`)).text();
+
+    return this.parseJsonl<AnthropicBatchResultLine>(body).map((line) => {
+      const { result } = line;
+      if (result.type !== 'succeeded' || !result.message) {
+        return {
+          customId: line.custom_id,
+          success: false,
+          error: result.error?.error?.message || `Request ${result.type}`,
+        };
+      }
+
+      const usage = result.message.usage;
+      return {
+        customId: line.custom_id,
+        success: true,
+        text: (result.message.content ?? [])
+          .filter((part) => part.type === 'text')
+          .map((part) => part.text ?? '')
+          .join(''),
+        usage: usage && {
+          inputTokens: usage.input_tokens + (usage.cache_read_input_tokens ?? 0),
+          outputTokens: usage.output_tokens,
+          cachedInputTokens: usage.cache_read_input_tokens ?? undefined,
+        },
+      };
+    });
+  }
+
+  protected classifyErrorBody(body: unknown, message: string): ProviderErrorCategory | undefined {
+    const error = (body as { error?: { type?: string; message?: string } } | null)?.error;
+    if (!error?.type) return undefined;
+
+    if (error.type === 'invalid_request_error') {
+      // 크레딧 부족과 프롬프트 길이 초과도 invalid_request_error로 옴
+      const text = `${error.message ?? ''} ${message}`.toLowerCase();
+      if (text.includes('credit balance')) return 'quota';
+      if (text.includes('prompt is too long') || text.includes('context window')) return 'context_overflow';
+      return 'invalid_request';
+    }
+
+    return ERROR_TYPE_CATEGORIES[error.type];
+  }
+
   protected buildHeaders(config: ProviderConfig): Record<string, string> {
     const apiKey = config.apiKeyEncrypted
       ? this.decryptApiKey(config.apiKeyEncrypted)
@@ -5,8 +5,15 @@
  * Vercel AI SDK와의 통합을 표준화합니다.
  */
 
-import type { LanguageModel } from 'ai';
+import type { EmbeddingModel, LanguageModel } from 'ai';
 import { decryptApiKey as decryptApiKeyFn } from '../encryption.js';
+import { createAbortSignal } from '../cancellation';
+import {
+  toProviderCallError,
+  classifyOpenAIErrorBody,
+  type ProviderCallError,
+  type ProviderErrorCategory,
+} from '../provider-errors';
 import type {
   ProviderConfig,
   GenerateOptions,
@@ -15,6 +22,10 @@ import type {
   ValidationResult,
   ModelInfo,
   ModelParams,
+  ProviderBatchRequest,
+  ProviderBatchSubmission,
+  ProviderBatchState,
+  ProviderBatchResult,
 } from '../types';
 
 /**
@@ -55,6 +66,44 @@ export abstract class BaseAdapter {
    */
   abstract createModel(modelId: string, config?: ProviderConfig): LanguageModel;
 
+  /**
+   * EmbeddingModel 인스턴스를 생성합니다.
+   * 임베딩 API를 제공하는 제공자만 구현합니다.
+   *
+   * @param modelId - 임베딩 모델 ID
+   * @param config - 제공자 설정
+   * @returns EmbeddingModel 인스턴스
+   */
+  createEmbeddingModel?(modelId: string, config?: ProviderConfig): EmbeddingModel;
+
+  /**
+   * 요청 목록을 제공자 배치 API에 제출합니다.
+   * 비동기 배치 API를 제공하는 제공자만 구현합니다. (getBatchState, getBatchResults와 함께)
+   *
+   * @param modelId - 모델 ID
+   * @param requests - 배치 요청 목록
+   * @param config - 제공자 설정
+   * @returns 제공자 배치 ID
+   */
+  submitBatch?(modelId: string, requests: ProviderBatchRequest[], config: ProviderConfig): Promise<ProviderBatchSubmission>;
+
+  /**
+   * 제공자 배치 상태를 조회합니다.
+   *
+   * @param externalId - 제공자 배치 ID
+   * @param config - 제공자 설정
+   */
+  getBatchState?(externalId: string, config: ProviderConfig): Promise<ProviderBatchState>;
+
+  /**
+   * 완료된 배치의 요청별 결과를 가져옵니다.
+   *
+   * @param externalId - 제공자 배치 ID
+   * @param state - getBatchState 결과
+   * @param config - 제공자 설정
+   */
+  getBatchResults?(externalId: string, state: ProviderBatchState, config: ProviderConfig): Promise<ProviderBatchResult[]>;
+
   /**
    * 텍스트를 생성합니다.
    * 
@@ -130,6 +179,46 @@ export abstract class BaseAdapter {
     return `${baseUrl}${cleanEndpoint}`;
   }
 
+  /**
+   * 제공자 REST API를 직접 호출합니다. (AI SDK가 다루지 않는 배치/파일 API용)
+   * 응답이 2xx가 아니면 상태 코드와 본문을 담은 에러를 발생시킵니다.
+   *
+   * @param config - 제공자 설정
+   * @param endpoint - API 엔드포인트
+   * @param init - fetch 옵션 (headers는 buildHeaders 결과에 덮어씀)
+   * @returns 응답 객체
+   */
+  protected async requestApi(config: ProviderConfig, endpoint: string, init: RequestInit = {}): Promise<Response> {
+    const headers: Record<string, string> = { ...this.buildHeaders(config), ...(init.headers as Record<string, string>) };
+    // FormData 본문은 fetch가 multipart 경계를 포함한 Content-Type을 설정
+    if (init.body instanceof FormData) {
+      delete headers['Content-Type'];
+    }
+
+    const response = await fetch(this.buildUrl(config, endpoint), { ...init, headers });
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      const error = Object.assign(new Error(`HTTP ${response.status} ${body}`.trim()), {
+        statusCode: response.status,
+        responseBody: body,
+        responseHeaders: Object.fromEntries(response.headers.entries()),
+      });
+      throw this.handleError(error, endpoint);
+    }
+    return response;
+  }
+
+  /**
+   * JSONL 본문을 줄 단위 객체로 파싱합니다.
+   */
+  protected parseJsonl<T>(body: string): T[] {
+    return body
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as T);
+  }
+
   /**
    * 기본 Base URL을 반환합니다.
    * 
@@ -139,16 +228,55 @@ export abstract class BaseAdapter {
 
   /**
    * 에러를 처리합니다.
+   * AI SDK APICallError의 상태 코드와 제공자 에러 본문을 ProviderCallError 분류로 변환합니다.
    * 
    * @param error - 원본 에러
    * @param context - 컨텍스트 정보
    * @returns 표준화된 에러
    */
-  protected handleError(error: unknown, context?: string): Error {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+  protected handleError(error: unknown, context?: string): ProviderCallError {
     const contextStr = context ? `[${context}] ` : '';
 
-    return new Error(`${contextStr}${this.providerType}: ${errorMessage}`);
+    return toProviderCallError(error, {
+      provider: this.providerType,
+      classifyBody: (body, message) => this.classifyErrorBody(body, message),
+      messagePrefix: `${contextStr}${this.providerType}: `,
+    });
+  }
+
+  /**
+   * 라우터 호출에서 발생한 에러를 ProviderCallError로 변환합니다. (메시지는 그대로 유지)
+   *
+   * @param error - 원본 에러
+   * @returns 분류된 에러
+   */
+  normalizeError(error: unknown): ProviderCallError {
+    return toProviderCallError(error, {
+      provider: this.providerType,
+      classifyBody: (body, message) => this.classifyErrorBody(body, message),
+    });
+  }
+
+  /**
+   * 제공자 에러 본문을 분류합니다. (기본: OpenAI 호환 { error: { code, type } })
+   * 에러 형식이 다른 제공자는 재정의합니다.
+   *
+   * @param body - 파싱된 에러 본문
+   * @param message - 소문자로 변환된 에러 메시지
+   * @returns 분류 (해석할 수 없으면 undefined)
+   */
+  protected classifyErrorBody(body: unknown, _message: string): ProviderErrorCategory | undefined {
+    return classifyOpenAIErrorBody(body);
+  }
+
+  /**
+   * 생성 옵션의 취소 신호와 제한 시간을 AI SDK용 abortSignal로 변환합니다.
+   *
+   * @param options - 생성 옵션
+   * @returns 결합된 AbortSignal (둘 다 없으면 undefined)
+   */
+  protected resolveAbortSignal(options: GenerateOptions): AbortSignal | undefined {
+    return createAbortSignal(options.signal, options.timeoutMs);
   }
 
   /**
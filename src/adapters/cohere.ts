@@ -5,7 +5,7 @@
  */
 
 import { createCohere } from '@ai-sdk/cohere';
-import { generateText, streamText, type LanguageModel } from 'ai';
+import { generateText, streamText, type EmbeddingModel, type LanguageModel } from 'ai';
 import { BaseAdapter } from './base';
 import type {
   ProviderConfig,
@@ -28,16 +28,22 @@ export class CohereAdapter extends BaseAdapter {
   private baseUrl: string = 'https://api.cohere.com/v1';
 
   createModel(modelId: string, config?: ProviderConfig): LanguageModel {
+    return this.resolveProvider(config)(modelId);
+  }
+
+  createEmbeddingModel(modelId: string, config?: ProviderConfig): EmbeddingModel {
+    return this.resolveProvider(config).embedding(modelId);
+  }
+
+  private resolveProvider(config?: ProviderConfig) {
     const effectiveConfig = config || ({} as ProviderConfig);
     const effectiveApiKey = effectiveConfig.apiKeyEncrypted
       ? this.decryptApiKey(effectiveConfig.apiKeyEncrypted)
       : this.apiKey;
 
-    const provider = createCohere({
+    return createCohere({
       apiKey: effectiveApiKey,
     });
-
-    return provider(modelId);
   }
 
   async generate(options: GenerateOptions): Promise<GenerateResult> {
@@ -50,6 +56,7 @@ export class CohereAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return { text: result.text, usage: result.usage };
@@ -65,6 +72,7 @@ export class CohereAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return { stream: result.textStream, provider: this.providerType, model: 'unknown' };
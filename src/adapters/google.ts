@@ -5,8 +5,9 @@
  */
 
 import { google, createGoogleGenerativeAI } from '@ai-sdk/google';
-import { generateText, streamText, type LanguageModel } from 'ai';
+import { generateText, streamText, type EmbeddingModel, type LanguageModel } from 'ai';
 import { BaseAdapter } from './base';
+import type { ProviderErrorCategory } from '../provider-errors';
 import type {
   ProviderConfig,
   GenerateOptions,
@@ -17,6 +18,19 @@ import type {
   ModelParams,
 } from '../types';
 
+// 에러 본문 { error: { code, status, message } }의 gRPC 상태
+const ERROR_STATUS_CATEGORIES: Record<string, ProviderErrorCategory> = {
+  RESOURCE_EXHAUSTED: 'rate_limit',
+  UNAUTHENTICATED: 'auth',
+  PERMISSION_DENIED: 'auth',
+  DEADLINE_EXCEEDED: 'timeout',
+  UNAVAILABLE: 'server',
+  INTERNAL: 'server',
+  NOT_FOUND: 'model_not_found',
+  INVALID_ARGUMENT: 'invalid_request',
+  FAILED_PRECONDITION: 'invalid_request',
+};
+
 export class GoogleAdapter extends BaseAdapter {
   readonly providerType = 'google';
   readonly supportsVision = true;
@@ -28,6 +42,14 @@ export class GoogleAdapter extends BaseAdapter {
   private baseUrl: string = 'https://generativelanguage.googleapis.com/v1beta';
 
   createModel(modelId: string, config?: ProviderConfig): LanguageModel {
+    return this.resolveProvider(config)(modelId);
+  }
+
+  createEmbeddingModel(modelId: string, config?: ProviderConfig): EmbeddingModel {
+    return this.resolveProvider(config).embedding(modelId);
+  }
+
+  private resolveProvider(config?: ProviderConfig) {
     const effectiveConfig = config || ({} as ProviderConfig);
     const effectiveApiKey = effectiveConfig.apiKeyEncrypted
       ? this.decryptApiKey(effectiveConfig.apiKeyEncrypted)
@@ -35,13 +57,13 @@ export class GoogleAdapter extends BaseAdapter {
     const effectiveBaseUrl = effectiveConfig.baseUrl || this.baseUrl;
 
     if (effectiveApiKey) {
-      const custom = createGoogleGenerativeAI({
+      return createGoogleGenerativeAI({
         apiKey: effectiveApiKey,
+        baseURL: effectiveBaseUrl,
       });
-      return custom(modelId);
     }
 
-    return google(modelId);
+    return google;
   }
 
   async generate(options: GenerateOptions): Promise<GenerateResult> {
@@ -57,6 +79,7 @@ export class GoogleAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -78,6 +101,7 @@ export class GoogleAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -164,6 +188,20 @@ export class GoogleAdapter extends BaseAdapter {
     this.baseUrl = baseUrl;
   }
 
+  protected classifyErrorBody(body: unknown, message: string): ProviderErrorCategory | undefined {
+    const error = (body as { error?: { status?: string; message?: string } } | null)?.error;
+    if (!error?.status) return undefined;
+
+    const text = `${error.message ?? ''} ${message}`.toLowerCase();
+    // RESOURCE_EXHAUSTED는 분당 한도와 결제 한도 모두에 사용됨
+    if (error.status === 'RESOURCE_EXHAUSTED' && text.includes('billing')) return 'quota';
+    if (error.status === 'INVALID_ARGUMENT' && text.includes('api key not valid')) return 'auth';
+    if (error.status === 'INVALID_ARGUMENT' && text.includes('exceeds the maximum number of tokens')) return 'context_overflow';
+    if (error.status === 'FAILED_PRECONDITION' && text.includes('billing')) return 'quota';
+
+    return ERROR_STATUS_CATEGORIES[error.status];
+  }
+
   protected buildHeaders(config: ProviderConfig): Record<string, string> {
     const apiKey = config.apiKeyEncrypted
       ? this.decryptApiKey(config.apiKeyEncrypted)
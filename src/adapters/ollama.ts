@@ -6,7 +6,7 @@
  */
 
 import { createOllama } from 'ollama-ai-provider-v2';
-import { generateText, streamText, type LanguageModel } from 'ai';
+import { generateText, streamText, type EmbeddingModel, type LanguageModel } from 'ai';
 import { BaseAdapter } from './base';
 import type {
   ProviderConfig,
@@ -18,6 +18,11 @@ import type {
   ModelParams,
 } from '../types';
 
+// 임베딩 전용 모델 이름 (예: nomic-embed-text, mxbai-embed-large, bge-m3)
+function isEmbeddingModelName(name: string): boolean {
+  return /embed|bge-|minilm/i.test(name);
+}
+
 export class OllamaAdapter extends BaseAdapter {
   readonly providerType = 'ollama';
   readonly supportsVision = true;
@@ -29,6 +34,14 @@ export class OllamaAdapter extends BaseAdapter {
   private baseUrl: string = 'http://localhost:11434/api';
 
   createModel(modelId: string, config?: ProviderConfig): LanguageModel {
+    return this.resolveProvider(config)(modelId);
+  }
+
+  createEmbeddingModel(modelId: string, config?: ProviderConfig): EmbeddingModel {
+    return this.resolveProvider(config).embedding(modelId);
+  }
+
+  private resolveProvider(config?: ProviderConfig) {
     const effectiveConfig = config || ({} as ProviderConfig);
     const effectiveBaseUrl = effectiveConfig.baseUrl || this.baseUrl;
 
@@ -37,7 +50,7 @@ export class OllamaAdapter extends BaseAdapter {
     const directUrl = this.getDirectUrl(effectiveBaseUrl);
     return createOllama({
       baseURL: this.ensureHttps(directUrl),
-    })(modelId);
+    });
   }
 
   async generate(options: GenerateOptions): Promise<GenerateResult> {
@@ -53,6 +66,7 @@ export class OllamaAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -74,6 +88,7 @@ export class OllamaAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -281,6 +296,7 @@ export class OllamaAdapter extends BaseAdapter {
           contextWindow: 8192,
           supportsVision: m.id.includes('vision') || m.id.includes('llava'),
           supportsTools: false,
+          supportsEmbedding: isEmbeddingModelName(m.id),
         }));
     } catch {
       return [];
@@ -319,6 +335,7 @@ export class OllamaAdapter extends BaseAdapter {
         contextWindow: 8192,
         supportsVision: m.name.includes('vision') || m.name.includes('llava'),
         supportsTools: false,
+        supportsEmbedding: isEmbeddingModelName(m.name),
       }));
     } catch {
       return [];
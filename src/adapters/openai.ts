@@ -5,7 +5,7 @@
  */
 
 import { openai, createOpenAI } from '@ai-sdk/openai';
-import { generateText, streamText, type LanguageModel } from 'ai';
+import { generateText, streamText, type EmbeddingModel, type LanguageModel } from 'ai';
 import { BaseAdapter } from './base';
 import type {
   ProviderConfig,
@@ -15,8 +15,36 @@ import type {
   ValidationResult,
   ModelInfo,
   ModelParams,
+  ProviderBatchRequest,
+  ProviderBatchSubmission,
+  ProviderBatchState,
+  ProviderBatchResult,
 } from '../types';
 
+// Batch API 응답 (필요한 필드만)
+interface OpenAIBatch {
+  id: string;
+  status: 'validating' | 'in_progress' | 'finalizing' | 'completed' | 'failed' | 'expired' | 'cancelling' | 'cancelled';
+  output_file_id?: string | null;
+  error_file_id?: string | null;
+  errors?: { data?: Array<{ message?: string }> } | null;
+  request_counts?: { total: number; completed: number; failed: number };
+}
+
+// 결과/에러 파일의 한 줄
+interface OpenAIBatchOutputLine {
+  custom_id: string;
+  response?: {
+    status_code: number;
+    body: {
+      choices?: Array<{ message?: { content?: string | null } }>;
+      usage?: { prompt_tokens: number; completion_tokens: number; prompt_tokens_details?: { cached_tokens?: number } };
+      error?: { message?: string };
+    };
+  } | null;
+  error?: { message?: string } | null;
+}
+
 export class OpenAIAdapter extends BaseAdapter {
   readonly providerType = 'openai';
   readonly supportsVision = true;
@@ -29,6 +57,14 @@ export class OpenAIAdapter extends BaseAdapter {
   private customOpenAI: ReturnType<typeof createOpenAI> | null = null;
 
   createModel(modelId: string, config?: ProviderConfig): LanguageModel {
+    return this.resolveProvider(config)(modelId);
+  }
+
+  createEmbeddingModel(modelId: string, config?: ProviderConfig): EmbeddingModel {
+    return this.resolveProvider(config).embedding(modelId);
+  }
+
+  private resolveProvider(config?: ProviderConfig) {
     const effectiveConfig = config || ({} as ProviderConfig);
     const effectiveApiKey = effectiveConfig.apiKeyEncrypted
       ? this.decryptApiKey(effectiveConfig.apiKeyEncrypted)
@@ -36,14 +72,13 @@ export class OpenAIAdapter extends BaseAdapter {
     const effectiveBaseUrl = effectiveConfig.baseUrl || this.baseUrl;
 
     if (effectiveBaseUrl !== 'https://api.openai.com/v1' || effectiveApiKey) {
-      const custom = createOpenAI({
+      return createOpenAI({
         apiKey: effectiveApiKey,
         baseURL: effectiveBaseUrl,
       });
-      return custom(modelId);
     }
 
-    return openai(modelId);
+    return openai;
   }
 
   async generate(options: GenerateOptions): Promise<GenerateResult> {
@@ -59,6 +94,7 @@ export class OpenAIAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -80,6 +116,7 @@ export class OpenAIAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -178,6 +215,108 @@ export class OpenAIAdapter extends BaseAdapter {
     this.customOpenAI = null;
   }
 
+  async submitBatch(
+    modelId: string,
+    requests: ProviderBatchRequest[],
+    config: ProviderConfig
+  ): Promise<ProviderBatchSubmission> {
+    const lines = requests.map((request) => JSON.stringify({
+      custom_id: request.customId,
+      method: 'POST',
+      url: '/v1/chat/completions',
+      body: {
+        model: modelId,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          ...(request.messages ?? [{ role: 'user', content: request.prompt ?? '' }]),
+        ],
+        max_completion_tokens: request.maxTokens,
+        temperature: request.temperature,
+      },
+    }));
+
+    // 1. 입력 JSONL 파일 업로드
+    const form = new FormData();
+    form.append('purpose', 'batch');
+    form.append('file', new Blob([lines.join('\n')], { type: 'application/jsonl' }), 'batch.jsonl');
+    const file = await (await this.requestApi(config, '/files', { method: 'POST', body: form })).json() as { id: string };
+
+    // 2. 배치 생성
+    const batch = await (await this.requestApi(config, '/batches', {
+      method: 'POST',
+      body: JSON.stringify({
+        input_file_id: file.id,
+        endpoint: '/v1/chat/completions',
+        completion_window: '24h',
+      }),
+    })).json() as OpenAIBatch;
+
+    return { externalId: batch.id, inputFileId: file.id };
+  }
+
+  async getBatchState(externalId: string, config: ProviderConfig): Promise<ProviderBatchState> {
+    const batch = await (await this.requestApi(config, `/batches/${externalId}`)).json() as OpenAIBatch;
+
+    const statusMap: Record<OpenAIBatch['status'], ProviderBatchState['status']> = {
+      validating: 'in_progress',
+      in_progress: 'in_progress',
+      finalizing: 'in_progress',
+      cancelling: 'in_progress',
+      completed: 'completed',
+      failed: 'failed',
+      expired: 'expired',
+      cancelled: 'cancelled',
+    };
+
+    return {
+      status: statusMap[batch.status] ?? 'in_progress',
+      outputFileId: batch.output_file_id ?? undefined,
+      errorFileId: batch.error_file_id ?? undefined,
+      error: batch.errors?.data?.map((e) => e.message).filter(Boolean).join('; ') || undefined,
+      completedCount: batch.request_counts?.completed,
+      failedCount: batch.request_counts?.failed,
+    };
+  }
+
+  async getBatchResults(
+    _externalId: string,
+    state: ProviderBatchState,
+    config: ProviderConfig
+  ): Promise<ProviderBatchResult[]> {
+    const fileIds = [state.outputFileId, state.errorFileId].filter((id): id is string => Boolean(id));
+    const results: ProviderBatchResult[] = [];
+
+    for (const fileId of fileIds) {
+      const body = await (await this.requestApi(config, `/files/${fileId}/content`)).text();
+
+      for (const line of this.parseJsonl<OpenAIBatchOutputLine>(body)) {
+        const response = line.response;
+        if (!response || response.status_code >= 400) {
+          results.push({
+            customId: line.custom_id,
+            success: false,
+            error: line.error?.message || response?.body.error?.message || `HTTP ${response?.status_code ?? 'unknown'}`,
+          });
+          continue;
+        }
+
+        const usage = response.body.usage;
+        results.push({
+          customId: line.custom_id,
+          success: true,
+          text: response.body.choices?.[0]?.message?.content ?? '',
+          usage: usage && {
+            inputTokens: usage.prompt_tokens,
+            outputTokens: usage.completion_tokens,
+            cachedInputTokens: usage.prompt_tokens_details?.cached_tokens,
+          },
+        });
+      }
+    }
+
+    return results;
+  }
+
   protected buildHeaders(config: ProviderConfig): Record<string, string> {
     const apiKey = config.apiKeyEncrypted
       ? this.decryptApiKey(config.apiKeyEncrypted)
@@ -16,8 +16,18 @@ import type {
   ValidationResult,
   ModelInfo,
   ModelParams,
+  ModelPrice,
 } from '../types';
 
+/**
+ * OpenRouter /models 응답의 가격 필드 (토큰당 USD, 문자열)
+ */
+interface OpenRouterPricing {
+  prompt?: string;
+  completion?: string;
+  input_cache_read?: string;
+}
+
 export class OpenRouterAdapter extends BaseAdapter {
   readonly providerType = 'openrouter';
   readonly supportsVision = true;
@@ -58,6 +68,7 @@ export class OpenRouterAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -76,6 +87,7 @@ export class OpenRouterAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return {
@@ -163,6 +175,7 @@ export class OpenRouterAdapter extends BaseAdapter {
             input_modalities?: string[];
           };
           supported_parameters?: string[];
+          pricing?: OpenRouterPricing;
         }>;
       };
 
@@ -177,6 +190,7 @@ export class OpenRouterAdapter extends BaseAdapter {
         contextWindow: model.context_length || 4096,
         supportsVision: this.checkVisionSupport(model),
         supportsTools: model.supported_parameters?.includes('tools') ?? false,
+        pricing: this.parsePricing(model.pricing),
       }));
     } catch (error) {
       console.error('Failed to fetch OpenRouter models:', error);
@@ -184,6 +198,32 @@ export class OpenRouterAdapter extends BaseAdapter {
     }
   }
 
+  /**
+   * OpenRouter 가격(토큰당 USD 문자열)을 1M 토큰당 가격으로 변환합니다.
+   * 가격이 없거나 음수(openrouter/auto 같은 가변 가격)면 undefined를 반환합니다.
+   */
+  private parsePricing(pricing?: OpenRouterPricing): ModelPrice | undefined {
+    if (!pricing) return undefined;
+
+    const toPerMillion = (value?: string): number | undefined => {
+      if (value === undefined || value === null || value === '') return undefined;
+      const perToken = Number(value);
+      if (!Number.isFinite(perToken) || perToken < 0) return undefined;
+      // 부동소수점 오차 제거 (예: 0.0000025 * 1e6)
+      return Math.round(perToken * 1_000_000 * 1e6) / 1e6;
+    };
+
+    const input = toPerMillion(pricing.prompt);
+    const output = toPerMillion(pricing.completion);
+    if (input === undefined || output === undefined) return undefined;
+
+    return {
+      inputPerMillion: input,
+      outputPerMillion: output,
+      cachedInputPerMillion: toPerMillion(pricing.input_cache_read) ?? null,
+    };
+  }
+
   private checkVisionSupport(model: {
     architecture?: { modality?: string; input_modalities?: string[] };
   }): boolean {
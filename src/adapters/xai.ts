@@ -50,6 +50,7 @@ export class XaiAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return { text: result.text, usage: result.usage };
@@ -65,6 +66,7 @@ export class XaiAdapter extends BaseAdapter {
       maxOutputTokens: options.maxTokens,
       temperature: options.temperature,
       topP: options.topP,
+      abortSignal: this.resolveAbortSignal(options),
     });
 
     return { stream: result.textStream, provider: this.providerType, model: 'unknown' };
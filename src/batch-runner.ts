@@ -0,0 +1,345 @@
+/**
+ * Batch Runner - 여러 LLM 요청을 한 번에 실행
+ *
+ * 학기말 리포트 일괄 생성처럼 요청 수가 많은 작업을 위한 API입니다.
+ * 각 요청은 기존 라우터(텍스트/구조화 출력/Vision)를 그대로 거치므로
+ * 폴백, 예산 정책, 사용량 추적이 동일하게 적용됩니다.
+ *
+ * - 전체 동시 실행 수와 제공자별 동시 호출 수/분당 요청 수 제한 (ProviderGate)
+ * - 폴백 체인이 흡수하지 못한 일시적 실패만 지수 백오프로 재시도
+ * - 항목별 결과/에러와 제공자별 비용 요약 반환
+ */
+
+import { generateWithProvider, type GenerateOptions } from './universal-router';
+import { generateObjectWithProvider, type GenerateObjectOptions } from './router-object';
+import { generateWithVision, type VisionGenerateOptions } from './router-vision';
+import { createProviderGate, type ProviderLimits } from './provider-gate';
+import { calculateCost } from './usage-tracker';
+import { BudgetExceededError } from './budget-enforcement';
+import { ContextWindowExceededError } from './token-estimation';
+import { ConversationNotFoundError } from './conversation-sessions';
+import { FailoverError } from './failover';
+import { isRetryableError } from './provider-errors';
+import { isTransientError } from './retry-policy';
+import type { GenerateResult } from './router-utils';
+import type { ProviderName } from './providers/types';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 배치 요청 항목
+ * signal과 gate는 runBatch가 설정합니다.
+ */
+export type BatchRequest =
+  | { id?: string; type: 'text'; options: GenerateOptions }
+  | { id?: string; type: 'object'; options: GenerateObjectOptions<unknown> }
+  | { id?: string; type: 'vision'; options: VisionGenerateOptions };
+
+/**
+ * 배치 진행 이벤트
+ */
+export interface BatchProgressEvent {
+  type: 'started' | 'succeeded' | 'retrying' | 'failed';
+  id: string;
+  index: number;
+  /** 몇 번째 시도인지 (1부터) */
+  attempt: number;
+  error?: Error;
+  /** 성공 또는 최종 실패로 끝난 항목 수 */
+  completed: number;
+  /** 최종 실패한 항목 수 */
+  failed: number;
+  total: number;
+}
+
+/**
+ * 배치 실행 옵션
+ */
+export interface BatchOptions {
+  /** 전체 동시 실행 항목 수 (기본 4) */
+  concurrency?: number;
+  /** Provider ID 또는 providerType별 한도 */
+  providerLimits?: Record<string, ProviderLimits>;
+  /** providerLimits에 없는 제공자의 한도 (기본: 동시 호출 2) */
+  defaultProviderLimits?: ProviderLimits;
+  /** 항목당 재시도 횟수 (기본 1, 제공자별 재시도와 폴백은 라우터가 이미 수행) */
+  maxRetries?: number;
+  /** 첫 재시도 대기 시간, 이후 두 배씩 증가 (기본 1000ms) */
+  retryDelayMs?: number;
+  /**
+   * 재시도 여부 판단 (기본: 모든 후보가 호출 한도 또는 일시적 오류로 실패한 경우만 재시도)
+   * 예산/컨텍스트/세션 에러와 잘못된 요청은 이 함수와 관계없이 재시도하지 않습니다.
+   */
+  shouldRetry?: (error: Error, request: BatchRequest) => boolean;
+  onProgress?: (event: BatchProgressEvent) => void;
+  /** 배치 전체 취소 — 대기 중인 항목은 시작하지 않고 실패로 기록 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 항목별 실행 결과 (요청과 같은 순서)
+ */
+export interface BatchItemResult {
+  id: string;
+  index: number;
+  status: 'succeeded' | 'failed';
+  /** type이 'object'이면 GenerateObjectResult */
+  result?: GenerateResult;
+  error?: Error;
+  attempts: number;
+  durationMs: number;
+  /** 추정 비용 (USD, 응답 캐시 적중은 0) */
+  costUsd: number;
+}
+
+/**
+ * 배치 비용 요약
+ */
+export interface BatchCostSummary {
+  totalCostUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  byProvider: Record<string, { requests: number; inputTokens: number; outputTokens: number; costUsd: number }>;
+}
+
+/**
+ * 배치 실행 결과
+ */
+export interface BatchResult {
+  items: BatchItemResult[];
+  succeeded: number;
+  failed: number;
+  durationMs: number;
+  cost: BatchCostSummary;
+}
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+/**
+ * 재시도해도 결과가 같은 에러인지 확인
+ * 폴백 체인이 끝난 경우 마지막 시도의 에러로 판단합니다. (잘못된 요청으로 체인이 중단된 경우 등)
+ */
+function isPermanentError(error: Error): boolean {
+  if (
+    error instanceof BudgetExceededError ||
+    error instanceof ContextWindowExceededError ||
+    error instanceof ConversationNotFoundError
+  ) {
+    return true;
+  }
+
+  if (error instanceof FailoverError) {
+    const lastError = error.lastError;
+    if (!lastError) return false;
+    return lastError.category === 'invalid_request' || isPermanentError(lastError.error);
+  }
+
+  return !isRetryableError(error);
+}
+
+/**
+ * 폴백 체인이 흡수하지 못한 일시적 실패인지 확인 (기본 재시도 조건)
+ * 모든 후보가 호출 한도로 건너뛰어졌거나 일시적 오류(rate_limit, server, network)로 실패한 경우입니다.
+ */
+function isUnabsorbedTransientError(error: Error): boolean {
+  if (!(error instanceof FailoverError)) {
+    return isTransientError(error);
+  }
+
+  return (
+    error.errors.length > 0 &&
+    error.errors.every(
+      (attempt) =>
+        attempt.outcome === 'rate_limited' ||
+        ((attempt.outcome ?? 'failed') === 'failed' && isTransientError(attempt.error))
+    )
+  );
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+function runRequest(request: BatchRequest, extra: Pick<GenerateOptions, 'signal' | 'gate'>): Promise<GenerateResult> {
+  switch (request.type) {
+    case 'text':
+      return generateWithProvider({ ...request.options, ...extra });
+    case 'object':
+      return generateObjectWithProvider({ ...request.options, ...extra });
+    case 'vision':
+      return generateWithVision({ ...request.options, ...extra });
+  }
+}
+
+function resultCost(result: GenerateResult): number {
+  if (result.cached) return 0;
+  return calculateCost(
+    result.provider as ProviderName,
+    result.usage.inputTokens ?? 0,
+    result.usage.outputTokens ?? 0,
+    result.model,
+    result.usage.inputTokenDetails?.cacheReadTokens
+  );
+}
+
+function summarizeCost(items: BatchItemResult[]): BatchCostSummary {
+  const summary: BatchCostSummary = { totalCostUsd: 0, inputTokens: 0, outputTokens: 0, byProvider: {} };
+
+  for (const item of items) {
+    if (!item.result) continue;
+    const inputTokens = item.result.usage.inputTokens ?? 0;
+    const outputTokens = item.result.usage.outputTokens ?? 0;
+
+    summary.totalCostUsd += item.costUsd;
+    summary.inputTokens += inputTokens;
+    summary.outputTokens += outputTokens;
+
+    const entry = (summary.byProvider[item.result.provider] ??= {
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+    });
+    entry.requests++;
+    entry.inputTokens += inputTokens;
+    entry.outputTokens += outputTokens;
+    entry.costUsd += item.costUsd;
+  }
+
+  return summary;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 여러 요청을 동시 실행 수와 제공자 한도 안에서 실행합니다.
+ * 항목 하나가 실패해도 배치는 계속 진행되며, 에러는 항목 결과에 담깁니다.
+ *
+ * @example
+ * ```ts
+ * const { items, cost } = await runBatch(
+ *   students.map((s) => ({
+ *     id: s.id,
+ *     type: 'text',
+ *     options: { featureType: 'report_generate', prompt: buildReportPrompt(s), teacherId },
+ *   })),
+ *   {
+ *     concurrency: 8,
+ *     providerLimits: { openai: { maxConcurrency: 4, requestsPerMinute: 60 } },
+ *     onProgress: (e) => console.log(`${e.completed}/${e.total}`),
+ *   }
+ * );
+ * ```
+ */
+export async function runBatch(requests: BatchRequest[], options: BatchOptions = {}): Promise<BatchResult> {
+  const {
+    concurrency = 4,
+    providerLimits,
+    defaultProviderLimits = { maxConcurrency: 2 },
+    maxRetries = 1,
+    retryDelayMs = 1000,
+    shouldRetry,
+    onProgress,
+    signal,
+  } = options;
+
+  const batchStart = Date.now();
+  const gate = createProviderGate({ defaults: defaultProviderLimits, perProvider: providerLimits });
+  const items: BatchItemResult[] = new Array(requests.length);
+  const total = requests.length;
+  let completed = 0;
+  let failed = 0;
+  let next = 0;
+
+  const emit = (event: Omit<BatchProgressEvent, 'completed' | 'failed' | 'total'>) => {
+    onProgress?.({ ...event, completed, failed, total });
+  };
+
+  const runItem = async (index: number): Promise<BatchItemResult> => {
+    const request = requests[index];
+    const id = request.id ?? String(index);
+    const itemStart = Date.now();
+    const itemSignal = request.options.signal;
+    const combinedSignal = signal && itemSignal ? AbortSignal.any([signal, itemSignal]) : (signal ?? itemSignal);
+    let attempt = 0;
+
+    while (true) {
+      attempt++;
+      emit({ type: 'started', id, index, attempt });
+
+      try {
+        combinedSignal?.throwIfAborted();
+        const result = await runRequest(request, { signal: combinedSignal, gate });
+
+        completed++;
+        emit({ type: 'succeeded', id, index, attempt });
+        return {
+          id,
+          index,
+          status: 'succeeded',
+          result,
+          attempts: attempt,
+          durationMs: Date.now() - itemStart,
+          costUsd: resultCost(result),
+        };
+      } catch (caught) {
+        const error = caught instanceof Error ? caught : new Error(String(caught));
+        const retryable =
+          attempt <= maxRetries &&
+          !combinedSignal?.aborted &&
+          !isPermanentError(error) &&
+          (shouldRetry ? shouldRetry(error, request) : isUnabsorbedTransientError(error));
+
+        if (retryable) {
+          emit({ type: 'retrying', id, index, attempt, error });
+          await sleep(retryDelayMs * 2 ** (attempt - 1), combinedSignal);
+          continue;
+        }
+
+        completed++;
+        failed++;
+        emit({ type: 'failed', id, index, attempt, error });
+        return {
+          id,
+          index,
+          status: 'failed',
+          error,
+          attempts: attempt,
+          durationMs: Date.now() - itemStart,
+          costUsd: 0,
+        };
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < requests.length) {
+      const index = next++;
+      items[index] = await runItem(index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), requests.length) }, worker));
+
+  return {
+    items,
+    succeeded: total - failed,
+    failed,
+    durationMs: Date.now() - batchStart,
+    cost: summarizeCost(items),
+  };
+}
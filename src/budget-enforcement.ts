@@ -0,0 +1,429 @@
+/**
+ * Budget Enforcement - 예산 초과 시 라우팅 제한
+ *
+ * LLMBudget의 enforcementMode에 따라 예산을 초과한 기간이 있으면
+ * 라우터 호출 전에 제공자 선택을 제한하거나 요청을 차단합니다.
+ *
+ * - alert_only: 제한 없음 (기존 알림만)
+ * - downgrade: 무료/저비용(costTier free, low) 제공자만 사용
+ * - block_non_essential: 필수 기능 외 요청 차단
+ * - hard_block: 모든 요청 차단
+ *
+ * 전체 예산(LLMBudget) 외에 교사/기능 단위 범위 예산(LLMScopedBudget)도 평가합니다.
+ * 범위 예산은 비용 한도(budgetUsd)와 요청 수 한도(requestLimit)를 가질 수 있으며,
+ * 예: 교사별 월 500회 관상 분석, counseling_suggest 일 $20.
+ */
+
+import { db } from '@ais/db/client';
+import type { FeatureType } from './providers';
+import type { CostTier } from './types';
+import { getPeriodStartDate } from './usage-tracker';
+import type { BudgetAlert, BudgetPeriod } from './smart-routing';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+export type BudgetEnforcementMode =
+  | 'alert_only'
+  | 'downgrade'
+  | 'block_non_essential'
+  | 'hard_block';
+
+/**
+ * 예산 적용 범위
+ * - global: 전체 (LLMBudget)
+ * - teacher: 교사 단위
+ * - feature: 기능 단위 (모든 교사 합산)
+ * - teacher_feature: 교사 + 기능 단위
+ */
+export type BudgetScope = 'global' | 'teacher' | 'feature' | 'teacher_feature';
+
+/**
+ * 범위 예산 설정 (LLMScopedBudget 행)
+ */
+export interface ScopedBudgetRule {
+  id: string;
+  /** 특정 교사에게만 적용 (null이면 perTeacher 또는 전체 교사) */
+  teacherId: string | null;
+  /** 특정 기능에만 적용 (null이면 모든 기능) */
+  featureType: string | null;
+  /** teacherId가 없을 때 요청한 교사별로 따로 집계 */
+  perTeacher: boolean;
+  period: string;
+  budgetUsd: number | null;
+  requestLimit: number | null;
+  enforcementMode: string;
+  isEnabled: boolean;
+}
+
+/**
+ * 범위별 기간 사용량
+ */
+export interface ScopedUsage {
+  costUsd: number;
+  /** 성공한 논리적 요청 수 (캐시 적중, 세션 요약, 임베딩, 앙상블 내부 호출 제외) */
+  requests: number;
+}
+
+/**
+ * 라우터 호출 전 예산 평가 결과
+ */
+export interface BudgetEnforcement {
+  /** 허용되는 최대 비용 등급 (downgrade 적용 시) */
+  maxCostTier?: CostTier;
+  /** 제한을 유발한 예산 알림 */
+  alert?: BudgetAlert;
+  mode?: BudgetEnforcementMode;
+}
+
+/**
+ * 예산 정책에 의해 요청이 차단되었을 때 발생하는 에러
+ */
+export class BudgetExceededError extends Error {
+  public readonly alert: BudgetAlert;
+  public readonly mode: BudgetEnforcementMode;
+  public readonly featureType: string;
+
+  constructor(alert: BudgetAlert, mode: BudgetEnforcementMode, featureType: string, message?: string) {
+    const scopeLabel = [
+      alert.teacherId && `teacher "${alert.teacherId}"`,
+      alert.featureType && `feature "${alert.featureType}"`,
+    ].filter(Boolean).join(', ');
+    const quotaExceeded =
+      alert.requestLimit !== undefined && (alert.requestCount ?? 0) >= alert.requestLimit;
+    const defaultMessage = quotaExceeded
+      ? `${alert.period} request quota exceeded for ${scopeLabel || `feature "${featureType}"`} ` +
+        `(${alert.requestCount} / ${alert.requestLimit} requests, mode: ${mode})`
+      : `${alert.period} budget exceeded for ${scopeLabel || `feature "${featureType}"`} ` +
+        `($${alert.currentCost.toFixed(2)} / $${alert.budget.toFixed(2)}, mode: ${mode})`;
+
+    super(message || defaultMessage);
+    this.name = 'BudgetExceededError';
+    this.alert = alert;
+    this.mode = mode;
+    this.featureType = featureType;
+
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+
+  /**
+   * 사용자 친화적 에러 메시지
+   */
+  get userMessage(): string {
+    return 'AI 사용 예산을 초과하여 요청을 처리할 수 없습니다. 관리자에게 문의해주세요.';
+  }
+}
+
+// =============================================================================
+// 상수
+// =============================================================================
+
+/**
+ * block_non_essential 모드에서도 허용되는 기본 필수 기능
+ * (LLMBudget.essentialFeatures가 비어 있을 때 사용)
+ */
+export const DEFAULT_ESSENTIAL_FEATURES: FeatureType[] = [
+  'learning_analysis',
+  'counseling_suggest',
+  'report_generate',
+];
+
+// downgrade 모드에서 허용되는 최대 비용 등급
+const DOWNGRADE_MAX_COST_TIER: CostTier = 'low';
+
+const COST_TIER_RANK: Record<CostTier, number> = {
+  free: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+// 범위 예산 기본 조치 — 한도를 넘으면 차단
+const DEFAULT_SCOPED_ENFORCEMENT_MODE: BudgetEnforcementMode = 'hard_block';
+
+// 현재 기간 사용량 캐시 TTL (30초) — 매 호출마다 집계 쿼리를 피하기 위함
+const USAGE_CACHE_TTL_MS = 30 * 1000;
+
+// 초과 시 요청을 차단하는 예산의 캐시 TTL (5초) — 한도를 넘겨 허용하는 구간을 짧게 유지
+const BLOCKING_USAGE_CACHE_TTL_MS = 5 * 1000;
+
+const usageCache = new Map<string, { value: ScopedUsage; fetchedAt: number }>();
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+async function getCachedUsage(
+  period: BudgetPeriod,
+  filter: { teacherId?: string; featureType?: string } = {},
+  ttlMs = USAGE_CACHE_TTL_MS
+): Promise<ScopedUsage> {
+  const key = `${period}:${filter.teacherId ?? '*'}:${filter.featureType ?? '*'}`;
+  const cached = usageCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+    return cached.value;
+  }
+
+  const value = await getScopedUsage(period, filter);
+  usageCache.set(key, { value, fetchedAt: Date.now() });
+  return value;
+}
+
+/**
+ * 범위 예산 설정의 적용 범위를 판별합니다.
+ */
+export function getBudgetScope(rule: Pick<ScopedBudgetRule, 'teacherId' | 'featureType' | 'perTeacher'>): BudgetScope {
+  const hasTeacher = Boolean(rule.teacherId) || rule.perTeacher;
+  if (hasTeacher && rule.featureType) return 'teacher_feature';
+  if (hasTeacher) return 'teacher';
+  if (rule.featureType) return 'feature';
+  return 'global';
+}
+
+// 요청에 적용되는 범위 예산인지 확인
+function matchesRule(rule: ScopedBudgetRule, featureType: string, teacherId?: string): boolean {
+  if (!rule.isEnabled) return false;
+  if (rule.featureType && rule.featureType !== featureType) return false;
+  if ((rule.teacherId || rule.perTeacher) && !teacherId) return false;
+  if (rule.teacherId && rule.teacherId !== teacherId) return false;
+  return true;
+}
+
+/**
+ * 범위 예산 한도 대비 사용량으로 알림 정보를 만듭니다.
+ * 비용/요청 수 중 더 많이 소진된 쪽을 percentUsed로 사용합니다.
+ */
+function buildScopedAlert(
+  rule: ScopedBudgetRule,
+  usage: ScopedUsage,
+  teacherId: string | undefined
+): BudgetAlert {
+  const costPercent = rule.budgetUsd && rule.budgetUsd > 0 ? (usage.costUsd / rule.budgetUsd) * 100 : 0;
+  const requestPercent =
+    rule.requestLimit && rule.requestLimit > 0 ? (usage.requests / rule.requestLimit) * 100 : 0;
+
+  return {
+    period: rule.period as BudgetPeriod,
+    threshold: 100,
+    currentCost: usage.costUsd,
+    budget: rule.budgetUsd ?? 0,
+    percentUsed: Math.max(costPercent, requestPercent),
+    scope: getBudgetScope(rule),
+    budgetId: rule.id,
+    teacherId: rule.teacherId ?? teacherId,
+    featureType: rule.featureType ?? undefined,
+    requestCount: usage.requests,
+    requestLimit: rule.requestLimit ?? undefined,
+  };
+}
+
+type BudgetAction = 'allow' | 'downgrade' | 'block';
+
+const ACTION_RANK: Record<BudgetAction, number> = {
+  allow: 0,
+  downgrade: 1,
+  block: 2,
+};
+
+function resolveAction(
+  mode: BudgetEnforcementMode,
+  featureType: string,
+  essentialFeatures: string[]
+): BudgetAction {
+  switch (mode) {
+    case 'hard_block':
+      return 'block';
+    case 'block_non_essential':
+      return essentialFeatures.includes(featureType) ? 'allow' : 'block';
+    case 'downgrade':
+      return 'downgrade';
+    default:
+      return 'allow';
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 비용 등급이 허용 범위 안인지 확인합니다.
+ * 알 수 없는 등급은 medium으로 간주합니다.
+ */
+export function isWithinCostTier(costTier: string, maxCostTier?: CostTier): boolean {
+  if (!maxCostTier) return true;
+  const rank = COST_TIER_RANK[costTier as CostTier] ?? COST_TIER_RANK.medium;
+  return rank <= COST_TIER_RANK[maxCostTier];
+}
+
+/**
+ * 기간 내 사용량(비용, 성공 요청 수)을 범위별로 집계합니다.
+ * 비용은 모든 성공 호출의 합계이고, 요청 수는 논리적 요청당 1건(countsAsRequest)만 셉니다.
+ *
+ * @param period 예산 기간
+ * @param filter 교사/기능 필터 (없으면 전체)
+ */
+export async function getScopedUsage(
+  period: BudgetPeriod,
+  filter: { teacherId?: string; featureType?: string } = {}
+): Promise<ScopedUsage> {
+  const where = {
+    createdAt: { gte: getPeriodStartDate(period) },
+    success: true,
+    ...(filter.teacherId && { teacherId: filter.teacherId }),
+    ...(filter.featureType && { featureType: filter.featureType }),
+  };
+
+  const [aggregate, requests] = await Promise.all([
+    db.lLMUsage.aggregate({ where, _sum: { costUsd: true } }),
+    db.lLMUsage.count({ where: { ...where, countsAsRequest: true } }),
+  ]);
+
+  return {
+    costUsd: aggregate._sum.costUsd || 0,
+    requests,
+  };
+}
+
+/**
+ * 사용량 캐시를 비웁니다. (예산 설정 변경 시 호출)
+ */
+export function invalidateBudgetCache(): void {
+  usageCache.clear();
+}
+
+/**
+ * 라우터 호출 전 예산 정책을 평가합니다.
+ * 전체 예산과 요청에 해당하는 범위 예산 중 초과된 것의 가장 엄격한 조치를 적용합니다.
+ *
+ * @param featureType 기능 유형
+ * @param teacherId 요청한 교사 (없으면 교사 단위 예산은 평가하지 않음)
+ * @returns 적용할 제한 (제한이 없으면 빈 객체)
+ * @throws BudgetExceededError 요청이 차단된 경우
+ */
+export async function enforceBudget(featureType: string, teacherId?: string): Promise<BudgetEnforcement> {
+  const [budgets, scopedBudgets] = await Promise.all([
+    db.lLMBudget.findMany(),
+    db.lLMScopedBudget.findMany({ where: { isEnabled: true } }),
+  ]);
+
+  const exceeded: Array<{ mode: BudgetEnforcementMode; alert: BudgetAlert; essentialFeatures: string[] }> = [];
+
+  for (const budget of budgets) {
+    if (!budget.budgetUsd || budget.budgetUsd <= 0) continue;
+
+    const period = budget.period as BudgetPeriod;
+    const mode = (budget.enforcementMode ?? 'alert_only') as BudgetEnforcementMode;
+    const essentialFeatures: string[] =
+      budget.essentialFeatures && budget.essentialFeatures.length > 0
+        ? budget.essentialFeatures
+        : DEFAULT_ESSENTIAL_FEATURES;
+
+    const blocks = resolveAction(mode, featureType, essentialFeatures) === 'block';
+    const { costUsd: currentCost } = await getCachedUsage(
+      period,
+      {},
+      blocks ? BLOCKING_USAGE_CACHE_TTL_MS : USAGE_CACHE_TTL_MS
+    );
+    if (currentCost < budget.budgetUsd) continue;
+
+    exceeded.push({
+      mode,
+      essentialFeatures,
+      alert: {
+        period,
+        threshold: 100,
+        currentCost,
+        budget: budget.budgetUsd,
+        percentUsed: (currentCost / budget.budgetUsd) * 100,
+        scope: 'global',
+      },
+    });
+  }
+
+  for (const rule of scopedBudgets as ScopedBudgetRule[]) {
+    if (!matchesRule(rule, featureType, teacherId)) continue;
+
+    const mode = (rule.enforcementMode ?? DEFAULT_SCOPED_ENFORCEMENT_MODE) as BudgetEnforcementMode;
+    const blocks = resolveAction(mode, featureType, DEFAULT_ESSENTIAL_FEATURES) === 'block';
+    const usage = await getCachedUsage(
+      rule.period as BudgetPeriod,
+      {
+        teacherId: rule.teacherId ?? (rule.perTeacher ? teacherId : undefined),
+        featureType: rule.featureType ?? undefined,
+      },
+      blocks ? BLOCKING_USAGE_CACHE_TTL_MS : USAGE_CACHE_TTL_MS
+    );
+
+    const costExceeded = !!rule.budgetUsd && rule.budgetUsd > 0 && usage.costUsd >= rule.budgetUsd;
+    const quotaExceeded = !!rule.requestLimit && rule.requestLimit > 0 && usage.requests >= rule.requestLimit;
+    if (!costExceeded && !quotaExceeded) continue;
+
+    exceeded.push({
+      mode,
+      essentialFeatures: DEFAULT_ESSENTIAL_FEATURES,
+      alert: buildScopedAlert(rule, usage, teacherId),
+    });
+  }
+
+  let strictest: { action: BudgetAction; alert: BudgetAlert; mode: BudgetEnforcementMode } | null = null;
+
+  for (const { mode, alert, essentialFeatures } of exceeded) {
+    const action = resolveAction(mode, featureType, essentialFeatures);
+    if (!strictest || ACTION_RANK[action] > ACTION_RANK[strictest.action]) {
+      strictest = { action, alert, mode };
+    }
+  }
+
+  if (!strictest) {
+    return {};
+  }
+
+  const { action, alert, mode } = strictest;
+  const scopeLabel = alert.scope && alert.scope !== 'global' ? ` ${alert.scope}` : '';
+
+  if (action === 'block') {
+    throw new BudgetExceededError(alert, mode, featureType);
+  }
+
+  if (action === 'downgrade') {
+    console.warn(
+      `[Budget] ${alert.period}${scopeLabel} budget exceeded (${alert.percentUsed.toFixed(1)}%), ` +
+      `downgrading "${featureType}" to ${DOWNGRADE_MAX_COST_TIER}-cost providers`
+    );
+    return { maxCostTier: DOWNGRADE_MAX_COST_TIER, alert, mode };
+  }
+
+  console.warn(`[Budget] ${alert.period}${scopeLabel} budget exceeded (${alert.percentUsed.toFixed(1)}%), alert only`);
+  return { alert, mode };
+}
+
+/**
+ * 예산 평가 결과에 따라 후보를 비용 등급으로 거릅니다.
+ *
+ * @throws BudgetExceededError downgrade 후 남은 후보가 없는 경우
+ */
+export function applyBudgetToCandidates<T extends { provider: { costTier: string } }>(
+  candidates: T[],
+  enforcement: BudgetEnforcement,
+  featureType: string
+): T[] {
+  if (!enforcement.maxCostTier) {
+    return candidates;
+  }
+
+  const allowed = candidates.filter((c) => isWithinCostTier(c.provider.costTier, enforcement.maxCostTier));
+
+  if (allowed.length === 0 && enforcement.alert && enforcement.mode) {
+    throw new BudgetExceededError(
+      enforcement.alert,
+      enforcement.mode,
+      featureType,
+      `${enforcement.alert.period} budget exceeded and no ${enforcement.maxCostTier}-cost provider ` +
+      `is available for feature "${featureType}"`
+    );
+  }
+
+  return allowed;
+}
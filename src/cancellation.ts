@@ -0,0 +1,185 @@
+/**
+ * Request Cancellation
+ *
+ * 라우터 호출의 취소(AbortSignal)와 시간 제한을 관리합니다.
+ * - signal: 호출자가 요청을 취소할 때 사용
+ * - timeoutMs: 제공자 1회 시도당 제한 시간 (초과 시 다음 제공자로 폴백)
+ * - totalDeadlineMs: 폴백을 포함한 전체 요청 제한 시간
+ */
+
+export interface CancellationOptions {
+  /** 호출자 취소 신호 */
+  signal?: AbortSignal;
+  /** 제공자 1회 시도당 제한 시간 (ms) */
+  timeoutMs?: number;
+  /** 폴백을 포함한 전체 요청 제한 시간 (ms) */
+  totalDeadlineMs?: number;
+}
+
+/**
+ * 요청 중단 사유
+ * - cancelled: 호출자가 signal로 취소
+ * - deadline: totalDeadlineMs 초과
+ */
+export type AbortReason = 'cancelled' | 'deadline';
+
+/**
+ * 호출자 취소 또는 전체 기한 초과로 요청이 중단되었을 때 발생하는 에러
+ */
+export class RequestAbortedError extends Error {
+  public readonly reason: AbortReason;
+  public readonly featureType: string;
+  public readonly elapsedMs: number;
+
+  constructor(reason: AbortReason, featureType: string, elapsedMs: number, lastError?: Error | null) {
+    const base = reason === 'cancelled'
+      ? `Request for feature "${featureType}" was cancelled by the caller`
+      : `Request for feature "${featureType}" exceeded its deadline after ${elapsedMs}ms`;
+
+    super(lastError ? `${base}. Last error: ${lastError.message}` : base);
+    this.name = 'RequestAbortedError';
+    this.reason = reason;
+    this.featureType = featureType;
+    this.elapsedMs = elapsedMs;
+
+    Object.setPrototypeOf(this, RequestAbortedError.prototype);
+  }
+
+  /**
+   * 사용자 친화적 에러 메시지
+   */
+  get userMessage(): string {
+    return this.reason === 'cancelled'
+      ? '요청이 취소되었습니다.'
+      : 'AI 응답 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+/**
+ * 제공자 1회 시도의 취소 범위
+ */
+export interface AttemptScope {
+  /** 이번 시도에 전달할 신호 (호출자 취소 + 시도/전체 제한 시간) */
+  signal: AbortSignal;
+  /** 시도 제한 시간(또는 전체 기한)으로 중단되었는지 여부 */
+  readonly timedOut: boolean;
+  /** 타이머와 리스너를 정리합니다. */
+  dispose(): void;
+}
+
+/**
+ * 요청 단위 기한 추적기
+ *
+ * 폴백 체인 전체에 걸쳐 남은 시간을 계산하고,
+ * 각 시도마다 min(timeoutMs, 남은 시간)으로 제한된 신호를 만들어 줍니다.
+ */
+export class RequestDeadline {
+  private readonly startedAt = Date.now();
+  private readonly options: CancellationOptions;
+
+  constructor(options: CancellationOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 요청 시작 이후 경과 시간 (ms)
+   */
+  get elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  /**
+   * 전체 기한까지 남은 시간 (기한이 없으면 undefined)
+   */
+  remainingMs(): number | undefined {
+    const { totalDeadlineMs } = this.options;
+    if (totalDeadlineMs === undefined) return undefined;
+    return Math.max(0, totalDeadlineMs - this.elapsedMs);
+  }
+
+  /**
+   * 호출자 취소 또는 기한 초과 상태이면 사유를 반환합니다.
+   */
+  abortReason(): AbortReason | null {
+    if (this.options.signal?.aborted) return 'cancelled';
+    if (this.remainingMs() === 0) return 'deadline';
+    return null;
+  }
+
+  /**
+   * 취소/기한 초과 상태이면 RequestAbortedError를 발생시킵니다.
+   */
+  throwIfAborted(featureType: string, lastError?: Error | null): void {
+    const reason = this.abortReason();
+    if (reason) {
+      throw new RequestAbortedError(reason, featureType, this.elapsedMs, lastError);
+    }
+  }
+
+  /**
+   * 제공자 1회 시도용 취소 범위를 시작합니다.
+   */
+  beginAttempt(): AttemptScope {
+    const controller = new AbortController();
+    const { signal: userSignal, timeoutMs } = this.options;
+    const remaining = this.remainingMs();
+
+    const limits = [timeoutMs, remaining].filter((v): v is number => v !== undefined);
+    const limitMs = limits.length > 0 ? Math.min(...limits) : undefined;
+
+    let timedOut = false;
+    const timer = limitMs !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort(new Error(`Attempt timeout after ${limitMs}ms`));
+        }, limitMs)
+      : undefined;
+
+    const onUserAbort = () => controller.abort(userSignal?.reason);
+    if (userSignal) {
+      if (userSignal.aborted) {
+        controller.abort(userSignal.reason);
+      } else {
+        userSignal.addEventListener('abort', onUserAbort, { once: true });
+      }
+    }
+
+    return {
+      signal: controller.signal,
+      get timedOut() {
+        return timedOut;
+      },
+      dispose() {
+        clearTimeout(timer);
+        userSignal?.removeEventListener('abort', onUserAbort);
+      },
+    };
+  }
+}
+
+/**
+ * 어댑터 단일 호출용 신호를 만듭니다.
+ * 호출자 신호와 timeoutMs를 하나의 AbortSignal로 결합합니다.
+ */
+export function createAbortSignal(
+  signal?: AbortSignal,
+  timeoutMs?: number
+): AbortSignal | undefined {
+  const signals: AbortSignal[] = [];
+  if (signal) signals.push(signal);
+  if (timeoutMs !== undefined) signals.push(AbortSignal.timeout(timeoutMs));
+
+  if (signals.length === 0) return undefined;
+  return signals.length === 1 ? signals[0] : AbortSignal.any(signals);
+}
+
+/**
+ * 폴백 없는 단일 제공자 호출용 신호를 만듭니다.
+ * 시도 제한(timeoutMs)과 전체 기한(totalDeadlineMs) 중 짧은 쪽을 적용합니다.
+ */
+export function createCallSignal(options: CancellationOptions): AbortSignal | undefined {
+  const limits = [options.timeoutMs, options.totalDeadlineMs].filter(
+    (v): v is number => v !== undefined
+  );
+  return createAbortSignal(options.signal, limits.length > 0 ? Math.min(...limits) : undefined);
+}
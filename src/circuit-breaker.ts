@@ -0,0 +1,297 @@
+/**
+ * Circuit Breaker
+ *
+ * 제공자 + 모델 단위로 호출 결과를 추적하여 연속으로 실패하는 모델을
+ * 폴백 체인에서 건너뛰거나 뒤로 미룹니다.
+ *
+ * 상태 전이:
+ * - closed → open: 연속 실패가 failureThreshold에 도달
+ * - open → half_open: openDurationMs 경과 후 다음 조회 시
+ * - half_open → closed: 시험 호출 성공
+ * - half_open → open: 시험 호출 실패
+ *
+ * 실패는 제공자 상태를 나타내는 분류(failureCategories: timeout, network, server, rate_limit)만
+ * 셉니다. 인증/요청 오류처럼 요청마다 다른 실패로 모델 전체를 차단하지 않기 위함입니다.
+ * half_open에서는 한 번에 하나의 시험 호출만 허용합니다. (acquireCircuitTrial)
+ *
+ * trackUsage/trackFailure가 결과를 기록하고, FeatureResolver가 상태를 조회합니다.
+ * 상태는 프로세스 메모리에만 유지됩니다.
+ */
+
+import type { ProviderErrorCategory } from './provider-errors';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * 서킷 브레이커 설정
+ */
+export interface CircuitBreakerConfig {
+  /** open 전환까지의 연속 실패 횟수 */
+  failureThreshold: number;
+  /** open 유지 시간 (ms) — 이후 half_open으로 시험 호출 허용 */
+  openDurationMs: number;
+  /** 건강 점수 계산에 사용할 최근 호출 수 */
+  windowSize: number;
+  /** 실패로 세는 에러 분류 (분류 없이 기록된 실패는 항상 셈) */
+  failureCategories: ProviderErrorCategory[];
+}
+
+/**
+ * 관리 화면 표시용 서킷 상태 스냅샷
+ */
+export interface CircuitSnapshot {
+  provider: string;
+  modelId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** 최근 windowSize개 호출의 성공률 (0~1, 기록이 없으면 1) */
+  healthScore: number;
+  /** 최근 호출 수 (windowSize 이하) */
+  sampleSize: number;
+  openedAt: Date | null;
+  /** open 상태에서 다음 시험 호출이 허용되는 시각 */
+  nextAttemptAt: Date | null;
+  lastFailureAt: Date | null;
+  lastFailureMessage: string | null;
+  lastSuccessAt: Date | null;
+}
+
+interface CircuitEntry {
+  provider: string;
+  modelId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  outcomes: boolean[];
+  openedAt: number | null;
+  /** half_open 시험 호출 시작 시각 (진행 중인 시험 호출이 없으면 null) */
+  trialStartedAt: number | null;
+  lastFailureAt: number | null;
+  lastFailureMessage: string | null;
+  lastSuccessAt: number | null;
+}
+
+// =============================================================================
+// 상수 / 상태
+// =============================================================================
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  openDurationMs: 60 * 1000,
+  windowSize: 50,
+  failureCategories: ['timeout', 'network', 'server', 'rate_limit'],
+};
+
+let config: CircuitBreakerConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG };
+
+const circuits = new Map<string, CircuitEntry>();
+
+function circuitKey(provider: string, modelId: string): string {
+  return `${provider}:${modelId}`;
+}
+
+function getEntry(provider: string, modelId: string): CircuitEntry {
+  const key = circuitKey(provider, modelId);
+  let entry = circuits.get(key);
+  if (!entry) {
+    entry = {
+      provider,
+      modelId,
+      state: 'closed',
+      consecutiveFailures: 0,
+      outcomes: [],
+      openedAt: null,
+      trialStartedAt: null,
+      lastFailureAt: null,
+      lastFailureMessage: null,
+      lastSuccessAt: null,
+    };
+    circuits.set(key, entry);
+  }
+  return entry;
+}
+
+function pushOutcome(entry: CircuitEntry, success: boolean): void {
+  entry.outcomes.push(success);
+  if (entry.outcomes.length > config.windowSize) {
+    entry.outcomes.splice(0, entry.outcomes.length - config.windowSize);
+  }
+}
+
+// open 유지 시간이 지났으면 half_open으로 전환
+function refreshState(entry: CircuitEntry, now: number): void {
+  if (
+    entry.state === 'open' &&
+    entry.openedAt !== null &&
+    now - entry.openedAt >= config.openDurationMs
+  ) {
+    entry.state = 'half_open';
+    entry.trialStartedAt = null;
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 서킷 브레이커 설정을 변경합니다.
+ *
+ * @param overrides - 변경할 설정 값
+ */
+export function configureCircuitBreaker(overrides: Partial<CircuitBreakerConfig>): CircuitBreakerConfig {
+  config = { ...config, ...overrides };
+  return { ...config };
+}
+
+/**
+ * 성공한 호출을 기록합니다.
+ */
+export function recordCircuitSuccess(provider: string, modelId: string): void {
+  const entry = getEntry(provider, modelId);
+  pushOutcome(entry, true);
+
+  entry.state = 'closed';
+  entry.consecutiveFailures = 0;
+  entry.openedAt = null;
+  entry.trialStartedAt = null;
+  entry.lastSuccessAt = Date.now();
+}
+
+/**
+ * 실패한 호출을 기록합니다.
+ * failureCategories에 없는 분류의 실패는 세지 않습니다. (진행 중인 시험 호출만 끝냄)
+ *
+ * @param category - 에러 분류 (없으면 항상 실패로 셈)
+ */
+export function recordCircuitFailure(
+  provider: string,
+  modelId: string,
+  errorMessage?: string,
+  category?: ProviderErrorCategory
+): void {
+  const now = Date.now();
+  const entry = getEntry(provider, modelId);
+  refreshState(entry, now);
+  entry.trialStartedAt = null;
+
+  if (category && !config.failureCategories.includes(category)) {
+    return;
+  }
+  pushOutcome(entry, false);
+
+  entry.consecutiveFailures += 1;
+  entry.lastFailureAt = now;
+  entry.lastFailureMessage = errorMessage ?? null;
+
+  // half_open 시험 호출 실패 또는 연속 실패 임계치 도달 시 open
+  if (entry.state === 'half_open' || entry.consecutiveFailures >= config.failureThreshold) {
+    if (entry.state !== 'open') {
+      console.warn(
+        `[Circuit Breaker] ${provider}/${modelId} opened after ${entry.consecutiveFailures} consecutive failures`
+      );
+    }
+    entry.state = 'open';
+    entry.openedAt = now;
+  }
+}
+
+/**
+ * 현재 서킷 상태를 반환합니다.
+ * open 유지 시간이 지난 서킷은 half_open으로 전환되어 시험 호출이 허용됩니다.
+ */
+export function getCircuitState(provider: string, modelId: string): CircuitState {
+  const entry = circuits.get(circuitKey(provider, modelId));
+  if (!entry) return 'closed';
+
+  refreshState(entry, Date.now());
+  return entry.state;
+}
+
+/**
+ * 호출을 시도해도 되는지 확인합니다. (open 상태만 차단)
+ */
+export function isCircuitOpen(provider: string, modelId: string): boolean {
+  return getCircuitState(provider, modelId) === 'open';
+}
+
+/**
+ * 제공자 호출 직전에 서킷을 확인하고, half_open이면 시험 호출 자격을 얻습니다.
+ * half_open에서 다른 시험 호출이 진행 중이면 null을 반환합니다. (호출하지 않고 다음 후보로)
+ * closed/open 상태는 FeatureResolver의 openCircuitPolicy가 처리하므로 막지 않습니다.
+ *
+ * 시험 호출 결과는 recordCircuitSuccess/recordCircuitFailure가 반영하고,
+ * 결과 기록 없이 끝난 시도(취소, 응답 품질 문제)는 반환된 함수로 자격을 반납합니다.
+ * 반납되지 않은 자격은 openDurationMs 후 만료됩니다.
+ *
+ * @returns 시도 종료 시 호출할 반납 함수, 시험 호출이 이미 진행 중이면 null
+ */
+export function acquireCircuitTrial(provider: string, modelId: string): (() => void) | null {
+  const entry = circuits.get(circuitKey(provider, modelId));
+  if (!entry) return () => {};
+
+  const now = Date.now();
+  refreshState(entry, now);
+  if (entry.state !== 'half_open') return () => {};
+
+  if (entry.trialStartedAt !== null && now - entry.trialStartedAt < config.openDurationMs) {
+    return null;
+  }
+  entry.trialStartedAt = now;
+  return () => {
+    if (entry.trialStartedAt === now) {
+      entry.trialStartedAt = null;
+    }
+  };
+}
+
+/**
+ * 모든 서킷의 상태 스냅샷을 반환합니다. (관리 화면용)
+ */
+export function getCircuitSnapshots(): CircuitSnapshot[] {
+  const now = Date.now();
+
+  return Array.from(circuits.values()).map((entry) => {
+    refreshState(entry, now);
+    const successes = entry.outcomes.filter(Boolean).length;
+
+    return {
+      provider: entry.provider,
+      modelId: entry.modelId,
+      state: entry.state,
+      consecutiveFailures: entry.consecutiveFailures,
+      healthScore: entry.outcomes.length > 0 ? successes / entry.outcomes.length : 1,
+      sampleSize: entry.outcomes.length,
+      openedAt: entry.openedAt !== null ? new Date(entry.openedAt) : null,
+      nextAttemptAt:
+        entry.state === 'open' && entry.openedAt !== null
+          ? new Date(entry.openedAt + config.openDurationMs)
+          : null,
+      lastFailureAt: entry.lastFailureAt !== null ? new Date(entry.lastFailureAt) : null,
+      lastFailureMessage: entry.lastFailureMessage,
+      lastSuccessAt: entry.lastSuccessAt !== null ? new Date(entry.lastSuccessAt) : null,
+    };
+  });
+}
+
+/**
+ * 서킷을 closed 상태로 초기화합니다.
+ *
+ * @param provider - 제공자 (없으면 전체 초기화)
+ * @param modelId - 모델 ID (없으면 해당 제공자의 모든 모델)
+ */
+export function resetCircuit(provider?: string, modelId?: string): void {
+  if (!provider) {
+    circuits.clear();
+    return;
+  }
+
+  for (const [key, entry] of circuits) {
+    if (entry.provider === provider && (!modelId || entry.modelId === modelId)) {
+      circuits.delete(key);
+    }
+  }
+}
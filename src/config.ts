@@ -2,6 +2,7 @@ import { db } from '@ais/db/client';
 import { encryptApiKey, decryptApiKey, maskApiKey } from './encryption.js';
 import { PROVIDER_CONFIGS, type ProviderName, type FeatureType } from './providers';
 import { providerTypeToName, type ProviderType } from './types';
+import { invalidateBudgetCache, type BudgetEnforcementMode } from './budget-enforcement';
 
 interface LLMConfigInput {
   provider: ProviderName;
@@ -275,6 +276,10 @@ interface BudgetInput {
   budgetUsd: number;
   alertAt80?: boolean;
   alertAt100?: boolean;
+  /** 예산 초과 시 조치 (기본: alert_only) */
+  enforcementMode?: BudgetEnforcementMode;
+  /** block_non_essential 모드에서 허용할 기능 (비어 있으면 기본 필수 기능) */
+  essentialFeatures?: FeatureType[];
 }
 
 export async function getBudgetConfig(period: BudgetPeriod) {
@@ -290,7 +295,14 @@ export async function getAllBudgetConfigs() {
 }
 
 export async function saveBudgetConfig(input: BudgetInput) {
-  const { period, budgetUsd, alertAt80 = true, alertAt100 = true } = input;
+  const {
+    period,
+    budgetUsd,
+    alertAt80 = true,
+    alertAt100 = true,
+    enforcementMode = 'alert_only',
+    essentialFeatures = [],
+  } = input;
 
   return db.lLMBudget.upsert({
     where: { period },
@@ -299,11 +311,93 @@ export async function saveBudgetConfig(input: BudgetInput) {
       budgetUsd,
       alertAt80,
       alertAt100,
+      enforcementMode,
+      essentialFeatures,
     },
     update: {
       budgetUsd,
       alertAt80,
       alertAt100,
+      enforcementMode,
+      essentialFeatures,
     },
   });
 }
+
+interface ScopedBudgetInput {
+  /** 수정할 범위 예산 ID (없으면 새로 생성) */
+  id?: string;
+  /** 특정 교사에게만 적용 */
+  teacherId?: string | null;
+  /** 특정 기능에만 적용 */
+  featureType?: FeatureType | null;
+  /** teacherId 없이 교사별로 따로 집계 (예: 교사당 월 500회) */
+  perTeacher?: boolean;
+  period: BudgetPeriod;
+  /** 비용 한도 (USD) */
+  budgetUsd?: number | null;
+  /** 성공 요청 수 한도 */
+  requestLimit?: number | null;
+  /** 한도 초과 시 조치 (기본: hard_block) */
+  enforcementMode?: BudgetEnforcementMode;
+  isEnabled?: boolean;
+}
+
+export async function getScopedBudgetConfigs(filter: { teacherId?: string; featureType?: FeatureType } = {}) {
+  return db.lLMScopedBudget.findMany({
+    where: {
+      ...(filter.teacherId && { teacherId: filter.teacherId }),
+      ...(filter.featureType && { featureType: filter.featureType }),
+    },
+    orderBy: [{ period: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+export async function saveScopedBudgetConfig(input: ScopedBudgetInput) {
+  const {
+    id,
+    teacherId = null,
+    featureType = null,
+    perTeacher = false,
+    period,
+    budgetUsd = null,
+    requestLimit = null,
+    enforcementMode = 'hard_block',
+    isEnabled = true,
+  } = input;
+
+  if (!teacherId && !featureType && !perTeacher) {
+    throw new Error('Scoped budget requires teacherId, featureType or perTeacher');
+  }
+  if (teacherId && perTeacher) {
+    throw new Error('Scoped budget cannot set both teacherId and perTeacher');
+  }
+  if ((!budgetUsd || budgetUsd <= 0) && (!requestLimit || requestLimit <= 0)) {
+    throw new Error('Scoped budget requires budgetUsd or requestLimit');
+  }
+
+  const data = {
+    teacherId,
+    featureType,
+    perTeacher,
+    period,
+    budgetUsd,
+    requestLimit,
+    enforcementMode,
+    isEnabled,
+  };
+
+  const saved = id
+    ? await db.lLMScopedBudget.update({ where: { id }, data })
+    : await db.lLMScopedBudget.create({ data });
+
+  invalidateBudgetCache();
+  return saved;
+}
+
+export async function deleteScopedBudgetConfig(id: string) {
+  await db.lLMScopedBudget.delete({
+    where: { id },
+  });
+  invalidateBudgetCache();
+}
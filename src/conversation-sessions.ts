@@ -0,0 +1,433 @@
+/**
+ * Conversation Sessions - 멀티턴 대화 세션
+ *
+ * general_chat 등 대화형 기능의 대화 기록을 DB(ConversationSession, ConversationMessage)에
+ * 교사(teacherId) 단위로 저장하고, 라우터가 세션 ID로 대화를 이어갈 수 있게 합니다.
+ *
+ * 대화 기록이 모델의 contextWindow를 넘으면 오래된 턴부터
+ * - drop: 제외하거나
+ * - summarize: 요약하여 세션에 저장한 뒤 시스템 프롬프트에 포함합니다.
+ */
+
+import { generateText, type LanguageModel, type LanguageModelUsage } from 'ai';
+import { db } from '@ais/db/client';
+import type { FeatureType } from './providers';
+import {
+  estimateMessageTokens,
+  estimatePromptTokens,
+  DEFAULT_OUTPUT_RESERVE_TOKENS,
+  type TokenizerFamily,
+} from './token-estimation';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+export type ConversationRole = 'user' | 'assistant';
+
+export type ConversationTrimStrategy = 'drop' | 'summarize';
+
+export interface ConversationMessage {
+  role: ConversationRole;
+  content: string;
+}
+
+/**
+ * 대화 세션 정보
+ */
+export interface ConversationSessionInfo {
+  id: string;
+  teacherId: string;
+  featureType: string;
+  title: string | null;
+  /** 요약된 이전 대화 (summarize 전략) */
+  summary: string | null;
+  /** summary에 포함된 앞쪽 메시지 수 */
+  summarizedCount: number;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 라우터 호출별 세션 옵션
+ */
+export interface ConversationOptions {
+  sessionId: string;
+  /** contextWindow 초과 시 처리 방식 (기본: summarize) */
+  trimStrategy?: ConversationTrimStrategy;
+}
+
+/**
+ * 모델에 전달할 대화 컨텍스트
+ */
+export interface PreparedConversation {
+  messages: ConversationMessage[];
+  system?: string;
+  /** 컨텍스트에서 제외되거나 요약된 메시지 수 */
+  trimmedCount: number;
+  /** 이번에 요약을 새로 만들었을 때의 토큰 사용량 */
+  summaryUsage?: LanguageModelUsage;
+}
+
+/**
+ * 세션이 없거나 다른 교사의 세션일 때 발생하는 에러
+ */
+export class ConversationNotFoundError extends Error {
+  public readonly sessionId: string;
+
+  constructor(sessionId: string) {
+    super(`Conversation session "${sessionId}" not found`);
+    this.name = 'ConversationNotFoundError';
+    this.sessionId = sessionId;
+
+    Object.setPrototypeOf(this, ConversationNotFoundError.prototype);
+  }
+
+  /**
+   * 사용자 친화적 에러 메시지
+   */
+  get userMessage(): string {
+    return '대화를 찾을 수 없습니다. 새 대화를 시작해주세요.';
+  }
+}
+
+// Prisma 모델은 마이그레이션 후 생성됨 - 임시 타입 정의
+type ConversationSessionRow = {
+  id: string;
+  teacherId: string;
+  featureType: string;
+  title: string | null;
+  summary: string | null;
+  summarizedCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  _count?: { messages: number };
+};
+
+type ConversationMessageRow = {
+  id: string;
+  sessionId: string;
+  role: string;
+  content: string;
+  createdAt: Date;
+};
+
+// =============================================================================
+// 상수
+// =============================================================================
+
+// contextWindow를 모르는 모델의 기본값
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// 토큰 추정 오차를 고려한 안전 여유 (contextWindow의 10%)
+const CONTEXT_SAFETY_RATIO = 0.1;
+
+// 요약 최대 길이
+const SUMMARY_MAX_OUTPUT_TOKENS = 512;
+
+const SUMMARY_SYSTEM_PROMPT =
+  '다음은 선생님과 AI 어시스턴트의 이전 대화입니다. ' +
+  '이후 대화를 이어가는 데 필요한 사실, 결정, 요청 사항을 빠짐없이 한국어로 간결하게 요약하세요.';
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+function toSessionInfo(row: ConversationSessionRow): ConversationSessionInfo {
+  return {
+    id: row.id,
+    teacherId: row.teacherId,
+    featureType: row.featureType,
+    title: row.title,
+    summary: row.summary,
+    summarizedCount: row.summarizedCount,
+    messageCount: row._count?.messages ?? 0,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function withSummary(system: string | undefined, summary: string | null): string | undefined {
+  if (!summary) return system;
+  const block = `[이전 대화 요약]\n${summary}`;
+  return system ? `${system}\n\n${block}` : block;
+}
+
+// 요약 호출이 두 번 일어난 경우(동시 요약 충돌 후 재구성) 사용량 합산
+function addUsage(usage: LanguageModelUsage, extra: LanguageModelUsage | undefined): LanguageModelUsage {
+  if (!extra) return usage;
+  return {
+    ...usage,
+    inputTokens: (usage.inputTokens ?? 0) + (extra.inputTokens ?? 0),
+    outputTokens: (usage.outputTokens ?? 0) + (extra.outputTokens ?? 0),
+    totalTokens: (usage.totalTokens ?? 0) + (extra.totalTokens ?? 0),
+  };
+}
+
+// =============================================================================
+// Public API - 세션 관리
+// =============================================================================
+
+/**
+ * 새 대화 세션을 만듭니다.
+ *
+ * @param input.teacherId - 세션 소유 교사
+ * @param input.featureType - 기능 (기본: general_chat)
+ * @param input.title - 세션 제목
+ */
+export async function createConversationSession(input: {
+  teacherId: string;
+  featureType?: FeatureType;
+  title?: string;
+}): Promise<ConversationSessionInfo> {
+  const row = (await db.conversationSession.create({
+    data: {
+      teacherId: input.teacherId,
+      featureType: input.featureType ?? 'general_chat',
+      title: input.title ?? null,
+      summarizedCount: 0,
+    },
+  })) as ConversationSessionRow;
+
+  return toSessionInfo(row);
+}
+
+/**
+ * 교사의 세션을 조회합니다.
+ *
+ * @throws ConversationNotFoundError 세션이 없거나 다른 교사의 세션인 경우
+ */
+export async function getConversationSession(
+  sessionId: string,
+  teacherId: string
+): Promise<ConversationSessionInfo> {
+  const row = (await db.conversationSession.findFirst({
+    where: { id: sessionId, teacherId },
+    include: { _count: { select: { messages: true } } },
+  })) as ConversationSessionRow | null;
+
+  if (!row) {
+    throw new ConversationNotFoundError(sessionId);
+  }
+  return toSessionInfo(row);
+}
+
+/**
+ * 교사의 세션 목록을 최근 대화 순으로 조회합니다.
+ */
+export async function listConversationSessions(
+  teacherId: string,
+  options: { featureType?: FeatureType; limit?: number } = {}
+): Promise<ConversationSessionInfo[]> {
+  const rows = (await db.conversationSession.findMany({
+    where: {
+      teacherId,
+      ...(options.featureType && { featureType: options.featureType }),
+    },
+    include: { _count: { select: { messages: true } } },
+    orderBy: { updatedAt: 'desc' },
+    take: options.limit ?? 20,
+  })) as ConversationSessionRow[];
+
+  return rows.map(toSessionInfo);
+}
+
+/**
+ * 세션의 메시지를 시간 순으로 조회합니다.
+ *
+ * @throws ConversationNotFoundError 세션이 없거나 다른 교사의 세션인 경우
+ */
+export async function getConversationMessages(
+  sessionId: string,
+  teacherId: string
+): Promise<ConversationMessage[]> {
+  await getConversationSession(sessionId, teacherId);
+
+  const rows = (await db.conversationMessage.findMany({
+    where: { sessionId },
+    orderBy: { createdAt: 'asc' },
+  })) as ConversationMessageRow[];
+
+  return rows.map((r) => ({ role: r.role as ConversationRole, content: r.content }));
+}
+
+/**
+ * 세션에 메시지를 추가합니다.
+ *
+ * @throws ConversationNotFoundError 세션이 없거나 다른 교사의 세션인 경우
+ */
+export async function appendConversationMessages(
+  sessionId: string,
+  teacherId: string,
+  messages: ConversationMessage[]
+): Promise<void> {
+  await getConversationSession(sessionId, teacherId);
+
+  // 같은 요청의 메시지가 순서대로 정렬되도록 생성 시각을 1ms씩 증가
+  const now = Date.now();
+  await db.$transaction([
+    ...messages.map((m, i) =>
+      db.conversationMessage.create({
+        data: {
+          sessionId,
+          role: m.role,
+          content: m.content,
+          createdAt: new Date(now + i),
+        },
+      })
+    ),
+    db.conversationSession.update({
+      where: { id: sessionId },
+      data: { updatedAt: new Date(now) },
+    }),
+  ]);
+}
+
+/**
+ * 세션과 메시지를 삭제합니다.
+ *
+ * @throws ConversationNotFoundError 세션이 없거나 다른 교사의 세션인 경우
+ */
+export async function deleteConversationSession(sessionId: string, teacherId: string): Promise<void> {
+  await getConversationSession(sessionId, teacherId);
+
+  await db.$transaction([
+    db.conversationMessage.deleteMany({ where: { sessionId } }),
+    db.conversationSession.delete({ where: { id: sessionId } }),
+  ]);
+}
+
+// =============================================================================
+// Public API - 컨텍스트 구성
+// =============================================================================
+
+/**
+ * 세션 기록과 새 사용자 메시지로 모델에 전달할 대화 컨텍스트를 만듭니다.
+ *
+ * 최신 메시지부터 contextWindow - 응답 토큰 - 시스템 프롬프트 - 안전 여유 안에 들어가는 만큼 포함합니다.
+ * 들어가지 못한 앞쪽 메시지는 drop이면 제외하고, summarize면 기존 요약과 합쳐
+ * 새 요약을 만들어 세션에 저장합니다. (요약 실패 시 drop으로 처리)
+ * 동시에 다른 요청이 먼저 요약을 저장했으면 덮어쓰지 않고 저장된 요약으로 다시 구성합니다.
+ *
+ * @param session - 대화 세션
+ * @param prompt - 새 사용자 메시지
+ * @param options.model - 요약에 사용할 모델 (이번 호출의 모델)
+ * @param options.contextWindow - 모델 contextWindow (null이면 기본값)
+ * @param options.tokenizerFamily - 토큰 추정에 사용할 토크나이저 계열 (기본: generic)
+ */
+export async function prepareConversation(
+  session: ConversationSessionInfo,
+  prompt: string,
+  options: {
+    model: LanguageModel;
+    contextWindow: number | null;
+    system?: string;
+    maxOutputTokens?: number;
+    trimStrategy?: ConversationTrimStrategy;
+    tokenizerFamily?: TokenizerFamily;
+    signal?: AbortSignal;
+  }
+): Promise<PreparedConversation> {
+  const { model, system, maxOutputTokens, trimStrategy = 'summarize', tokenizerFamily = 'generic', signal } = options;
+  const contextWindow = options.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+
+  const rows = (await db.conversationMessage.findMany({
+    where: { sessionId: session.id },
+    orderBy: { createdAt: 'asc' },
+  })) as ConversationMessageRow[];
+
+  // 이미 요약된 앞쪽 메시지는 요약으로 대체
+  const history = rows
+    .slice(session.summarizedCount)
+    .map((r) => ({ role: r.role as ConversationRole, content: r.content }));
+  const userMessage: ConversationMessage = { role: 'user', content: prompt };
+
+  let budget =
+    contextWindow -
+    (maxOutputTokens ?? DEFAULT_OUTPUT_RESERVE_TOKENS) -
+    Math.ceil(contextWindow * CONTEXT_SAFETY_RATIO) -
+    estimatePromptTokens({ system: withSummary(system, session.summary), prompt }, tokenizerFamily);
+
+  // 최신 메시지부터 예산 안에서 포함
+  let keepFrom = history.length;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = estimateMessageTokens(history[i], tokenizerFamily);
+    if (tokens > budget) break;
+    budget -= tokens;
+    keepFrom = i;
+  }
+
+  // 대화는 사용자 메시지로 시작해야 하므로 잘린 경계의 assistant 메시지도 제외
+  while (keepFrom < history.length && history[keepFrom].role === 'assistant') {
+    keepFrom++;
+  }
+
+  const kept = history.slice(keepFrom);
+  const overflow = history.slice(0, keepFrom);
+
+  if (overflow.length === 0) {
+    return {
+      messages: [...kept, userMessage],
+      system: withSummary(system, session.summary),
+      trimmedCount: session.summarizedCount,
+    };
+  }
+
+  if (trimStrategy === 'summarize') {
+    try {
+      const transcript = overflow
+        .map((m) => `${m.role === 'user' ? '선생님' : 'AI'}: ${m.content}`)
+        .join('\n');
+      const result = await generateText({
+        model,
+        system: SUMMARY_SYSTEM_PROMPT,
+        prompt: session.summary
+          ? `[기존 요약]\n${session.summary}\n\n[이어진 대화]\n${transcript}`
+          : transcript,
+        maxOutputTokens: SUMMARY_MAX_OUTPUT_TOKENS,
+        maxRetries: 0,
+        abortSignal: signal,
+      });
+
+      const summarizedCount = session.summarizedCount + overflow.length;
+      // 같은 세션을 동시에 요약한 요청이 있으면 덮어쓰지 않음 (summarizedCount로 낙관적 잠금)
+      const { count } = await db.conversationSession.updateMany({
+        where: { id: session.id, summarizedCount: session.summarizedCount },
+        data: { summary: result.text, summarizedCount },
+      });
+
+      if (count === 0) {
+        // 다른 요청이 먼저 요약을 저장함 — 저장된 요약으로 다시 구성 (이번 요약 호출 사용량도 함께 반환)
+        const latest = await getConversationSession(session.id, session.teacherId);
+        session.summary = latest.summary;
+        session.summarizedCount = latest.summarizedCount;
+        const prepared = await prepareConversation(session, prompt, options);
+        return { ...prepared, summaryUsage: addUsage(result.usage, prepared.summaryUsage) };
+      }
+
+      session.summary = result.text;
+      session.summarizedCount = summarizedCount;
+
+      return {
+        messages: [...kept, userMessage],
+        system: withSummary(system, result.text),
+        trimmedCount: summarizedCount,
+        summaryUsage: result.usage,
+      };
+    } catch (error) {
+      // 호출자 취소는 그대로 전파
+      if (signal?.aborted) throw error;
+      console.warn(
+        `[Conversation] Summarizing session ${session.id} failed, dropping ${overflow.length} older messages:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  return {
+    messages: [...kept, userMessage],
+    system: withSummary(system, session.summary),
+    trimmedCount: session.summarizedCount + overflow.length,
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Counseling Retrieval - 과거 상담 요약 의미 검색
+ *
+ * 과거 상담 요약을 청크로 나눠 임베딩 인덱스에 저장하고,
+ * 이번 상담 내용과 관련도가 높은 순으로 상담을 찾습니다.
+ * 결과는 buildCounselingSummaryPrompt의 previousSessions로 그대로 전달할 수 있습니다.
+ *
+ * - 저장소 교체 가능: MemoryCounselingVectorStore(기본, 의존성 없음)
+ * - 임베딩 교체 가능: embedWithProvider 라우팅(기본), createHashingEmbedder(로컬, 테스트용)
+ * - 서로 다른 임베딩 모델의 벡터는 비교하지 않음 (청크에 모델 ID 저장)
+ *   질의가 인덱스에 없는 모델로 임베딩되면(예: 폴백) 빈 결과 대신 CounselingEmbeddingMismatchError
+ */
+
+import { embedManyWithProvider } from './router-embedding';
+import { estimateTokens } from './token-estimation';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 인덱싱할 상담 기록
+ */
+export interface CounselingSessionRecord {
+  id: string;
+  studentId: string;
+  summary: string;
+  sessionDate: Date;
+  type: string;
+}
+
+/**
+ * 인덱스에 저장되는 청크
+ */
+export interface CounselingChunk {
+  /** `${sessionId}#${chunkIndex}` */
+  id: string;
+  vector: number[];
+  /** 벡터를 만든 임베딩 모델 */
+  model: string;
+  chunkIndex: number;
+  text: string;
+  session: CounselingSessionRecord;
+}
+
+/**
+ * 저장소 조회 결과
+ */
+export interface ScoredCounselingChunk {
+  chunk: CounselingChunk;
+  /** 코사인 유사도 (-1 ~ 1) */
+  score: number;
+}
+
+/**
+ * 상담 청크 벡터 저장소
+ */
+export interface CounselingVectorStore {
+  upsert(chunks: CounselingChunk[]): Promise<void>;
+  /** 상담 하나의 모든 청크 삭제 */
+  deleteSession(sessionId: string): Promise<void>;
+  /** 같은 모델로 만든 청크 중 유사도 상위 topK개 */
+  query(vector: number[], options: { model: string; topK: number; studentId?: string }): Promise<ScoredCounselingChunk[]>;
+  /** 저장된 청크의 임베딩 모델 목록 */
+  listModels(options: { studentId?: string }): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * 텍스트 목록을 임베딩하는 함수
+ * 반환하는 model은 같은 벡터 공간인지 판단하는 데 사용합니다.
+ */
+export type CounselingEmbedder = (values: string[]) => Promise<{ embeddings: number[][]; model: string }>;
+
+/**
+ * 검색된 상담 (관련도 순)
+ */
+export interface RelevantCounselingSession extends CounselingSessionRecord {
+  /** 가장 관련도가 높은 청크의 유사도 */
+  score: number;
+  /** 가장 관련도가 높은 청크 */
+  matchedText: string;
+}
+
+/**
+ * 검색 옵션
+ */
+export interface CounselingSearchOptions {
+  /** 특정 학생의 상담만 검색 */
+  studentId?: string;
+  /** 반환할 상담 수 (기본 5) */
+  topK?: number;
+  /** 이 유사도 미만은 제외 (기본 0) */
+  minScore?: number;
+  /** 제외할 상담 ID (예: 이번 상담) */
+  excludeSessionIds?: string[];
+}
+
+/**
+ * 질의 임베딩 모델로 만든 청크가 인덱스에 없을 때 발생하는 에러
+ * (임베딩 제공자 폴백 등으로 인덱싱 때와 다른 모델이 사용된 경우)
+ */
+export class CounselingEmbeddingMismatchError extends Error {
+  public readonly queryModel: string;
+  public readonly indexedModels: string[];
+
+  constructor(queryModel: string, indexedModels: string[]) {
+    super(`Query was embedded with ${queryModel}, but the counseling index only has ${indexedModels.join(', ')}`);
+    this.name = 'CounselingEmbeddingMismatchError';
+    this.queryModel = queryModel;
+    this.indexedModels = indexedModels;
+
+    Object.setPrototypeOf(this, CounselingEmbeddingMismatchError.prototype);
+  }
+
+  get userMessage(): string {
+    return '상담 기록 검색을 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+// =============================================================================
+// 저장소 구현
+// =============================================================================
+
+/**
+ * 프로세스 메모리 저장소
+ * 전체 청크와 코사인 유사도를 직접 비교합니다. (학생 단위 상담 수 규모에 적합)
+ */
+export class MemoryCounselingVectorStore implements CounselingVectorStore {
+  private chunks: Map<string, CounselingChunk> = new Map();
+
+  async upsert(chunks: CounselingChunk[]): Promise<void> {
+    for (const chunk of chunks) {
+      this.chunks.set(chunk.id, chunk);
+    }
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    for (const [id, chunk] of this.chunks) {
+      if (chunk.session.id === sessionId) {
+        this.chunks.delete(id);
+      }
+    }
+  }
+
+  async query(
+    vector: number[],
+    options: { model: string; topK: number; studentId?: string }
+  ): Promise<ScoredCounselingChunk[]> {
+    const scored: ScoredCounselingChunk[] = [];
+    for (const chunk of this.chunks.values()) {
+      if (chunk.model !== options.model) continue;
+      if (options.studentId && chunk.session.studentId !== options.studentId) continue;
+      scored.push({ chunk, score: cosineSimilarity(vector, chunk.vector) });
+    }
+
+    return scored.sort((a, b) => b.score - a.score).slice(0, options.topK);
+  }
+
+  async listModels(options: { studentId?: string }): Promise<string[]> {
+    const models = new Set<string>();
+    for (const chunk of this.chunks.values()) {
+      if (options.studentId && chunk.session.studentId !== options.studentId) continue;
+      models.add(chunk.model);
+    }
+    return [...models];
+  }
+
+  async clear(): Promise<void> {
+    this.chunks.clear();
+  }
+}
+
+// =============================================================================
+// 설정
+// =============================================================================
+
+// 청크 최대 크기 (추정 토큰)
+export const DEFAULT_CHUNK_MAX_TOKENS = 200;
+
+// 상담당 후보 청크 배수 (청크 단위로 조회한 뒤 상담 단위로 합침)
+const CHUNKS_PER_RESULT = 4;
+
+/**
+ * 'embedding' 기능 라우팅으로 임베딩합니다.
+ */
+const routedEmbedder: CounselingEmbedder = async (values) => {
+  const result = await embedManyWithProvider({ values });
+  return { embeddings: result.embeddings, model: `${result.provider}/${result.model}` };
+};
+
+let store: CounselingVectorStore = new MemoryCounselingVectorStore();
+let embedder: CounselingEmbedder = routedEmbedder;
+let chunkMaxTokens = DEFAULT_CHUNK_MAX_TOKENS;
+
+/**
+ * 검색 저장소, 임베딩 함수, 청크 크기를 설정합니다.
+ *
+ * @param options.store - 벡터 저장소
+ * @param options.embedder - 임베딩 함수 (예: 테스트용 createHashingEmbedder())
+ * @param options.chunkMaxTokens - 청크 최대 크기 (추정 토큰)
+ */
+export function configureCounselingRetrieval(options: {
+  store?: CounselingVectorStore;
+  embedder?: CounselingEmbedder;
+  chunkMaxTokens?: number;
+}): void {
+  if (options.store) store = options.store;
+  if (options.embedder) embedder = options.embedder;
+  if (options.chunkMaxTokens !== undefined) chunkMaxTokens = options.chunkMaxTokens;
+}
+
+/**
+ * 현재 벡터 저장소를 반환합니다.
+ */
+export function getCounselingVectorStore(): CounselingVectorStore {
+  return store;
+}
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// FNV-1a 32비트 해시
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 텍스트를 문장 경계 기준으로 maxTokens 이하 청크로 나눕니다.
+ * 한 문장이 maxTokens를 넘으면 글자 수 기준으로 자릅니다.
+ */
+export function chunkText(text: string, maxTokens: number = DEFAULT_CHUNK_MAX_TOKENS): string[] {
+  const sentences = text
+    .split(/(?<=[.!?。])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    const candidate = current ? `${current} ${sentence}` : sentence;
+    if (estimateTokens(candidate) <= maxTokens) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) chunks.push(current);
+
+    if (estimateTokens(sentence) <= maxTokens) {
+      current = sentence;
+      continue;
+    }
+
+    // 긴 문장: 글자 수 비율로 자름
+    const charsPerPiece = Math.max(1, Math.floor((sentence.length * maxTokens) / estimateTokens(sentence)));
+    for (let i = 0; i < sentence.length; i += charsPerPiece) {
+      chunks.push(sentence.slice(i, i + charsPerPiece));
+    }
+    current = '';
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * 외부 API 없이 동작하는 해싱 임베딩 함수를 만듭니다.
+ * 단어와 글자 2-gram(한국어 조사 변화 대응)을 고정 차원으로 해싱합니다.
+ * 의미 유사도가 아닌 어휘 겹침 기반이므로 테스트나 오프라인 환경용입니다.
+ *
+ * @param dimensions - 벡터 차원 (기본 512)
+ */
+export function createHashingEmbedder(dimensions: number = 512): CounselingEmbedder {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const word of words) {
+      const features = [word];
+      for (let i = 0; i < word.length - 1; i++) {
+        features.push(`#${word.slice(i, i + 2)}`);
+      }
+      for (const feature of features) {
+        const hash = hashFeature(feature);
+        vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+      }
+    }
+
+    return vector;
+  };
+
+  return async (values) => ({
+    embeddings: values.map(embedOne),
+    model: `local/hashing-${dimensions}`,
+  });
+}
+
+/**
+ * 상담 요약을 청크로 나눠 인덱싱합니다.
+ * 이미 인덱싱된 상담은 기존 청크를 지우고 다시 인덱싱합니다.
+ *
+ * @returns 저장된 청크 수
+ */
+export async function indexCounselingSessions(sessions: CounselingSessionRecord[]): Promise<number> {
+  const pending = sessions.flatMap((session) =>
+    chunkText(session.summary, chunkMaxTokens).map((text, chunkIndex) => ({ session, text, chunkIndex }))
+  );
+  if (pending.length === 0) return 0;
+
+  const { embeddings, model } = await embedder(pending.map((p) => p.text));
+
+  for (const session of sessions) {
+    await store.deleteSession(session.id);
+  }
+  await store.upsert(
+    pending.map((p, i) => ({
+      id: `${p.session.id}#${p.chunkIndex}`,
+      vector: embeddings[i],
+      model,
+      chunkIndex: p.chunkIndex,
+      text: p.text,
+      session: p.session,
+    }))
+  );
+
+  return pending.length;
+}
+
+/**
+ * 인덱스에서 상담을 삭제합니다.
+ */
+export async function removeCounselingSession(sessionId: string): Promise<void> {
+  await store.deleteSession(sessionId);
+}
+
+/**
+ * 질의 텍스트(예: 이번 상담 내용)와 관련도가 높은 과거 상담을 찾습니다.
+ * 상담의 점수는 청크 점수 중 최댓값입니다.
+ *
+ * @param query - 질의 텍스트
+ * @param options - 학생 필터, 반환 수, 최소 유사도, 제외 상담
+ * @returns 관련도 내림차순 상담 목록
+ * @throws CounselingEmbeddingMismatchError 질의 임베딩 모델로 만든 청크가 없고 다른 모델의 청크만 있을 때
+ */
+export async function searchCounselingSessions(
+  query: string,
+  options: CounselingSearchOptions = {}
+): Promise<RelevantCounselingSession[]> {
+  const { studentId, topK = 5, minScore = 0, excludeSessionIds = [] } = options;
+
+  const { embeddings, model } = await embedder([query]);
+  const matches = await store.query(embeddings[0], {
+    model,
+    studentId,
+    topK: (topK + excludeSessionIds.length) * CHUNKS_PER_RESULT,
+  });
+
+  if (matches.length === 0) {
+    // 인덱싱 때와 다른 모델로 임베딩되면 비교할 청크가 없음 — 결과 없음과 구분
+    const indexedModels = await store.listModels({ studentId });
+    if (indexedModels.length > 0 && !indexedModels.includes(model)) {
+      throw new CounselingEmbeddingMismatchError(model, indexedModels);
+    }
+  }
+
+  const excluded = new Set(excludeSessionIds);
+  const bySession = new Map<string, RelevantCounselingSession>();
+
+  for (const { chunk, score } of matches) {
+    if (score < minScore || excluded.has(chunk.session.id)) continue;
+    // matches는 점수 내림차순이므로 처음 나온 청크가 상담의 최고 점수
+    if (bySession.has(chunk.session.id)) continue;
+    bySession.set(chunk.session.id, { ...chunk.session, score, matchedText: chunk.text });
+  }
+
+  return [...bySession.values()].slice(0, topK);
+}
@@ -0,0 +1,621 @@
+/**
+ * Ensemble - 여러 모델 응답을 결합하는 합의 생성
+ *
+ * 학부모에게 전달되는 보고서(report_generate)나 궁합 분석(compatibility_analysis)처럼
+ * 한 모델의 환각이 큰 비용으로 이어지는 기능을 위한 API입니다.
+ * 같은 요청을 해석된 후보 N개에 동시에 보내고 응답을 하나로 결합합니다.
+ *
+ * - judge: 검토 모델이 구성원 응답을 비교해 하나의 답변으로 통합
+ * - score_aggregate: JSON 응답의 숫자 필드를 필드별로 결합(중앙값/평균)하고 구성원 간 편차를 보고
+ *
+ * 구성원은 각자 후보 하나로 실행되며 (재시도, 호출 한도, 응답 검사, 사용량 추적은 라우터와 동일),
+ * 실패한 구성원은 남은 후보로 대체합니다.
+ */
+
+import { generateText, type LanguageModelUsage } from 'ai';
+import { trackUsage, calculateCost } from './usage-tracker';
+import { runProviderChain, type ProviderCandidate } from './router-chain';
+import { generateWithProvider } from './universal-router';
+import { parseJsonResponse } from './router-object';
+import { inspectResponse, ResponseQualityError, type ResponseGuardPolicy } from './response-guard';
+import { FailoverError, type ProviderError } from './failover';
+import { RequestAbortedError, type CancellationOptions } from './cancellation';
+import { estimateForModel, type PromptTokenInput } from './token-estimation';
+import type { ProviderGateOptions } from './provider-gate';
+import type { RetryOptions } from './retry-policy';
+import type { RoutingOptions } from './performance-routing';
+import { createLanguageModel, buildProviderOrder } from './router-utils';
+import type { ProviderName, FeatureType } from './providers/types';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 응답 결합 방식
+ */
+export type EnsembleStrategy = 'judge' | 'score_aggregate';
+
+/**
+ * 검토 모델 호출 설정 (strategy: 'judge')
+ */
+export interface JudgeOptions {
+  /** 검토 호출의 기능 타입 (기본: 앙상블 기능 타입) — 별도 매핑으로 검토 모델을 지정할 때 사용 */
+  featureType?: string;
+  /** 검토 모델 제공자 직접 지정 */
+  providerId?: string;
+  /** 검토 지시문 (기본: DEFAULT_JUDGE_SYSTEM_PROMPT) */
+  system?: string;
+  /** 검토 응답 최대 토큰 (기본: 앙상블 maxOutputTokens) */
+  maxOutputTokens?: number;
+}
+
+/**
+ * 필드별 점수 결합 설정 (strategy: 'score_aggregate')
+ */
+export interface ScoreAggregationOptions {
+  /** 숫자 필드 결합 방식 (기본 median — 한 모델의 극단값에 덜 흔들림) */
+  method?: 'median' | 'mean';
+  /**
+   * 배열 항목을 구성원 간에 맞출 식별 필드 (배열 경로 → 필드 이름)
+   * 예: { recommendations: 'teacherId' } — 지정하지 않은 배열은 구성원 다수 값을 그대로 사용
+   */
+  matchBy?: Record<string, string>;
+  /** 결합 후 보정 (예: 합계 재계산, 정렬) */
+  finalize?: (merged: unknown) => unknown;
+}
+
+/**
+ * 앙상블 생성 옵션
+ */
+export interface EnsembleOptions extends CancellationOptions, ProviderGateOptions, RetryOptions {
+  prompt: string;
+  featureType: string;
+  teacherId?: string;
+  system?: string;
+  maxOutputTokens?: number;
+  temperature?: number;
+  /** 자동 라우팅 전략 (기본: FeatureResolver 우선순위) */
+  routing?: RoutingOptions;
+  strategy: EnsembleStrategy;
+  /** 동시에 실행할 구성원 수 (기본 3) */
+  members?: number;
+  /** 결합에 필요한 최소 성공 구성원 수 (기본 2) */
+  minMembers?: number;
+  judge?: JudgeOptions;
+  aggregation?: ScoreAggregationOptions;
+  /** 구성원 응답 검사 정책 (score_aggregate는 항상 JSON 응답을 요구) */
+  responseGuard?: ResponseGuardPolicy;
+}
+
+/**
+ * 구성원 1개의 응답
+ */
+export interface EnsembleMember {
+  provider: string;
+  model: string;
+  text: string;
+  usage: LanguageModelUsage;
+  costUsd: number;
+  responseTimeMs: number;
+  /** score_aggregate: 파싱된 JSON 응답 */
+  parsed?: unknown;
+}
+
+/**
+ * 숫자 필드 하나의 구성원 간 편차
+ */
+export interface FieldDisagreement {
+  /** 필드 경로 (예: recommendations[teacherId=t1].breakdown.saju) */
+  path: string;
+  /** 구성원별 값 (응답 순서) */
+  values: number[];
+  merged: number;
+  /** 최댓값 - 최솟값 */
+  range: number;
+  /** 표준편차 */
+  stdDev: number;
+}
+
+/**
+ * 필드별 점수 결합 결과
+ */
+export interface ScoreAggregation {
+  merged: unknown;
+  /** 숫자 필드별 편차 (range가 큰 순) */
+  disagreements: FieldDisagreement[];
+  /** 가장 큰 range (0이면 모든 구성원 일치) */
+  maxRange: number;
+  /** 필드별 표준편차 평균 */
+  meanStdDev: number;
+  /** 일부 구성원 응답에만 있는 필드/항목 경로 */
+  partialPaths: string[];
+}
+
+/**
+ * 앙상블 생성 결과
+ */
+export interface EnsembleResult {
+  /** 결합된 최종 응답 (score_aggregate는 결합된 JSON 문자열) */
+  text: string;
+  strategy: EnsembleStrategy;
+  /** 성공한 구성원 응답 (응답 순서) */
+  members: EnsembleMember[];
+  /** 실패/거부된 구성원 시도 */
+  failures: ProviderError[];
+  /** 검토 호출 (strategy: 'judge') */
+  judge?: { provider: string; model: string; usage: LanguageModelUsage; costUsd: number };
+  /** 필드별 결합 결과와 편차 (strategy: 'score_aggregate') */
+  aggregation?: ScoreAggregation;
+  /** 구성원 + 검토 호출 비용 합계 (USD) */
+  totalCostUsd: number;
+  /** 구성원 후보 순서를 정한 성능 기반 라우팅의 순위 설명 */
+  routingReason?: string;
+}
+
+/**
+ * 성공한 구성원이 minMembers보다 적을 때 발생하는 에러
+ */
+export class EnsembleQuorumError extends Error {
+  public readonly featureType: string;
+  public readonly members: EnsembleMember[];
+  public readonly failures: ProviderError[];
+
+  constructor(featureType: string, required: number, members: EnsembleMember[], failures: ProviderError[]) {
+    super(
+      `Ensemble for feature "${featureType}" needs ${required} members but only ${members.length} succeeded` +
+        (failures.length > 0
+          ? `. Errors: ${failures.map((f) => `${f.provider}/${f.modelId ?? '?'}: ${f.error.message}`).join('; ')}`
+          : '')
+    );
+    this.name = 'EnsembleQuorumError';
+    this.featureType = featureType;
+    this.members = members;
+    this.failures = failures;
+
+    Object.setPrototypeOf(this, EnsembleQuorumError.prototype);
+  }
+
+  /**
+   * 사용자 친화적 에러 메시지
+   */
+  get userMessage(): string {
+    return 'AI 분석 결과를 교차 검증하지 못했습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+// =============================================================================
+// 기본 설정
+// =============================================================================
+
+export const DEFAULT_ENSEMBLE_MEMBERS = 3;
+export const DEFAULT_ENSEMBLE_MIN_MEMBERS = 2;
+
+export const DEFAULT_JUDGE_SYSTEM_PROMPT = `당신은 여러 AI 모델이 같은 요청에 작성한 답변을 검토해 하나의 최종 답변으로 통합하는 검토자입니다.
+- 여러 답변이 공통으로 제시한 내용을 우선합니다.
+- 한 답변에만 있고 다른 답변과 어긋나는 사실, 수치, 단정은 제외합니다.
+- 답변에 없는 새로운 사실을 추가하지 않습니다.
+- 원래 요청이 지정한 출력 형식과 어조를 그대로 따릅니다.
+- 검토 과정이나 답변 비교 설명 없이 최종 답변만 출력합니다.`;
+
+/**
+ * 궁합 분석(COMPATIBILITY_SYSTEM_PROMPT 형식) 결합 설정
+ * 선생님별로 항목을 맞추고, 필드별 중앙값의 합은 overall 중앙값과 다르므로
+ * breakdown 합계로 overall을 다시 계산한 뒤 점수순으로 정렬합니다.
+ */
+export const COMPATIBILITY_SCORE_AGGREGATION: ScoreAggregationOptions = {
+  method: 'median',
+  matchBy: { recommendations: 'teacherId' },
+  finalize: (merged) => {
+    const result = merged as {
+      recommendations?: Array<{ overall?: number; breakdown?: Record<string, unknown> }>;
+    } | null;
+    if (!Array.isArray(result?.recommendations)) return merged;
+
+    for (const recommendation of result.recommendations) {
+      if (recommendation.breakdown) {
+        recommendation.overall = roundScore(
+          Object.values(recommendation.breakdown).reduce<number>(
+            (sum, value) => sum + (typeof value === 'number' ? value : 0),
+            0
+          )
+        );
+      }
+    }
+    result.recommendations.sort((a, b) => (b.overall ?? 0) - (a.overall ?? 0));
+    return result;
+  },
+};
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 가장 많은 구성원이 낸 값 (동률이면 먼저 응답한 구성원의 값)
+ */
+function mostCommon(values: unknown[]): unknown {
+  const counts = new Map<string, { value: unknown; count: number }>();
+  for (const value of values) {
+    const key = JSON.stringify(value);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { value, count: 1 });
+    }
+  }
+  let best: { value: unknown; count: number } | undefined;
+  for (const entry of counts.values()) {
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best?.value;
+}
+
+/**
+ * 검토 모델에 보낼 프롬프트를 구성합니다. (원래 요청 + 구성원 답변)
+ */
+function buildJudgePrompt(options: EnsembleOptions, members: EnsembleMember[]): string {
+  const request = options.system
+    ? `### 시스템 지시문\n${options.system}\n\n### 요청\n${options.prompt}`
+    : options.prompt;
+  const answers = members.map((member, i) => `## 답변 ${i + 1}\n${member.text}`).join('\n\n');
+
+  return `# 원래 요청\n${request}\n\n# 구성원 답변 (${members.length}개)\n\n${answers}\n\n위 답변들을 검토해 최종 답변을 작성하세요.`;
+}
+
+/**
+ * 구성원 1개를 후보 하나로 실행합니다.
+ *
+ * 앙상블은 요청 수 한도에 1건으로 셉니다. judge 방식은 검토 호출이, score_aggregate 방식은
+ * 처음 성공한 구성원 호출이 그 1건이며 나머지 구성원 호출은 세지 않습니다. (request.counted)
+ */
+async function runMember(
+  candidate: ProviderCandidate,
+  options: EnsembleOptions,
+  tokenInput: PromptTokenInput,
+  request: { counted: boolean },
+  startedAt: number,
+  slotSignal: AbortSignal
+): Promise<EnsembleMember> {
+  const { featureType, teacherId, prompt, system, maxOutputTokens = 2048, temperature, strategy } = options;
+  // 점수 결합은 JSON 응답이 필요하므로 JSON이 없는 응답은 걸러냄
+  // (코드 펜스나 앞뒤 설명문이 붙은 JSON은 parseJsonResponse와 같은 규칙으로 통과)
+  const guard: ResponseGuardPolicy | undefined =
+    strategy === 'score_aggregate' ? { ...options.responseGuard, expectJson: true } : options.responseGuard;
+
+  return runProviderChain(
+    [candidate],
+    {
+      ...options,
+      // 다른 슬롯이 실패하면 이 구성원도 취소
+      signal: options.signal ? AbortSignal.any([options.signal, slotSignal]) : slotSignal,
+      // 대체 구성원도 앙상블 전체 기한을 공유
+      totalDeadlineMs: options.totalDeadlineMs === undefined
+        ? undefined
+        : Math.max(1, options.totalDeadlineMs - (Date.now() - startedAt)),
+      estimateTokens: ({ provider, model }) =>
+        estimateForModel(tokenInput, maxOutputTokens, provider, model).totalTokens,
+    },
+    async ({ provider, model, keyId, retryAttempt, signal, startTime }) => {
+      const result = await generateText({
+        model: createLanguageModel(provider, model),
+        prompt,
+        system,
+        maxOutputTokens,
+        temperature,
+        maxRetries: 0,
+        abortSignal: signal,
+      });
+
+      const issue = inspectResponse(featureType, { text: result.text, finishReason: result.finishReason }, guard);
+      const responseTimeMs = Date.now() - startTime;
+
+      let parsed: unknown;
+      let parseFailed = false;
+      if (strategy === 'score_aggregate' && (!issue || issue.action === 'pass')) {
+        try {
+          parsed = parseJsonResponse(result.text);
+        } catch {
+          parseFailed = true;
+        }
+      }
+
+      const countsAsRequest =
+        strategy === 'score_aggregate' && !request.counted && (!issue || issue.action === 'pass') && !parseFailed;
+      if (countsAsRequest) {
+        request.counted = true;
+      }
+
+      await trackUsage({
+        provider: provider.providerType as ProviderName,
+        modelId: model.modelId,
+        featureType: featureType as FeatureType,
+        teacherId,
+        inputTokens: result.usage?.inputTokens || 0,
+        cachedInputTokens: result.usage?.inputTokenDetails?.cacheReadTokens,
+        outputTokens: result.usage?.outputTokens || 0,
+        responseTimeMs,
+        success: true,
+        keyId,
+        retryAttempt,
+        qualityIssue: issue?.kind,
+        countsAsRequest,
+      });
+
+      if (issue && issue.action !== 'pass') {
+        throw new ResponseQualityError(issue.kind, issue.action, model.modelId, result.text);
+      }
+      if (parseFailed) {
+        throw new ResponseQualityError('invalid_json', 'failover', model.modelId, result.text);
+      }
+
+      return {
+        provider: provider.providerType,
+        model: model.modelId,
+        text: result.text,
+        usage: result.usage,
+        costUsd: calculateCost(
+          provider.providerType as ProviderName,
+          result.usage?.inputTokens || 0,
+          result.usage?.outputTokens || 0,
+          model.modelId,
+          result.usage?.inputTokenDetails?.cacheReadTokens
+        ),
+        responseTimeMs,
+        parsed,
+      };
+    }
+  );
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 후보 순서대로 구성원을 동시에 실행합니다. (구성원 수만큼 슬롯)
+ * 슬롯의 구성원이 실패(FailoverError)하면 아직 쓰지 않은 다음 후보로 대체하고,
+ * 그 외 에러(취소, 전체 기한 초과 등)는 다른 슬롯의 구성원을 취소한 뒤 그대로 발생시킵니다.
+ *
+ * @param run - 후보 하나로 구성원 1개 실행 (signal은 다른 슬롯이 실패하면 취소됨)
+ * @returns 성공한 구성원(응답 순서)과 실패한 시도 기록
+ * @throws EnsembleQuorumError 성공한 구성원이 minMembers보다 적을 때
+ */
+export async function runEnsembleMembers<T extends ProviderCandidate>(
+  featureType: string,
+  candidates: T[],
+  counts: { members: number; minMembers: number },
+  run: (candidate: T, signal: AbortSignal) => Promise<EnsembleMember>
+): Promise<{ members: EnsembleMember[]; failures: ProviderError[] }> {
+  const members: EnsembleMember[] = [];
+  const failures: ProviderError[] = [];
+  const controller = new AbortController();
+  let nextCandidate = 0;
+  const runSlot = async () => {
+    while (nextCandidate < candidates.length && !controller.signal.aborted) {
+      const candidate = candidates[nextCandidate++];
+      try {
+        members.push(await run(candidate, controller.signal));
+        return;
+      } catch (error) {
+        if (!(error instanceof FailoverError)) {
+          controller.abort(error);
+          throw error;
+        }
+        failures.push(...error.errors);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(counts.members, candidates.length) }, runSlot));
+
+  if (members.length < counts.minMembers) {
+    throw new EnsembleQuorumError(featureType, counts.minMembers, members, failures);
+  }
+  return { members, failures };
+}
+
+/**
+ * 구성원 JSON 응답을 필드별로 결합하고 구성원 간 편차를 계산합니다.
+ * - 숫자: 중앙값(또는 평균), 소수점 둘째 자리로 반올림
+ * - 객체: 키별로 재귀 결합
+ * - matchBy로 지정한 배열: 식별 필드로 항목을 맞춘 뒤 항목별 결합 (처음 등장한 순서 유지)
+ * - 그 외 (문자열, 근거 배열 등): 가장 많은 구성원이 낸 값, 동률이면 먼저 응답한 구성원의 값
+ *
+ * @param outputs - 구성원별 파싱된 JSON (응답 순서)
+ * @param options - 결합 방식, 배열 식별 필드, 결합 후 보정
+ */
+export function aggregateScores(outputs: unknown[], options: ScoreAggregationOptions = {}): ScoreAggregation {
+  const { method = 'median', matchBy = {}, finalize } = options;
+  const disagreements: FieldDisagreement[] = [];
+  const partialPaths: string[] = [];
+
+  const combine = (values: unknown[], path: string): unknown => {
+    const present = values.filter((value) => value !== undefined && value !== null);
+    if (present.length === 0) return undefined;
+    if (present.length < values.length) partialPaths.push(path || '(root)');
+
+    if (present.every((value) => typeof value === 'number')) {
+      const numbers = present as number[];
+      const sorted = [...numbers].sort((a, b) => a - b);
+      const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+      const middle = Math.floor(sorted.length / 2);
+      const median = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+      const merged = roundScore(method === 'mean' ? mean : median);
+
+      if (numbers.length > 1) {
+        disagreements.push({
+          path,
+          values: numbers,
+          merged,
+          range: roundScore(sorted[sorted.length - 1] - sorted[0]),
+          stdDev: roundScore(Math.sqrt(numbers.reduce((sum, value) => sum + (value - mean) ** 2, 0) / numbers.length)),
+        });
+      }
+      return merged;
+    }
+
+    const matchKey = matchBy[path.replace(/\[[^\]]*\]/g, '')];
+    if (matchKey && present.every(Array.isArray)) {
+      const idOf = (item: unknown) => (isPlainObject(item) ? item[matchKey] : undefined);
+      const ids: unknown[] = [];
+      for (const items of present as unknown[][]) {
+        for (const item of items) {
+          const id = idOf(item);
+          if (id !== undefined && !ids.includes(id)) ids.push(id);
+        }
+      }
+      return ids.map((id) =>
+        combine(
+          values.map((items) => (Array.isArray(items) ? items.find((item) => idOf(item) === id) : undefined)),
+          `${path}[${matchKey}=${String(id)}]`
+        )
+      );
+    }
+
+    if (present.every(isPlainObject)) {
+      const keys = [...new Set((present as Record<string, unknown>[]).flatMap((value) => Object.keys(value)))];
+      return Object.fromEntries(
+        keys.map((key) => [
+          key,
+          combine(
+            values.map((value) => (isPlainObject(value) ? value[key] : undefined)),
+            path ? `${path}.${key}` : key
+          ),
+        ])
+      );
+    }
+
+    return mostCommon(present);
+  };
+
+  const combined = combine(outputs, '');
+  disagreements.sort((a, b) => b.range - a.range);
+
+  return {
+    merged: finalize ? finalize(combined) : combined,
+    disagreements,
+    maxRange: disagreements[0]?.range ?? 0,
+    meanStdDev: disagreements.length > 0
+      ? roundScore(disagreements.reduce((sum, d) => sum + d.stdDev, 0) / disagreements.length)
+      : 0,
+    partialPaths,
+  };
+}
+
+/**
+ * 같은 요청을 후보 N개에 동시에 보내고 응답을 결합합니다.
+ * 구성원이 실패하면 남은 후보로 대체하고, 성공한 구성원이 minMembers 이상이면 결합합니다.
+ *
+ * @example
+ * ```ts
+ * const { text, aggregation, totalCostUsd } = await generateEnsemble({
+ *   featureType: 'compatibility_analysis',
+ *   system: COMPATIBILITY_SYSTEM_PROMPT,
+ *   prompt: buildCompatibilityPrompt(student, teachers),
+ *   strategy: 'score_aggregate',
+ *   aggregation: COMPATIBILITY_SCORE_AGGREGATION,
+ * });
+ * if (aggregation.maxRange > 15) flagForReview(aggregation.disagreements);
+ * ```
+ *
+ * @throws EnsembleQuorumError 성공한 구성원이 minMembers보다 적을 때
+ * @throws RequestAbortedError 호출자 취소 또는 전체 기한 초과 시
+ */
+export async function generateEnsemble(options: EnsembleOptions): Promise<EnsembleResult> {
+  const {
+    featureType,
+    teacherId,
+    system,
+    prompt,
+    maxOutputTokens = 2048,
+    strategy,
+    members: memberCount = DEFAULT_ENSEMBLE_MEMBERS,
+  } = options;
+  const minMembers = Math.min(options.minMembers ?? DEFAULT_ENSEMBLE_MIN_MEMBERS, memberCount);
+  const startedAt = Date.now();
+
+  const tokenInput: PromptTokenInput = { system, prompt };
+  const { candidates, routingReason } = await buildProviderOrder(featureType, {
+    teacherId,
+    routing: options.routing,
+    tokenInput,
+    maxOutputTokens,
+  });
+
+  // 구성원마다 후보 하나씩 — 실패하면 아직 쓰지 않은 후보로 대체
+  const request = { counted: false };
+  const { members, failures } = await runEnsembleMembers(
+    featureType,
+    candidates,
+    { members: memberCount, minMembers },
+    (candidate, signal) => runMember(candidate, options, tokenInput, request, startedAt, signal)
+  );
+
+  const memberCostUsd = members.reduce((sum, member) => sum + member.costUsd, 0);
+
+  if (strategy === 'score_aggregate') {
+    const aggregation = aggregateScores(
+      members.map((member) => member.parsed),
+      options.aggregation
+    );
+    return {
+      text: JSON.stringify(aggregation.merged),
+      strategy,
+      members,
+      failures,
+      aggregation,
+      totalCostUsd: memberCostUsd,
+      routingReason,
+    };
+  }
+
+  // 검토 모델이 구성원 응답을 하나로 통합 (전체 기한은 구성원 실행 시간을 뺀 나머지)
+  const judge = options.judge ?? {};
+  if (options.totalDeadlineMs !== undefined && Date.now() - startedAt >= options.totalDeadlineMs) {
+    throw new RequestAbortedError('deadline', featureType, Date.now() - startedAt);
+  }
+  const judged = await generateWithProvider({
+    featureType: judge.featureType ?? featureType,
+    providerId: judge.providerId,
+    teacherId,
+    system: judge.system ?? DEFAULT_JUDGE_SYSTEM_PROMPT,
+    prompt: buildJudgePrompt(options, members),
+    maxOutputTokens: judge.maxOutputTokens ?? maxOutputTokens,
+    temperature: 0,
+    signal: options.signal,
+    timeoutMs: options.timeoutMs,
+    totalDeadlineMs: options.totalDeadlineMs === undefined
+      ? undefined
+      : options.totalDeadlineMs - (Date.now() - startedAt),
+    gate: options.gate,
+    responseGuard: options.responseGuard,
+  });
+  const judgeCostUsd = judged.cached
+    ? 0
+    : calculateCost(
+        judged.provider as ProviderName,
+        judged.usage.inputTokens ?? 0,
+        judged.usage.outputTokens ?? 0,
+        judged.model,
+        judged.usage.inputTokenDetails?.cacheReadTokens
+      );
+
+  return {
+    text: judged.text,
+    strategy,
+    members,
+    failures,
+    judge: { provider: judged.provider, model: judged.model, usage: judged.usage, costUsd: judgeCostUsd },
+    totalCostUsd: memberCostUsd + judgeCostUsd,
+    routingReason,
+  };
+}
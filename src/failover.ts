@@ -7,123 +7,23 @@
 
 import type { ProviderName, FeatureType } from './providers';
 import { trackFailure } from './usage-tracker';
-
-/**
- * 제공자 오류 세부 정보
- */
-export interface ProviderError {
-  provider: ProviderName;
-  error: Error;
-  timestamp: Date;
-  durationMs: number;
-}
-
-/**
- * Failover 컨텍스트 - 폴백 체인에서 사용되는 메타데이터
- */
-export interface FailoverContext {
-  featureType: FeatureType;
-  teacherId?: string;
-  attempt: number;
-  previousProvider?: ProviderName;
-  errors: ProviderError[];
-}
-
-/**
- * Failover 결과 - 성공 시 반환되는 데이터
- */
-export interface FailoverResult<T> {
-  data: T;
-  provider: ProviderName;
-  wasFailover: boolean;
-  failoverFrom?: ProviderName;
-  totalAttempts: number;
-  totalDurationMs: number;
-}
-
-/**
- * 모든 제공자가 실패했을 때 발생하는 에러
- */
-export class FailoverError extends Error {
-  public readonly errors: ProviderError[];
-  public readonly featureType: FeatureType;
-  public readonly totalAttempts: number;
-
-  constructor(
-    featureType: FeatureType,
-    errors: ProviderError[],
-    message?: string
-  ) {
-    const defaultMessage = `All ${errors.length} providers failed for feature "${featureType}". ` +
-      `Errors: ${errors.map(e => `${e.provider}: ${e.error.message}`).join('; ')}`;
-
-    super(message || defaultMessage);
-    this.name = 'FailoverError';
-    this.featureType = featureType;
-    this.errors = errors;
-    this.totalAttempts = errors.length;
-
-    // Error prototype chain fix for instanceof checks
-    Object.setPrototypeOf(this, FailoverError.prototype);
-  }
-
-  /**
-   * 마지막 에러를 반환
-   */
-  get lastError(): ProviderError | undefined {
-    return this.errors[this.errors.length - 1];
-  }
-
-  /**
-   * 사용자 친화적 에러 메시지
-   */
-  get userMessage(): string {
-    return 'AI 서비스에 연결할 수 없습니다. 잠시 후 다시 시도해주세요.';
-  }
-}
-
-/**
- * 재시도 가능한 에러인지 판단
- * - 429 (Rate Limit), 503 (Service Unavailable), 네트워크 오류는 재시도 가능
- * - 400 (Bad Request), 401 (Unauthorized)은 재시도 불가
- */
-export function isRetryableError(error: Error): boolean {
-  const message = error.message.toLowerCase();
-
-  // Rate limit
-  if (message.includes('rate limit') || message.includes('429')) {
-    return true;
-  }
-
-  // Service unavailable
-  if (message.includes('503') || message.includes('service unavailable')) {
-    return true;
-  }
-
-  // Network errors
-  if (
-    message.includes('network') ||
-    message.includes('timeout') ||
-    message.includes('econnrefused') ||
-    message.includes('enotfound') ||
-    message.includes('fetch failed')
-  ) {
-    return true;
-  }
-
-  // Server errors (5xx)
-  if (message.includes('500') || message.includes('502') || message.includes('504')) {
-    return true;
-  }
-
-  // Bad request, auth errors - not retryable
-  if (message.includes('400') || message.includes('401') || message.includes('403')) {
-    return false;
-  }
-
-  // Default to retryable for unknown errors
-  return true;
-}
+import { isRetryableError, classifyProviderError } from './provider-errors';
+import {
+  FailoverError,
+  type ProviderError,
+  type FailoverContext,
+  type FailoverResult,
+} from './router/failover';
+
+export { isRetryableError, isRateLimitError, getRetryAfterMs } from './provider-errors';
+// FailoverError와 시도 기록 타입은 라우터 서브패스와 같은 정의를 공유 (instanceof 일치)
+export {
+  FailoverError,
+  type ProviderError,
+  type ProviderAttemptOutcome,
+  type FailoverContext,
+  type FailoverResult,
+} from './router/failover';
 
 /**
  * 제공자 오류를 로깅
@@ -145,6 +45,7 @@ export function logProviderError(
       name: error.name,
       message: error.message,
     },
+    category: classifyProviderError(error),
     isRetryable: isRetryableError(error),
   };
 
@@ -240,6 +141,8 @@ export async function withFailover<T>(
         error: err,
         timestamp: new Date(),
         durationMs,
+        outcome: 'failed',
+        category: classifyProviderError(err),
       };
 
       errors.push(providerError);
@@ -256,6 +159,7 @@ export async function withFailover<T>(
         featureType: context.featureType,
         teacherId: context.teacherId,
         errorMessage: err.message,
+        errorCategory: classifyProviderError(err),
         responseTimeMs: durationMs,
       }).catch(trackErr => {
         console.error('[LLM Failover] Failed to track failure:', trackErr);
@@ -14,6 +14,7 @@ import type {
   ResolutionResult,
   ResolutionRequirements,
 } from './types';
+import { getCircuitState, type CircuitState } from './circuit-breaker';
 
 // 확장된 FeatureMapping 타입 (relations 포함)
 interface FeatureMappingWithModel extends FeatureMapping {
@@ -24,6 +25,22 @@ interface FeatureMappingWithModel extends FeatureMapping {
 interface ResolutionResultWithPriority extends ResolutionResult {
   priority: number;
   fallbackMode: string;
+  /** 해상도 시점의 서킷 브레이커 상태 */
+  circuitState?: CircuitState;
+}
+
+/**
+ * open 상태 서킷 처리 방식
+ * - deprioritize: 폴백 체인의 맨 뒤로 이동 (모든 후보가 open이어도 시도 가능)
+ * - skip: 후보에서 제외
+ */
+export type OpenCircuitPolicy = 'deprioritize' | 'skip';
+
+/**
+ * FeatureResolver 옵션
+ */
+export interface FeatureResolverOptions {
+  openCircuitPolicy?: OpenCircuitPolicy;
 }
 
 /**
@@ -33,9 +50,11 @@ interface ResolutionResultWithPriority extends ResolutionResult {
  */
 export class FeatureResolver {
   private db: PrismaClient;
+  private openCircuitPolicy: OpenCircuitPolicy;
 
-  constructor(db: PrismaClient) {
+  constructor(db: PrismaClient, options: FeatureResolverOptions = {}) {
     this.db = db;
+    this.openCircuitPolicy = options.openCircuitPolicy ?? 'deprioritize';
   }
 
   // ============================================================================
@@ -60,6 +79,7 @@ export class FeatureResolver {
   /**
    * 우선순위 순으로 정렬된 후보 목록을 반환합니다.
    * 폴 백 체인 구성에 사용됩니다.
+   * 서킷이 open인 후보는 openCircuitPolicy에 따라 뒤로 밀리거나 제외됩니다.
    * 
    * @param featureType - 기능 타입
    * @param requirements - 해상도 요구사항 (optional)
@@ -117,7 +137,23 @@ export class FeatureResolver {
       }
     }
 
-    return uniqueResults;
+    return this.applyCircuitState(uniqueResults);
+  }
+
+  /**
+   * 기능의 헤지 요청 지연 시간을 반환합니다.
+   * 헤지 설정이 있는 매핑 중 우선순위가 가장 높은 매핑의 값을 사용합니다.
+   *
+   * @param featureType - 기능 타입
+   * @returns 헤지 지연 시간 (ms), 설정이 없으면 null
+   */
+  async getHedgeDelayMs(featureType: string): Promise<number | null> {
+    const mapping = await this.db.featureMapping.findFirst({
+      where: { featureType, hedgeDelayMs: { not: null } },
+      orderBy: { priority: 'desc' },
+      select: { hedgeDelayMs: true },
+    });
+    return mapping?.hedgeDelayMs ?? null;
   }
 
   /**
@@ -174,6 +210,7 @@ export class FeatureResolver {
       specificModelId: input.specificModelId || null,
       priority: input.priority ?? 1,
       fallbackMode: input.fallbackMode,
+      hedgeDelayMs: input.hedgeDelayMs ?? null,
     };
 
     if (existing) {
@@ -207,6 +244,35 @@ export class FeatureResolver {
   // Private Methods
   // ============================================================================
 
+  /**
+   * 서킷 브레이커 상태를 반영하여 후보 순서를 조정합니다.
+   * closed/half_open 후보의 상대 순서는 유지됩니다.
+   */
+  private applyCircuitState(
+    results: ResolutionResultWithPriority[]
+  ): ResolutionResultWithPriority[] {
+    const available: ResolutionResultWithPriority[] = [];
+    const open: ResolutionResultWithPriority[] = [];
+
+    for (const result of results) {
+      result.circuitState = getCircuitState(result.provider.providerType, result.model.modelId);
+      if (result.circuitState === 'open') {
+        open.push(result);
+      } else {
+        available.push(result);
+      }
+    }
+
+    if (open.length > 0) {
+      console.warn(
+        `[Feature Resolver] Open circuits ${this.openCircuitPolicy === 'skip' ? 'skipped' : 'deprioritized'}: ` +
+        open.map(r => `${r.provider.providerType}/${r.model.modelId}`).join(', ')
+      );
+    }
+
+    return this.openCircuitPolicy === 'skip' ? available : [...available, ...open];
+  }
+
   /**
    * 특정 기능의 모든 매핑 규칙을 조회합니다.
    */
@@ -258,6 +324,8 @@ export class FeatureResolver {
               return model.supportsVision;
             case 'tools':
               return model.supportsTools;
+            case 'embedding':
+              return model.supportsEmbedding;
             case 'fast':
               return provider.qualityTier === 'fast';
             case 'balanced':
@@ -291,6 +359,8 @@ export class FeatureResolver {
               return model.supportsVision;
             case 'tools':
               return model.supportsTools;
+            case 'embedding':
+              return model.supportsEmbedding;
             case 'fast':
               return provider.qualityTier === 'fast';
             case 'balanced':
@@ -324,6 +394,11 @@ export class FeatureResolver {
         continue;
       }
 
+      // 임베딩 모델은 임베딩 요청에만 사용
+      if (Boolean(requirements.needsEmbedding) !== model.supportsEmbedding) {
+        continue;
+      }
+
       if (requirements.preferredCost && provider.costTier !== requirements.preferredCost) {
         // 정확히 일치하지 않으면 스킵
         continue;
@@ -25,6 +25,18 @@ export type {
   FeatureConfig,
   FeatureMappingConfig,
   ProviderWithModels,
+  KeySelectionStrategy,
+  ProviderKeyInput,
+  ProviderKeyInfo,
+  PooledKey,
+  ModelPrice,
+  ModelPricingInput,
+  ModelPricingSource,
+  ProviderBatchRequest,
+  ProviderBatchStatus,
+  ProviderBatchSubmission,
+  ProviderBatchState,
+  ProviderBatchResult,
 } from "./types.js"
 
 // ai 패키지 타입 재수출
@@ -41,6 +53,7 @@ export {
   providerNameToType,
   COST_PER_MILLION_TOKENS as LLM_COST_CONFIG,
   COST_PER_MILLION_TOKENS,
+  BATCH_COST_MULTIPLIER,
 } from "./types.js"
 
 // 암호화
@@ -73,6 +86,32 @@ export {
   streamWithProvider,
   generateWithVision,
   generateVisionWithSpecificProvider,
+  generateObjectWithProvider,
+  embedWithProvider,
+  embedManyWithProvider,
+  SchemaValidationError,
+  RequestAbortedError,
+  BudgetExceededError,
+} from "./universal-router.js"
+
+export type {
+  GenerateObjectOptions,
+  GenerateObjectResult,
+  EmbedOptions,
+  EmbedManyOptions,
+  EmbeddingResult,
+  EmbeddingManyResult,
+  AbortReason,
+  CancellationOptions,
+  RoutingOptions,
+  RoutingStrategy,
+  RoutingWeights,
+  BudgetEnforcementMode,
+  ResponseCacheOptions,
+  RetryOptions,
+  ToolCallingOptions,
+  ToolCallRecord,
+  ToolResultRecord,
 } from "./universal-router.js"
 
 export type {
@@ -82,6 +121,7 @@ export type {
   FailoverContext,
   FailoverResult,
   ProviderError,
+  ProviderAttemptOutcome,
   TrackFailureFn,
 } from "./router/index.js"
 
@@ -112,13 +152,34 @@ export {
 export {
   checkAllBudgetThresholds,
   getBudgetSummary,
+  type BudgetSummaryEntry,
 } from "./smart-routing.js"
 
+export {
+  enforceBudget,
+  getScopedUsage,
+  getBudgetScope,
+  invalidateBudgetCache,
+  DEFAULT_ESSENTIAL_FEATURES,
+  type BudgetEnforcement,
+  type BudgetScope,
+  type ScopedBudgetRule,
+  type ScopedUsage,
+} from "./budget-enforcement.js"
+
+export {
+  getScopedBudgetConfigs,
+  saveScopedBudgetConfig,
+  deleteScopedBudgetConfig,
+} from "./config.js"
+
 export {
   getUsageStats,
   getUsageStatsByProvider,
   getUsageStatsByFeature,
+  getUsageStatsByKey,
   getCurrentPeriodCost,
+  getPeriodStartDate,
 } from "./usage-tracker.js"
 
 export {
@@ -130,8 +191,226 @@ export {
   cleanupOldUsageData,
 } from "./usage-aggregation.js"
 
+// 모델 가격 레지스트리
+export {
+  getModelPricing,
+  findModelPricing,
+  loadModelPricing,
+  calculateModelCost,
+  computeCost,
+  listModelPricing,
+  setModelPricing,
+  setModelPricingForModel,
+  seedDefaultModelPricing,
+  importModelPricing,
+  invalidatePricingCache,
+  type ResolvedModelPricing,
+  type PricedUsage,
+} from "./model-pricing.js"
+
+export { DEFAULT_MODEL_PRICING } from "./registry-defaults.js"
+
+// 응답 캐시
+export {
+  configureResponseCache,
+  getResponseCacheStore,
+  buildResponseCacheKey,
+  invalidateResponseCache,
+  clearResponseCache,
+  MemoryResponseCacheStore,
+  PrismaResponseCacheStore,
+  DEFAULT_RESPONSE_CACHE_TTL_MS,
+  type ResponseCacheStore,
+  type CachedResponse,
+  type ResponseCacheKeyInput,
+} from "./response-cache.js"
+
+// 대화 세션
+export {
+  createConversationSession,
+  getConversationSession,
+  listConversationSessions,
+  getConversationMessages,
+  appendConversationMessages,
+  deleteConversationSession,
+  prepareConversation,
+  ConversationNotFoundError,
+  type ConversationRole,
+  type ConversationTrimStrategy,
+  type ConversationMessage,
+  type ConversationSessionInfo,
+  type ConversationOptions,
+  type PreparedConversation,
+} from "./conversation-sessions.js"
+
+// 토큰 추정
+export {
+  estimateTokens,
+  estimateMessageTokens,
+  estimatePromptTokens,
+  estimateForModel,
+  getTokenizerFamily,
+  computeMinContextWindow,
+  fitCandidatesToContextWindow,
+  ContextWindowExceededError,
+  DEFAULT_OUTPUT_RESERVE_TOKENS,
+  type TokenizerFamily,
+  type PromptTokenInput,
+  type TokenEstimate,
+} from "./token-estimation.js"
+
+// 상담 기록 의미 검색
+export {
+  configureCounselingRetrieval,
+  getCounselingVectorStore,
+  indexCounselingSessions,
+  removeCounselingSession,
+  searchCounselingSessions,
+  chunkText,
+  createHashingEmbedder,
+  MemoryCounselingVectorStore,
+  DEFAULT_CHUNK_MAX_TOKENS,
+  CounselingEmbeddingMismatchError,
+  type CounselingSessionRecord,
+  type CounselingChunk,
+  type ScoredCounselingChunk,
+  type CounselingVectorStore,
+  type CounselingEmbedder,
+  type RelevantCounselingSession,
+  type CounselingSearchOptions,
+} from "./counseling-retrieval.js"
+
+// 제공자 호출 에러 분류
+export {
+  ProviderCallError,
+  RateLimitError,
+  AuthenticationError,
+  QuotaExceededError,
+  ContentFilterError,
+  ContextOverflowError,
+  ProviderTimeoutError,
+  ProviderNetworkError,
+  ProviderServerError,
+  ModelNotFoundError,
+  InvalidRequestError,
+  toProviderCallError,
+  classifyProviderError,
+  isRateLimitError,
+  getRetryAfterMs,
+  type ProviderErrorCategory,
+  type ProviderCallErrorDetails,
+} from "./provider-errors.js"
+
+// 같은 제공자 재시도
+export {
+  isTransientError,
+  getRetryDelayMs,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_MAX_DELAY_MS,
+} from "./retry-policy.js"
+
+// 응답 품질 검사
+export {
+  configureResponseGuard,
+  getResponseGuardPolicy,
+  inspectResponse,
+  isRefusalText,
+  ResponseQualityError,
+  DEFAULT_REFUSAL_PATTERNS,
+  DEFAULT_RESPONSE_GUARD_CONFIG,
+  type ResponseGuardKind,
+  type ResponseGuardAction,
+  type ResponseGuardPolicy,
+  type ResponseGuardConfig,
+  type GuardedResponse,
+  type ResponseIssue,
+} from "./response-guard.js"
+
+// 앙상블 생성
+export {
+  generateEnsemble,
+  aggregateScores,
+  EnsembleQuorumError,
+  COMPATIBILITY_SCORE_AGGREGATION,
+  DEFAULT_JUDGE_SYSTEM_PROMPT,
+  DEFAULT_ENSEMBLE_MEMBERS,
+  DEFAULT_ENSEMBLE_MIN_MEMBERS,
+  type EnsembleStrategy,
+  type EnsembleOptions,
+  type EnsembleResult,
+  type EnsembleMember,
+  type JudgeOptions,
+  type ScoreAggregationOptions,
+  type ScoreAggregation,
+  type FieldDisagreement,
+} from "./ensemble.js"
+
+// 배치 실행 및 제공자 호출 한도
+export {
+  runBatch,
+  type BatchRequest,
+  type BatchOptions,
+  type BatchProgressEvent,
+  type BatchItemResult,
+  type BatchCostSummary,
+  type BatchResult,
+} from "./batch-runner.js"
+export {
+  createProviderGate,
+  getProviderRateLimiter,
+  ProviderRateLimitedError,
+  DEFAULT_RATE_LIMIT_WAIT_MS,
+  type ProviderGate,
+  type ProviderGateOptions,
+  type ProviderGateRequest,
+  type ProviderPermit,
+  type ProviderLimits,
+  type GatedProvider,
+} from "./provider-gate.js"
+
+// 제공자 배치 API 작업
+export {
+  submitProviderBatchJob,
+  getProviderBatchJob,
+  listProviderBatchJobs,
+  pollProviderBatchJob,
+  collectProviderBatchJob,
+  processPendingProviderBatchJobs,
+  ProviderBatchJobNotFoundError,
+  type ProviderBatchJobInfo,
+  type SubmitProviderBatchOptions,
+  type ProviderBatchJobResults,
+} from "./provider-batch.js"
+
 // Feature Resolver Export
-export { FeatureResolver } from "./feature-resolver.js"
+export {
+  FeatureResolver,
+  type FeatureResolverOptions,
+  type OpenCircuitPolicy,
+} from "./feature-resolver.js"
+
+// 성능 기반 라우팅
+export {
+  rankCandidatesByPerformance,
+  getModelPerformanceStats,
+  DEFAULT_ROUTING_WEIGHTS,
+  type ModelPerformanceStats,
+  type CandidateScore,
+  type PerformanceRoutingResult,
+} from "./performance-routing.js"
+
+// 서킷 브레이커
+export {
+  configureCircuitBreaker,
+  getCircuitState,
+  getCircuitSnapshots,
+  resetCircuit,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  type CircuitState,
+  type CircuitSnapshot,
+  type CircuitBreakerConfig,
+} from "./circuit-breaker.js"
 
 // 테스트 유틸리티
 export {
@@ -0,0 +1,437 @@
+/**
+ * Model Pricing - 모델 단위 가격 레지스트리
+ *
+ * 제공자 타입 + 모델 ID별로 입력/출력/캐시 입력 가격을 관리합니다.
+ * 가격은 ModelPricing 테이블에 적용 시작 시각(effectiveFrom)과 함께 이력으로 쌓이며,
+ * 비용 계산 시점에 유효한 가장 최근 가격을 사용합니다.
+ *
+ * 가격 조회 우선순위:
+ * 1. ModelPricing 테이블 (수동 입력, 시딩, OpenRouter 가져오기)
+ * 2. DEFAULT_MODEL_PRICING (registry-defaults.ts)
+ * 3. COST_PER_MILLION_TOKENS (제공자 단위 대체 가격)
+ */
+
+import { db } from '@ais/db/client';
+import { COST_PER_MILLION_TOKENS, type ProviderName } from './providers';
+import { DEFAULT_MODELS, DEFAULT_MODEL_PRICING } from './registry-defaults';
+import { getProviderTemplates } from './templates';
+import type {
+  ProviderType,
+  ModelInfo,
+  ModelPrice,
+  ModelPricingInput,
+  ModelPricingSource,
+} from './types';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 비용 계산에 사용된 가격
+ */
+export interface ResolvedModelPricing extends ModelPrice {
+  providerType: string;
+  modelId: string;
+  /** registry: ModelPricing 테이블, default: 기본 모델 가격, provider: 제공자 단위 가격 */
+  resolvedFrom: 'registry' | 'default' | 'provider';
+  effectiveFrom: Date | null;
+}
+
+/**
+ * 비용 계산용 토큰 사용량
+ */
+export interface PricedUsage {
+  /** 전체 입력 토큰 (캐시된 토큰 포함) */
+  inputTokens: number;
+  outputTokens: number;
+  /** 입력 토큰 중 캐시에서 읽은 토큰 */
+  cachedInputTokens?: number;
+}
+
+interface PricingRow extends ModelPrice {
+  id: string;
+  providerType: string;
+  modelId: string;
+  effectiveFrom: Date;
+  source: string;
+}
+
+// =============================================================================
+// 캐시
+// =============================================================================
+
+// 가격 행 캐시 TTL (5분) — 비용 계산마다 DB 조회를 피하기 위함
+const PRICING_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// 시딩된 기본 가격은 과거 사용량에도 적용되도록 epoch부터 유효
+const SEED_EFFECTIVE_FROM = new Date(0);
+
+let pricingRows: Map<string, PricingRow[]> | null = null;
+let pricingExpiresAt = 0;
+
+function pricingKey(providerType: string, modelId: string): string {
+  return `${providerType}:${modelId}`;
+}
+
+/**
+ * 가격 행을 캐시에 로드합니다. (캐시가 유효하면 조회하지 않음)
+ * findModelPricing 같은 동기 조회 전에 호출하면 DB 가격이 반영됩니다.
+ */
+export async function loadModelPricing(): Promise<void> {
+  if (pricingRows && Date.now() < pricingExpiresAt) {
+    return;
+  }
+
+  const rows = (await db.modelPricing.findMany({
+    orderBy: { effectiveFrom: 'desc' },
+  })) as PricingRow[];
+
+  const grouped = new Map<string, PricingRow[]>();
+  for (const row of rows) {
+    const key = pricingKey(row.providerType, row.modelId);
+    const list = grouped.get(key) ?? [];
+    list.push(row);
+    grouped.set(key, list);
+  }
+
+  pricingRows = grouped;
+  pricingExpiresAt = Date.now() + PRICING_CACHE_TTL_MS;
+}
+
+/**
+ * 가격 캐시를 비웁니다. (가격 변경 시 호출)
+ */
+export function invalidatePricingCache(): void {
+  pricingRows = null;
+  pricingExpiresAt = 0;
+}
+
+// =============================================================================
+// 조회 / 계산
+// =============================================================================
+
+/**
+ * 지정 시각에 유효한 모델 가격을 동기적으로 찾습니다.
+ * DB 가격은 이미 로드된 캐시만 사용하므로, 정확한 값이 필요하면 getModelPricing을 사용하세요.
+ *
+ * @param providerType - 제공자 타입
+ * @param modelId - 모델 ID
+ * @param at - 기준 시각 (기본: 지금)
+ */
+export function findModelPricing(
+  providerType: string,
+  modelId: string,
+  at: Date = new Date()
+): ResolvedModelPricing {
+  // effectiveFrom 내림차순이므로 처음 만나는 유효 행이 최신 가격
+  const row = pricingRows
+    ?.get(pricingKey(providerType, modelId))
+    ?.find((r) => r.effectiveFrom.getTime() <= at.getTime());
+
+  if (row) {
+    return {
+      providerType,
+      modelId,
+      inputPerMillion: row.inputPerMillion,
+      outputPerMillion: row.outputPerMillion,
+      cachedInputPerMillion: row.cachedInputPerMillion,
+      resolvedFrom: 'registry',
+      effectiveFrom: row.effectiveFrom,
+    };
+  }
+
+  const defaultPrice = DEFAULT_MODEL_PRICING[providerType as ProviderType]?.[modelId];
+  if (defaultPrice) {
+    return { providerType, modelId, ...defaultPrice, resolvedFrom: 'default', effectiveFrom: null };
+  }
+
+  const providerCosts = COST_PER_MILLION_TOKENS[providerType as ProviderName];
+  return {
+    providerType,
+    modelId,
+    inputPerMillion: providerCosts?.input ?? 0,
+    outputPerMillion: providerCosts?.output ?? 0,
+    cachedInputPerMillion: null,
+    resolvedFrom: 'provider',
+    effectiveFrom: null,
+  };
+}
+
+/**
+ * 지정 시각에 유효한 모델 가격을 조회합니다.
+ *
+ * @param providerType - 제공자 타입
+ * @param modelId - 모델 ID
+ * @param at - 기준 시각 (기본: 지금)
+ */
+export async function getModelPricing(
+  providerType: string,
+  modelId: string,
+  at: Date = new Date()
+): Promise<ResolvedModelPricing> {
+  await loadModelPricing();
+  return findModelPricing(providerType, modelId, at);
+}
+
+/**
+ * 가격과 토큰 사용량으로 비용(USD)을 계산합니다.
+ * 캐시된 입력 토큰은 cachedInputPerMillion(없으면 입력 가격)으로 계산합니다.
+ */
+export function computeCost(price: ModelPrice, usage: PricedUsage): number {
+  const cachedTokens = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+  const uncachedTokens = usage.inputTokens - cachedTokens;
+  const cachedPrice = price.cachedInputPerMillion ?? price.inputPerMillion;
+
+  const inputCost = (uncachedTokens / 1_000_000) * price.inputPerMillion;
+  const cachedCost = (cachedTokens / 1_000_000) * cachedPrice;
+  const outputCost = (usage.outputTokens / 1_000_000) * price.outputPerMillion;
+
+  return Math.round((inputCost + cachedCost + outputCost) * 1000000) / 1000000;
+}
+
+/**
+ * 모델 가격으로 비용(USD)을 계산합니다.
+ *
+ * @param providerType - 제공자 타입
+ * @param modelId - 모델 ID
+ * @param usage - 토큰 사용량
+ * @param at - 사용 시각 (기본: 지금)
+ */
+export async function calculateModelCost(
+  providerType: string,
+  modelId: string,
+  usage: PricedUsage,
+  at: Date = new Date()
+): Promise<number> {
+  const pricing = await getModelPricing(providerType, modelId, at);
+  return computeCost(pricing, usage);
+}
+
+/**
+ * 기간 안에서 가격이 바뀌는 구간을 나눕니다. (월별 집계용)
+ * 각 구간은 [from, to) 범위에서 하나의 가격이 유효합니다.
+ *
+ * @param providerType - 제공자 타입
+ * @param modelId - 모델 ID
+ * @param start - 기간 시작
+ * @param end - 기간 끝
+ */
+export async function getPricingSegments(
+  providerType: string,
+  modelId: string,
+  start: Date,
+  end: Date
+): Promise<Array<{ from: Date; to: Date; pricing: ResolvedModelPricing }>> {
+  await loadModelPricing();
+
+  const changes = (pricingRows?.get(pricingKey(providerType, modelId)) ?? [])
+    .map((r) => r.effectiveFrom)
+    .filter((d) => d.getTime() > start.getTime() && d.getTime() < end.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const boundaries = [start, ...changes, end];
+  const segments: Array<{ from: Date; to: Date; pricing: ResolvedModelPricing }> = [];
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    segments.push({
+      from: boundaries[i],
+      to: boundaries[i + 1],
+      pricing: findModelPricing(providerType, modelId, boundaries[i]),
+    });
+  }
+
+  return segments;
+}
+
+// =============================================================================
+// 관리
+// =============================================================================
+
+/**
+ * 가격 이력을 조회합니다. (최신순)
+ */
+export async function listModelPricing(filter: { providerType?: ProviderType; modelId?: string } = {}) {
+  return db.modelPricing.findMany({
+    where: {
+      ...(filter.providerType && { providerType: filter.providerType }),
+      ...(filter.modelId && { modelId: filter.modelId }),
+    },
+    orderBy: [{ providerType: 'asc' }, { modelId: 'asc' }, { effectiveFrom: 'desc' }],
+  });
+}
+
+/**
+ * 새 가격을 등록합니다.
+ * 기존 가격은 이력으로 남고, effectiveFrom 이후의 사용량부터 새 가격이 적용됩니다.
+ *
+ * @param input - 가격 정보
+ */
+export async function setModelPricing(input: ModelPricingInput) {
+  if (input.inputPerMillion < 0 || input.outputPerMillion < 0 || (input.cachedInputPerMillion ?? 0) < 0) {
+    throw new Error(`Invalid pricing for ${input.providerType}/${input.modelId}: prices must be non-negative`);
+  }
+
+  const created = await db.modelPricing.create({
+    data: {
+      providerType: input.providerType,
+      modelId: input.modelId,
+      inputPerMillion: input.inputPerMillion,
+      outputPerMillion: input.outputPerMillion,
+      cachedInputPerMillion: input.cachedInputPerMillion ?? null,
+      effectiveFrom: input.effectiveFrom ?? new Date(),
+      source: input.source ?? 'manual',
+    },
+  });
+
+  invalidatePricingCache();
+  return created;
+}
+
+/**
+ * Model 행 기준으로 가격을 등록합니다. (관리 화면의 모델 편집용)
+ *
+ * @param modelRowId - Model 테이블 ID
+ * @param price - 가격
+ * @param effectiveFrom - 적용 시작 시각 (기본: 지금)
+ */
+export async function setModelPricingForModel(modelRowId: string, price: ModelPrice, effectiveFrom?: Date) {
+  const model = await db.model.findUnique({
+    where: { id: modelRowId },
+    include: { provider: true },
+  });
+
+  if (!model) {
+    throw new Error(`Model not found: ${modelRowId}`);
+  }
+
+  return setModelPricing({
+    providerType: model.provider.providerType as ProviderType,
+    modelId: model.modelId,
+    ...price,
+    effectiveFrom,
+    source: 'manual',
+  });
+}
+
+/**
+ * 기본 가격을 ModelPricing 테이블에 시딩합니다.
+ * DEFAULT_MODELS와 템플릿의 기본 모델 중 DEFAULT_MODEL_PRICING에 가격이 있는 모델만 등록하며,
+ * 이미 가격이 등록된 모델은 건너뜁니다.
+ *
+ * @returns 등록된 수와 가격을 알 수 없어 건너뛴 모델 목록
+ */
+export async function seedDefaultModelPricing(): Promise<{ created: number; missing: string[] }> {
+  const targets = new Set<string>();
+
+  for (const [providerType, models] of Object.entries(DEFAULT_MODELS)) {
+    for (const model of models) {
+      if (model.modelId) targets.add(pricingKey(providerType, model.modelId));
+    }
+  }
+  for (const template of getProviderTemplates()) {
+    for (const model of template.defaultModels) {
+      targets.add(pricingKey(template.providerType, model.modelId));
+    }
+  }
+  for (const [providerType, prices] of Object.entries(DEFAULT_MODEL_PRICING)) {
+    for (const modelId of Object.keys(prices)) {
+      targets.add(pricingKey(providerType, modelId));
+    }
+  }
+
+  const existing = await db.modelPricing.findMany({
+    select: { providerType: true, modelId: true },
+  });
+  const existingKeys = new Set(existing.map((r) => pricingKey(r.providerType, r.modelId)));
+
+  let created = 0;
+  const missing: string[] = [];
+
+  for (const key of targets) {
+    if (existingKeys.has(key)) continue;
+
+    const [providerType, ...rest] = key.split(':');
+    const modelId = rest.join(':');
+
+    // 로컬 모델은 무료
+    const price: ModelPrice | undefined =
+      providerType === 'ollama'
+        ? { inputPerMillion: 0, outputPerMillion: 0 }
+        : DEFAULT_MODEL_PRICING[providerType as ProviderType]?.[modelId];
+
+    if (!price) {
+      missing.push(key);
+      continue;
+    }
+
+    await db.modelPricing.create({
+      data: {
+        providerType,
+        modelId,
+        inputPerMillion: price.inputPerMillion,
+        outputPerMillion: price.outputPerMillion,
+        cachedInputPerMillion: price.cachedInputPerMillion ?? null,
+        effectiveFrom: SEED_EFFECTIVE_FROM,
+        source: 'default',
+      },
+    });
+    created++;
+  }
+
+  invalidatePricingCache();
+  return { created, missing };
+}
+
+/**
+ * 제공자 API가 알려준 모델 가격을 가져옵니다. (예: OpenRouter /models)
+ * 현재 가격과 다른 모델만 새 가격 행을 추가합니다.
+ *
+ * @param providerType - 제공자 타입
+ * @param models - listModels 결과 (pricing이 있는 모델만 처리)
+ * @param source - 가격 출처
+ * @returns 새로 등록된 가격 수
+ */
+export async function importModelPricing(
+  providerType: ProviderType,
+  models: ModelInfo[],
+  source: ModelPricingSource = providerType === 'openrouter' ? 'openrouter' : 'provider_api'
+): Promise<number> {
+  await loadModelPricing();
+
+  const now = new Date();
+  let imported = 0;
+
+  for (const model of models) {
+    if (!model.pricing) continue;
+
+    const current = findModelPricing(providerType, model.modelId, now);
+    const unchanged =
+      current.resolvedFrom === 'registry' &&
+      current.inputPerMillion === model.pricing.inputPerMillion &&
+      current.outputPerMillion === model.pricing.outputPerMillion &&
+      (current.cachedInputPerMillion ?? null) === (model.pricing.cachedInputPerMillion ?? null);
+
+    if (unchanged) continue;
+
+    await db.modelPricing.create({
+      data: {
+        providerType,
+        modelId: model.modelId,
+        inputPerMillion: model.pricing.inputPerMillion,
+        outputPerMillion: model.pricing.outputPerMillion,
+        cachedInputPerMillion: model.pricing.cachedInputPerMillion ?? null,
+        // 처음 가져오는 모델은 과거 사용량에도 적용
+        effectiveFrom: current.resolvedFrom === 'registry' ? now : SEED_EFFECTIVE_FROM,
+        source,
+      },
+    });
+    imported++;
+  }
+
+  if (imported > 0) {
+    invalidatePricingCache();
+  }
+
+  return imported;
+}
@@ -0,0 +1,397 @@
+/**
+ * Performance Routing - 지연 시간/성공률 기반 라우팅
+ *
+ * LLMUsage에 기록된 responseTimeMs와 success로 제공자 + 모델별
+ * 최근 p50/p95 지연 시간과 성공률을 계산하고,
+ * 비용 · 지연 시간 · 신뢰도의 가중 점수로 후보 순서를 정합니다.
+ */
+
+import { db } from '@ais/db/client';
+import { COST_PER_MILLION_TOKENS, type ProviderName } from './providers';
+import { findModelPricing, loadModelPricing } from './model-pricing';
+import { isCircuitOpen } from './circuit-breaker';
+import type { RoutingResult } from './smart-routing';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 라우팅 전략
+ * - priority: FeatureResolver 순서 그대로 사용 (기본)
+ * - performance: 사용 이력 기반 가중 점수로 재정렬
+ */
+export type RoutingStrategy = 'priority' | 'performance';
+
+/**
+ * 가중 점수의 항목별 가중치 (합이 1이 아니면 정규화됨)
+ */
+export interface RoutingWeights {
+  cost: number;
+  latency: number;
+  reliability: number;
+}
+
+/**
+ * 라우터 호출 시 라우팅 옵션
+ */
+export interface RoutingOptions {
+  strategy?: RoutingStrategy;
+  weights?: Partial<RoutingWeights>;
+  /** 통계 계산에 사용할 기간 (ms, 기본 24시간) */
+  windowMs?: number;
+  /** 기능별 통계로 판단하기 위한 최소 호출 수 (미만이면 전체 기능 통계 사용) */
+  minSamples?: number;
+}
+
+/**
+ * 제공자 + 모델 (+ 기능) 단위 성능 통계
+ */
+export interface ModelPerformanceStats {
+  provider: string;
+  modelId: string;
+  /** 기능 타입 (전체 기능 통계이면 null) */
+  featureType: string | null;
+  sampleSize: number;
+  successCount: number;
+  successRate: number;
+  /** 성공한 호출의 응답 시간 중앙값 (ms) */
+  p50Ms: number | null;
+  /** 성공한 호출의 응답 시간 95 백분위 (ms) */
+  p95Ms: number | null;
+}
+
+/**
+ * 후보별 점수 상세
+ */
+export interface CandidateScore {
+  provider: string;
+  modelId: string;
+  score: number;
+  costScore: number;
+  latencyScore: number;
+  reliabilityScore: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  successRate: number | null;
+  sampleSize: number;
+  /** 서킷이 open이면 점수와 무관하게 맨 뒤로 배치 */
+  circuitOpen: boolean;
+}
+
+/**
+ * 성능 기반 라우팅 결과
+ */
+export interface PerformanceRoutingResult<T> extends RoutingResult {
+  orderedCandidates: T[];
+  scores: CandidateScore[];
+}
+
+interface RankableCandidate {
+  provider: { providerType: string };
+  model: { modelId: string };
+}
+
+// =============================================================================
+// 상수 / 캐시
+// =============================================================================
+
+export const DEFAULT_ROUTING_WEIGHTS: RoutingWeights = {
+  cost: 0.3,
+  latency: 0.3,
+  reliability: 0.4,
+};
+
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MIN_SAMPLES = 10;
+
+// 통계 조회 최대 행 수 (최근 순)
+const MAX_HISTORY_ROWS = 5000;
+
+// 통계 캐시 TTL (1분)
+const STATS_CACHE_TTL_MS = 60 * 1000;
+
+let statsCache: {
+  windowMs: number;
+  expiresAt: number;
+  stats: Map<string, ModelPerformanceStats>;
+} | null = null;
+
+function statsKey(provider: string, modelId: string, featureType: string | null): string {
+  return `${provider}:${modelId}:${featureType ?? '*'}`;
+}
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+/**
+ * 정렬된 배열에서 nearest-rank 방식 백분위 값을 구합니다.
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function buildStats(
+  provider: string,
+  modelId: string,
+  featureType: string | null,
+  rows: Array<{ responseTimeMs: number; success: boolean }>
+): ModelPerformanceStats {
+  const successful = rows.filter((r) => r.success);
+  const latencies = successful.map((r) => r.responseTimeMs).sort((a, b) => a - b);
+
+  return {
+    provider,
+    modelId,
+    featureType,
+    sampleSize: rows.length,
+    successCount: successful.length,
+    successRate: rows.length > 0 ? successful.length / rows.length : 1,
+    p50Ms: percentile(latencies, 50),
+    p95Ms: percentile(latencies, 95),
+  };
+}
+
+/**
+ * 최소값이 1, 최대값이 0이 되도록 정규화합니다. (값이 작을수록 좋은 지표용)
+ */
+function normalizeLowerIsBetter(value: number, min: number, max: number): number {
+  if (max === min) return 1;
+  return 1 - (value - min) / (max - min);
+}
+
+function resolveWeights(weights?: Partial<RoutingWeights>): RoutingWeights {
+  const merged = { ...DEFAULT_ROUTING_WEIGHTS, ...weights };
+  const total = merged.cost + merged.latency + merged.reliability;
+  if (total <= 0) return { ...DEFAULT_ROUTING_WEIGHTS };
+
+  return {
+    cost: merged.cost / total,
+    latency: merged.latency / total,
+    reliability: merged.reliability / total,
+  };
+}
+
+function getCostValue(provider: string, modelId: string): number | null {
+  const pricing = findModelPricing(provider, modelId);
+  // 가격을 전혀 알 수 없는 제공자 (custom 등)
+  if (pricing.resolvedFrom === 'provider' && !COST_PER_MILLION_TOKENS[provider as ProviderName]) return null;
+  // optimizeProviderOrder와 동일하게 input:output = 1:2 비율 가정
+  return pricing.inputPerMillion + pricing.outputPerMillion * 2;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 최근 사용 이력으로 제공자 + 모델별 성능 통계를 계산합니다.
+ * 기능별 통계와 전체 기능 통계(featureType: null)를 함께 반환합니다.
+ *
+ * @param windowMs 통계 기간 (ms, 기본 24시간)
+ * @returns 성능 통계 목록
+ */
+export async function getModelPerformanceStats(
+  windowMs: number = DEFAULT_WINDOW_MS
+): Promise<ModelPerformanceStats[]> {
+  const stats = await loadStats(windowMs);
+  return Array.from(stats.values());
+}
+
+async function loadStats(windowMs: number): Promise<Map<string, ModelPerformanceStats>> {
+  if (statsCache && statsCache.windowMs === windowMs && Date.now() < statsCache.expiresAt) {
+    return statsCache.stats;
+  }
+
+  const rows: Array<{
+    provider: string;
+    modelId: string;
+    featureType: string;
+    responseTimeMs: number;
+    success: boolean;
+  }> = await db.lLMUsage.findMany({
+    where: {
+      createdAt: { gte: new Date(Date.now() - windowMs) },
+      // 캐시 적중과 제공자 배치 결과는 실시간 지연 시간/신뢰도와 무관
+      cacheHit: false,
+      batchJobId: null,
+      // 헤지 경쟁에서 져서 취소된 호출은 제공자 실패가 아님 (errorCategory 없음)
+      NOT: { hedged: true, success: false, errorCategory: null },
+    },
+    select: {
+      provider: true,
+      modelId: true,
+      featureType: true,
+      responseTimeMs: true,
+      success: true,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_HISTORY_ROWS,
+  });
+
+  const groups = new Map<string, typeof rows>();
+  for (const row of rows) {
+    for (const key of [
+      statsKey(row.provider, row.modelId, row.featureType),
+      statsKey(row.provider, row.modelId, null),
+    ]) {
+      const group = groups.get(key);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(key, [row]);
+      }
+    }
+  }
+
+  const stats = new Map<string, ModelPerformanceStats>();
+  for (const [key, group] of groups) {
+    const isAllFeatures = key.endsWith(':*');
+    stats.set(
+      key,
+      buildStats(group[0].provider, group[0].modelId, isAllFeatures ? null : group[0].featureType, group)
+    );
+  }
+
+  statsCache = { windowMs, expiresAt: Date.now() + STATS_CACHE_TTL_MS, stats };
+  return stats;
+}
+
+/**
+ * 비용 · 지연 시간 · 신뢰도의 가중 점수로 후보 순서를 정합니다.
+ *
+ * - 비용: 모델 가격 레지스트리 기준 (저렴할수록 높음)
+ * - 지연 시간: 최근 p95 (빠를수록 높음, 이력 없으면 0.5)
+ * - 신뢰도: 성공률 (라플라스 보정으로 이력 없으면 0.5)
+ * 기능별 호출 수가 minSamples 미만이면 같은 모델의 전체 기능 통계를 사용합니다.
+ * 서킷이 open인 후보는 점수와 무관하게 맨 뒤에 둡니다.
+ *
+ * @param candidates FeatureResolver가 결정한 후보 (우선순위 순)
+ * @param featureType 기능 유형
+ * @param options 가중치 및 통계 기간
+ * @returns 정렬된 후보, 후보별 점수, 순위 설명
+ */
+export async function rankCandidatesByPerformance<T extends RankableCandidate>(
+  candidates: T[],
+  featureType: string,
+  options: RoutingOptions = {}
+): Promise<PerformanceRoutingResult<T>> {
+  const weights = resolveWeights(options.weights);
+  const minSamples = options.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const stats = await loadStats(options.windowMs ?? DEFAULT_WINDOW_MS);
+  await loadModelPricing();
+
+  const measured = candidates.map((candidate) => {
+    const provider = candidate.provider.providerType;
+    const modelId = candidate.model.modelId;
+    const featureStats = stats.get(statsKey(provider, modelId, featureType));
+    const modelStats =
+      featureStats && featureStats.sampleSize >= minSamples
+        ? featureStats
+        : stats.get(statsKey(provider, modelId, null)) ?? featureStats;
+
+    return {
+      candidate,
+      provider,
+      modelId,
+      stats: modelStats,
+      cost: getCostValue(provider, modelId),
+      circuitOpen: isCircuitOpen(provider, modelId),
+    };
+  });
+
+  const costs = measured.map((m) => m.cost).filter((c): c is number => c !== null);
+  const latencies = measured
+    .map((m) => m.stats?.p95Ms)
+    .filter((l): l is number => l !== null && l !== undefined);
+  const minCost = Math.min(...costs);
+  const maxCost = Math.max(...costs);
+  const minLatency = Math.min(...latencies);
+  const maxLatency = Math.max(...latencies);
+
+  const scored = measured.map((m, index) => {
+    const costScore = m.cost !== null ? normalizeLowerIsBetter(m.cost, minCost, maxCost) : 0.5;
+    const latencyScore =
+      m.stats?.p95Ms !== null && m.stats?.p95Ms !== undefined
+        ? normalizeLowerIsBetter(m.stats.p95Ms, minLatency, maxLatency)
+        : 0.5;
+    const reliabilityScore = ((m.stats?.successCount ?? 0) + 1) / ((m.stats?.sampleSize ?? 0) + 2);
+    const score =
+      weights.cost * costScore +
+      weights.latency * latencyScore +
+      weights.reliability * reliabilityScore;
+
+    return {
+      index,
+      candidate: m.candidate,
+      detail: {
+        provider: m.provider,
+        modelId: m.modelId,
+        score,
+        costScore,
+        latencyScore,
+        reliabilityScore,
+        p50Ms: m.stats?.p50Ms ?? null,
+        p95Ms: m.stats?.p95Ms ?? null,
+        successRate: m.stats ? m.stats.successRate : null,
+        sampleSize: m.stats?.sampleSize ?? 0,
+        circuitOpen: m.circuitOpen,
+      } satisfies CandidateScore,
+    };
+  });
+
+  // open 서킷은 뒤로, 그 외에는 점수 내림차순 (동점이면 원래 우선순위 유지)
+  scored.sort((a, b) => {
+    if (a.detail.circuitOpen !== b.detail.circuitOpen) return a.detail.circuitOpen ? 1 : -1;
+    if (b.detail.score !== a.detail.score) return b.detail.score - a.detail.score;
+    return a.index - b.index;
+  });
+
+  const orderedCandidates = scored.map((s) => s.candidate);
+  const scores = scored.map((s) => s.detail);
+  const orderedProviders = Array.from(new Set(scores.map((s) => s.provider))) as ProviderName[];
+
+  return {
+    orderedCandidates,
+    orderedProviders,
+    scores,
+    reason: buildReason(scores, weights),
+  };
+}
+
+/**
+ * 순위 설명 문자열을 만듭니다. (상위 3개 후보)
+ */
+function buildReason(scores: CandidateScore[], weights: RoutingWeights): string {
+  const pct = (v: number) => `${Math.round(v * 100)}%`;
+  const header =
+    `성능 기반 라우팅 (비용 ${pct(weights.cost)}, 지연 ${pct(weights.latency)}, ` +
+    `신뢰도 ${pct(weights.reliability)})`;
+
+  if (scores.length === 0) {
+    return `${header}: 후보 없음`;
+  }
+
+  const describe = (s: CandidateScore) => {
+    const parts = [`점수 ${s.score.toFixed(2)}`];
+    if (s.sampleSize > 0) {
+      parts.push(
+        `p50 ${s.p50Ms ?? '-'}ms`,
+        `p95 ${s.p95Ms ?? '-'}ms`,
+        `성공률 ${pct(s.successRate ?? 0)}`,
+        `${s.sampleSize}건`
+      );
+    } else {
+      parts.push('이력 없음');
+    }
+    if (s.circuitOpen) {
+      parts.push('서킷 open');
+    }
+    return `${s.provider}/${s.modelId} (${parts.join(', ')})`;
+  };
+
+  return `${header}: ${scores.slice(0, 3).map(describe).join(' > ')}`;
+}
@@ -4,6 +4,8 @@
  * 통합 성향 데이터(UnifiedPersonalityData) 기반
  */
 
+import { estimateTokens } from "../token-estimation.js"
+
 // ---------------------------------------------------------------------------
 // 타입 정의
 // ---------------------------------------------------------------------------
@@ -48,12 +50,21 @@ export interface CounselingSummaryPromptParams {
   sessionDate: Date
   sessionType: string
   personality: UnifiedPersonalityData | null
+  /**
+   * 이전 상담 목록
+   * score가 있으면(searchCounselingSessions 결과) 관련도 순, 없으면 전달된 순서(최신순)로 선택
+   */
   previousSessions: Array<{
     summary: string
     sessionDate: Date
     type: string
+    score?: number
   }>
   studentName: string
+  /** 이전 상담 이력에 사용할 최대 토큰 (기본 1000) */
+  previousSessionsTokenBudget?: number
+  /** 포함할 최대 이전 상담 수 (기본 5) */
+  maxPreviousSessions?: number
 }
 
 /**
@@ -68,6 +79,42 @@ export interface PersonalitySummaryPromptParams {
 // 상담 요약 생성 프롬프트 빌더
 // ---------------------------------------------------------------------------
 
+const DEFAULT_PREVIOUS_SESSIONS_TOKEN_BUDGET = 1000
+const DEFAULT_MAX_PREVIOUS_SESSIONS = 5
+
+/**
+ * 토큰 예산 안에서 이전 상담을 고르고 날짜 내림차순으로 반환합니다.
+ * 요약은 자르지 않고 통째로 넣되, 첫 상담조차 예산을 넘으면 그 상담만 예산에 맞춰 자릅니다.
+ */
+function selectPreviousSessions(
+  sessions: CounselingSummaryPromptParams["previousSessions"],
+  tokenBudget: number,
+  maxSessions: number
+): CounselingSummaryPromptParams["previousSessions"] {
+  const ranked = sessions.some((s) => s.score !== undefined)
+    ? [...sessions].sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    : sessions
+
+  const selected: CounselingSummaryPromptParams["previousSessions"] = []
+  let remaining = tokenBudget
+
+  for (const session of ranked) {
+    if (selected.length >= maxSessions) break
+
+    const tokens = estimateTokens(session.summary)
+    if (tokens <= remaining) {
+      selected.push(session)
+      remaining -= tokens
+    } else if (selected.length === 0) {
+      const chars = Math.floor((session.summary.length * remaining) / tokens)
+      selected.push({ ...session, summary: `${session.summary.slice(0, chars)}...` })
+      break
+    }
+  }
+
+  return selected.sort((a, b) => b.sessionDate.getTime() - a.sessionDate.getTime())
+}
+
 /**
  * 상담 요약 생성 프롬프트 빌더
  * 상담 내용 + 학생 성향 + 이전 이력을 종합한 요약 프롬프트 생성
@@ -85,6 +132,8 @@ export function buildCounselingSummaryPrompt(
     personality,
     previousSessions,
     studentName,
+    previousSessionsTokenBudget = DEFAULT_PREVIOUS_SESSIONS_TOKEN_BUDGET,
+    maxPreviousSessions = DEFAULT_MAX_PREVIOUS_SESSIONS,
   } = params
 
   // 상담 유형 한글 변환
@@ -142,23 +191,28 @@ ${traits.map((t) => `- ${t}`).join("\n")}
     }
   }
 
-  // 이전 상담 이력 섹션 구성
+  // 이전 상담 이력 섹션 구성 (관련도 또는 최신순, 토큰 예산 내)
   let previousSessionsSection = ""
-  if (previousSessions.length > 0) {
-    const sessionsList = previousSessions
-      .slice(0, 5) // 최근 5개만
+  const selectedSessions = selectPreviousSessions(
+    previousSessions,
+    previousSessionsTokenBudget,
+    maxPreviousSessions
+  )
+  if (selectedSessions.length > 0) {
+    const sessionsList = selectedSessions
       .map((s) => {
         const dateStr = s.sessionDate.toLocaleDateString("ko-KR", {
           month: "short",
           day: "numeric",
         })
         const typeKorean = typeMap[s.type] || s.type
-        return `- [${dateStr}] ${typeKorean} 상담: ${s.summary.slice(0, 80)}${s.summary.length > 80 ? "..." : ""}`
+        return `- [${dateStr}] ${typeKorean} 상담: ${s.summary}`
       })
       .join("\n")
 
+    const isRanked = previousSessions.some((s) => s.score !== undefined)
     previousSessionsSection = `
-## 최근 상담 이력
+## ${isRanked ? "관련 상담 이력" : "최근 상담 이력"}
 ${sessionsList}
 `
   }
@@ -0,0 +1,439 @@
+/**
+ * Provider Batch - 제공자 비동기 배치 API 작업
+ *
+ * OpenAI Batch API와 Anthropic Message Batches API는 24시간 안에 처리하는 대신
+ * 일반 가격보다 크게 할인된 가격을 적용합니다. 야간 리포트 일괄 생성처럼
+ * 즉시 응답이 필요 없는 대량 작업에 사용합니다.
+ *
+ * - 제출(submit) → 상태 조회(poll) → 결과 수집(collect)
+ * - 작업은 LLMBatchJob 테이블에 저장되어 재시작 후에도 이어서 조회/수집 가능
+ * - 수집 시 요청별 사용량을 배치 가격으로 LLMUsage에 기록 (한 번만)
+ *
+ * 실시간 요청과 달리 폴백 체인을 거치지 않습니다.
+ * 제출 시점에 배치 API를 지원하는 첫 후보 제공자를 사용합니다.
+ */
+
+import { db } from '@ais/db/client';
+import { getAdapter } from './adapters';
+import { trackUsage } from './usage-tracker';
+import { buildProviderOrder, isProviderReady, leaseProviderKey, type Provider } from './router-utils';
+import type { ProviderName, FeatureType } from './providers';
+import type {
+  ProviderType,
+  ProviderConfig,
+  ProviderBatchRequest,
+  ProviderBatchResult,
+  ProviderBatchState,
+  ProviderBatchStatus,
+} from './types';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 배치 작업 정보
+ */
+export interface ProviderBatchJobInfo {
+  id: string;
+  providerId: string;
+  providerType: string;
+  modelId: string;
+  featureType: string;
+  teacherId: string | null;
+  /** 제공자 배치 ID */
+  externalId: string;
+  status: ProviderBatchStatus;
+  requestCount: number;
+  succeededCount: number | null;
+  failedCount: number | null;
+  error: string | null;
+  /** 배치 가격으로 계산한 총 비용 (수집 후) */
+  costUsd: number | null;
+  submittedAt: Date;
+  completedAt: Date | null;
+  /** LLMUsage에 기록한 시각 (수집 전 null) */
+  reconciledAt: Date | null;
+}
+
+/**
+ * 배치 작업 제출 옵션
+ */
+export interface SubmitProviderBatchOptions {
+  featureType: string;
+  teacherId?: string;
+  /** 특정 제공자를 지정 (지정하지 않으면 FeatureResolver 매핑 중 배치 지원 제공자) */
+  providerId?: string;
+  requests: ProviderBatchRequest[];
+}
+
+/**
+ * 배치 작업 수집 결과
+ */
+export interface ProviderBatchJobResults {
+  job: ProviderBatchJobInfo;
+  /** 요청별 결과 (customId로 요청과 매칭) */
+  results: ProviderBatchResult[];
+}
+
+/**
+ * 배치 작업이 없을 때 발생하는 에러
+ */
+export class ProviderBatchJobNotFoundError extends Error {
+  public readonly jobId: string;
+
+  constructor(jobId: string) {
+    super(`Provider batch job "${jobId}" not found`);
+    this.name = 'ProviderBatchJobNotFoundError';
+    this.jobId = jobId;
+
+    Object.setPrototypeOf(this, ProviderBatchJobNotFoundError.prototype);
+  }
+
+  /**
+   * 사용자 친화적 에러 메시지
+   */
+  get userMessage(): string {
+    return '배치 작업을 찾을 수 없습니다.';
+  }
+}
+
+// Prisma 모델은 마이그레이션 후 생성됨 - 임시 타입 정의
+type ProviderBatchJobRow = {
+  id: string;
+  providerId: string;
+  providerType: string;
+  modelId: string;
+  featureType: string;
+  teacherId: string | null;
+  keyId: string | null;
+  externalId: string;
+  inputFileId: string | null;
+  outputFileId: string | null;
+  errorFileId: string | null;
+  status: string;
+  requestCount: number;
+  succeededCount: number | null;
+  failedCount: number | null;
+  error: string | null;
+  results: unknown;
+  costUsd: number | null;
+  submittedAt: Date;
+  completedAt: Date | null;
+  reconciledAt: Date | null;
+  updatedAt: Date;
+};
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+function toJobInfo(row: ProviderBatchJobRow): ProviderBatchJobInfo {
+  return {
+    id: row.id,
+    providerId: row.providerId,
+    providerType: row.providerType,
+    modelId: row.modelId,
+    featureType: row.featureType,
+    teacherId: row.teacherId,
+    externalId: row.externalId,
+    status: row.status as ProviderBatchStatus,
+    requestCount: row.requestCount,
+    succeededCount: row.succeededCount,
+    failedCount: row.failedCount,
+    error: row.error,
+    costUsd: row.costUsd,
+    submittedAt: row.submittedAt,
+    completedAt: row.completedAt,
+    reconciledAt: row.reconciledAt,
+  };
+}
+
+async function findJobRow(jobId: string): Promise<ProviderBatchJobRow> {
+  const row = (await db.lLMBatchJob.findUnique({ where: { id: jobId } })) as ProviderBatchJobRow | null;
+  if (!row) {
+    throw new ProviderBatchJobNotFoundError(jobId);
+  }
+  return row;
+}
+
+/**
+ * 제출할 때 사용한 제공자 설정(같은 키)을 다시 만듭니다.
+ * 배치와 결과 파일은 제출한 계정에서만 조회할 수 있습니다.
+ */
+async function loadJobConfig(row: ProviderBatchJobRow): Promise<ProviderConfig> {
+  const provider = await db.provider.findUnique({ where: { id: row.providerId } });
+  if (!provider) {
+    throw new Error(`Provider "${row.providerId}" for batch job "${row.id}" no longer exists`);
+  }
+
+  if (row.keyId) {
+    const key = await db.providerKey.findUnique({ where: { id: row.keyId } });
+    if (key) {
+      return { ...provider, apiKeyEncrypted: key.apiKeyEncrypted } as ProviderConfig;
+    }
+  }
+  return { ...provider } as ProviderConfig;
+}
+
+function getBatchAdapter(providerType: string) {
+  const adapter = getAdapter(providerType as ProviderType);
+  if (!adapter.submitBatch || !adapter.getBatchState || !adapter.getBatchResults) {
+    return null;
+  }
+  return adapter as typeof adapter & Required<Pick<typeof adapter, 'submitBatch' | 'getBatchState' | 'getBatchResults'>>;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 요청 목록을 제공자 배치 API에 제출하고 작업을 저장합니다.
+ *
+ * @example
+ * ```ts
+ * const job = await submitProviderBatchJob({
+ *   featureType: 'report_generate',
+ *   requests: students.map((s) => ({ customId: s.id, prompt: buildReportPrompt(s) })),
+ * });
+ * // 다음 날 (또는 processPendingProviderBatchJobs로 주기적으로)
+ * const { results } = await collectProviderBatchJob(job.id);
+ * ```
+ */
+export async function submitProviderBatchJob(options: SubmitProviderBatchOptions): Promise<ProviderBatchJobInfo> {
+  const { featureType, teacherId, providerId, requests } = options;
+
+  if (requests.length === 0) {
+    throw new Error('requests must not be empty');
+  }
+  const customIds = new Set(requests.map((r) => r.customId));
+  if (customIds.size !== requests.length) {
+    throw new Error('customId must be unique within a batch');
+  }
+
+  const { candidates } = await buildProviderOrder(featureType, { providerId, teacherId });
+
+  let selected: { provider: Provider; modelId: string } | null = null;
+  for (const { provider, model } of candidates) {
+    if (getBatchAdapter(provider.providerType) && (await isProviderReady(provider))) {
+      selected = { provider, modelId: model.modelId };
+      break;
+    }
+  }
+  if (!selected) {
+    throw new Error(`No provider supporting batch API is configured for feature "${featureType}"`);
+  }
+
+  const lease = await leaseProviderKey(selected.provider);
+  if (!lease) {
+    throw new Error(`Provider ${selected.provider.providerType} has all API keys cooling down`);
+  }
+
+  const adapter = getBatchAdapter(selected.provider.providerType)!;
+  const submission = await adapter.submitBatch(
+    selected.modelId,
+    requests,
+    { ...lease.provider } as ProviderConfig
+  );
+
+  const row = (await db.lLMBatchJob.create({
+    data: {
+      providerId: selected.provider.id,
+      providerType: selected.provider.providerType,
+      modelId: selected.modelId,
+      featureType,
+      teacherId: teacherId ?? null,
+      keyId: lease.keyId ?? null,
+      externalId: submission.externalId,
+      inputFileId: submission.inputFileId ?? null,
+      status: 'in_progress',
+      requestCount: requests.length,
+      submittedAt: new Date(),
+    },
+  })) as ProviderBatchJobRow;
+
+  console.info(
+    `[Provider Batch] Submitted ${requests.length} requests to ${selected.provider.providerType}/${selected.modelId} (${submission.externalId})`
+  );
+  return toJobInfo(row);
+}
+
+/**
+ * 배치 작업을 조회합니다.
+ *
+ * @throws ProviderBatchJobNotFoundError
+ */
+export async function getProviderBatchJob(jobId: string): Promise<ProviderBatchJobInfo> {
+  return toJobInfo(await findJobRow(jobId));
+}
+
+/**
+ * 배치 작업 목록을 조회합니다. (최신순)
+ */
+export async function listProviderBatchJobs(filter: {
+  status?: ProviderBatchStatus;
+  featureType?: string;
+  teacherId?: string;
+} = {}): Promise<ProviderBatchJobInfo[]> {
+  const rows = (await db.lLMBatchJob.findMany({
+    where: {
+      ...(filter.status && { status: filter.status }),
+      ...(filter.featureType && { featureType: filter.featureType }),
+      ...(filter.teacherId && { teacherId: filter.teacherId }),
+    },
+    orderBy: { submittedAt: 'desc' },
+  })) as ProviderBatchJobRow[];
+
+  return rows.map(toJobInfo);
+}
+
+/**
+ * 제공자에서 배치 상태를 조회해 저장합니다.
+ * 이미 끝난 작업은 제공자를 호출하지 않습니다.
+ *
+ * @throws ProviderBatchJobNotFoundError
+ */
+export async function pollProviderBatchJob(jobId: string): Promise<ProviderBatchJobInfo> {
+  const row = await findJobRow(jobId);
+  if (row.status !== 'in_progress') {
+    return toJobInfo(row);
+  }
+
+  const adapter = getBatchAdapter(row.providerType);
+  if (!adapter) {
+    throw new Error(`Provider ${row.providerType} does not support batch API`);
+  }
+
+  const state = await adapter.getBatchState(row.externalId, await loadJobConfig(row));
+  const updated = (await db.lLMBatchJob.update({
+    where: { id: jobId },
+    data: {
+      status: state.status,
+      outputFileId: state.outputFileId ?? row.outputFileId,
+      errorFileId: state.errorFileId ?? row.errorFileId,
+      succeededCount: state.completedCount ?? row.succeededCount,
+      failedCount: state.failedCount ?? row.failedCount,
+      error: state.error ?? null,
+      ...(state.status !== 'in_progress' && { completedAt: new Date() }),
+    },
+  })) as ProviderBatchJobRow;
+
+  return toJobInfo(updated);
+}
+
+/**
+ * 완료된 배치의 결과를 수집하고 사용량을 배치 가격으로 LLMUsage에 기록합니다.
+ * 결과는 작업에 저장되므로 다시 호출하면 제공자를 호출하지 않고 저장된 결과를 반환합니다.
+ * 여러 인스턴스가 동시에 수집해도 사용량은 한 번만 기록됩니다.
+ *
+ * @throws ProviderBatchJobNotFoundError
+ * @throws Error - 작업이 아직 진행 중이거나 실패/만료/취소된 경우
+ */
+export async function collectProviderBatchJob(jobId: string): Promise<ProviderBatchJobResults> {
+  let row = await findJobRow(jobId);
+  if (row.status === 'in_progress') {
+    await pollProviderBatchJob(jobId);
+    row = await findJobRow(jobId);
+  }
+
+  if (row.reconciledAt) {
+    return { job: toJobInfo(row), results: (row.results as ProviderBatchResult[] | null) ?? [] };
+  }
+  if (row.status !== 'completed') {
+    throw new Error(`Provider batch job "${jobId}" is ${row.status}${row.error ? `: ${row.error}` : ''}`);
+  }
+
+  const adapter = getBatchAdapter(row.providerType);
+  if (!adapter) {
+    throw new Error(`Provider ${row.providerType} does not support batch API`);
+  }
+
+  const state: ProviderBatchState = {
+    status: 'completed',
+    outputFileId: row.outputFileId ?? undefined,
+    errorFileId: row.errorFileId ?? undefined,
+  };
+  const results = await adapter.getBatchResults(row.externalId, state, await loadJobConfig(row));
+  const succeededCount = results.filter((r) => r.success).length;
+
+  // 먼저 선점한 인스턴스만 사용량을 기록
+  const claimed = await db.lLMBatchJob.updateMany({
+    where: { id: jobId, reconciledAt: null },
+    data: {
+      reconciledAt: new Date(),
+      results: JSON.parse(JSON.stringify(results)),
+      succeededCount,
+      failedCount: results.length - succeededCount,
+    },
+  });
+  if (claimed.count === 0) {
+    return collectProviderBatchJob(jobId);
+  }
+
+  let costUsd = 0;
+  for (const result of results) {
+    if (!result.success || !result.usage) continue;
+    const usage = await trackUsage({
+      provider: row.providerType as ProviderName,
+      modelId: row.modelId,
+      featureType: row.featureType as FeatureType,
+      teacherId: row.teacherId ?? undefined,
+      inputTokens: result.usage.inputTokens,
+      outputTokens: result.usage.outputTokens,
+      cachedInputTokens: result.usage.cachedInputTokens,
+      // 배치 대기 시간은 실시간 응답 시간 통계에 의미가 없음
+      responseTimeMs: 0,
+      keyId: row.keyId ?? undefined,
+      batchJobId: row.id,
+    });
+    costUsd += usage.costUsd;
+  }
+
+  const updated = (await db.lLMBatchJob.update({
+    where: { id: jobId },
+    data: { costUsd: Math.round(costUsd * 1000000) / 1000000 },
+  })) as ProviderBatchJobRow;
+
+  return { job: toJobInfo(updated), results };
+}
+
+/**
+ * 진행 중인 모든 배치 작업을 조회하고, 완료된 작업은 결과를 수집합니다.
+ * 스케줄러에서 주기적으로 호출하면 재시작과 관계없이 작업이 정리됩니다.
+ *
+ * @returns 조회한 작업 수, 수집한 작업 수, 실패/만료/취소된 작업 수
+ */
+export async function processPendingProviderBatchJobs(): Promise<{
+  polled: number;
+  collected: number;
+  ended: number;
+}> {
+  const pending = (await db.lLMBatchJob.findMany({
+    where: {
+      OR: [{ status: 'in_progress' }, { status: 'completed', reconciledAt: null }],
+    },
+  })) as ProviderBatchJobRow[];
+
+  let polled = 0;
+  let collected = 0;
+  let ended = 0;
+
+  for (const row of pending) {
+    try {
+      const job = row.status === 'in_progress' ? await pollProviderBatchJob(row.id) : toJobInfo(row);
+      if (row.status === 'in_progress') polled++;
+
+      if (job.status === 'completed') {
+        await collectProviderBatchJob(row.id);
+        collected++;
+      } else if (job.status !== 'in_progress') {
+        ended++;
+      }
+    } catch (error) {
+      console.error(`[Provider Batch] Failed to process job ${row.id}:`, error);
+    }
+  }
+
+  return { polled, collected, ended };
+}
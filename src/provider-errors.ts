@@ -0,0 +1,510 @@
+/**
+ * Provider Call Errors - 제공자 호출 에러 분류
+ *
+ * AI SDK의 APICallError(statusCode, responseBody, responseHeaders)와 제공자별 에러 본문을
+ * ProviderCallError 계층으로 정규화합니다. 폴백/재시도 판단과 실패 기록은
+ * 메시지 문자열 대신 이 분류(category)를 사용합니다.
+ *
+ * 분류 순서
+ * 1. 제공자 에러 본문의 코드 (어댑터가 제공자 형식에 맞게 해석)
+ * 2. 상태 코드와 무관하게 의미가 분명한 메시지 (컨텍스트 초과, 콘텐츠 필터, 크레딧 소진, 인증)
+ * 3. HTTP 상태 코드
+ * 4. 나머지 메시지 패턴과 네트워크 에러 코드
+ */
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 제공자 호출 에러 분류
+ * - model_not_found: 이 제공자에 모델이 없음 (다른 후보로 폴백)
+ * - invalid_request: 요청 자체가 잘못됨 (다른 제공자로 보내도 실패)
+ * - unknown: 분류할 수 없음 (폴백은 시도)
+ */
+export type ProviderErrorCategory =
+  | 'rate_limit'
+  | 'auth'
+  | 'quota'
+  | 'content_filter'
+  | 'context_overflow'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'model_not_found'
+  | 'invalid_request'
+  | 'unknown';
+
+/**
+ * ProviderCallError 생성 정보
+ */
+export interface ProviderCallErrorDetails {
+  /** 제공자 타입 */
+  provider?: string;
+  statusCode?: number;
+  /** Retry-After 헤더 값 (ms) */
+  retryAfterMs?: number;
+  /** 원본 응답 본문 */
+  responseBody?: string;
+  /** 원본 에러 */
+  cause?: unknown;
+}
+
+/**
+ * 정규화 옵션
+ */
+export interface NormalizeErrorOptions {
+  provider?: string;
+  /** 제공자 에러 본문을 분류 (어댑터별 구현, 해석할 수 없으면 undefined) */
+  classifyBody?: (body: unknown, message: string) => ProviderErrorCategory | undefined;
+  /** 메시지 앞에 붙일 접두어 (예: "[validation] openai: ") */
+  messagePrefix?: string;
+}
+
+// 같은 제공자에서 잠시 후 다시 시도하면 성공할 수 있는 분류
+const TRANSIENT_CATEGORIES = new Set<ProviderErrorCategory>(['rate_limit', 'server', 'network']);
+
+// =============================================================================
+// 에러 클래스
+// =============================================================================
+
+/**
+ * 제공자 호출 실패 (분류별 하위 클래스의 기반)
+ */
+export class ProviderCallError extends Error {
+  public readonly category: ProviderErrorCategory;
+  public readonly provider?: string;
+  public readonly statusCode?: number;
+  public readonly retryAfterMs?: number;
+  public readonly responseBody?: string;
+  public readonly cause?: unknown;
+
+  constructor(category: ProviderErrorCategory, message: string, details: ProviderCallErrorDetails = {}) {
+    super(message);
+    this.name = 'ProviderCallError';
+    this.category = category;
+    this.provider = details.provider;
+    this.statusCode = details.statusCode;
+    this.retryAfterMs = details.retryAfterMs;
+    this.responseBody = details.responseBody;
+    this.cause = details.cause;
+
+    Object.setPrototypeOf(this, ProviderCallError.prototype);
+  }
+
+  /**
+   * 같은 제공자에서 재시도할 만한 일시적 오류인지 (rate_limit, server, network)
+   */
+  get transient(): boolean {
+    return TRANSIENT_CATEGORIES.has(this.category);
+  }
+
+  /**
+   * 다음 제공자로 폴백할지 여부
+   * 인증/크레딧/콘텐츠 필터/컨텍스트 초과는 제공자마다 다르므로 폴백하고,
+   * 요청 자체가 잘못된 경우(invalid_request)만 중단합니다.
+   */
+  get shouldFailover(): boolean {
+    return this.category !== 'invalid_request';
+  }
+
+  /**
+   * 사용자 친화적 에러 메시지
+   */
+  get userMessage(): string {
+    return 'AI 서비스 호출 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+/**
+ * 429 - 제공자 측 요청/토큰 한도 초과
+ */
+export class RateLimitError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('rate_limit', message, details);
+    this.name = 'RateLimitError';
+
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+  }
+
+  get userMessage(): string {
+    return 'AI 요청이 많아 처리가 지연되고 있습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+/**
+ * 401/403 - API 키가 없거나 권한이 없음
+ */
+export class AuthenticationError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('auth', message, details);
+    this.name = 'AuthenticationError';
+
+    Object.setPrototypeOf(this, AuthenticationError.prototype);
+  }
+
+  get userMessage(): string {
+    return 'AI 제공자 인증에 실패했습니다. API 키 설정을 확인해주세요.';
+  }
+}
+
+/**
+ * 크레딧/할당량 소진 (OpenAI insufficient_quota, Anthropic credit balance 등)
+ */
+export class QuotaExceededError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('quota', message, details);
+    this.name = 'QuotaExceededError';
+
+    Object.setPrototypeOf(this, QuotaExceededError.prototype);
+  }
+
+  get userMessage(): string {
+    return 'AI 제공자의 사용 한도가 소진되었습니다. 관리자에게 문의해주세요.';
+  }
+}
+
+/**
+ * 제공자 콘텐츠 정책에 의해 차단됨
+ */
+export class ContentFilterError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('content_filter', message, details);
+    this.name = 'ContentFilterError';
+
+    Object.setPrototypeOf(this, ContentFilterError.prototype);
+  }
+
+  get userMessage(): string {
+    return '요청 내용이 AI 제공자의 콘텐츠 정책에 의해 차단되었습니다.';
+  }
+}
+
+/**
+ * 입력이 모델 컨텍스트 윈도우를 초과함 (제공자 응답 기준)
+ */
+export class ContextOverflowError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('context_overflow', message, details);
+    this.name = 'ContextOverflowError';
+
+    Object.setPrototypeOf(this, ContextOverflowError.prototype);
+  }
+
+  get userMessage(): string {
+    return '입력 내용이 너무 깁니다. 내용을 줄여서 다시 시도해주세요.';
+  }
+}
+
+/**
+ * 응답 대기 시간 초과 (시도 제한 시간, 408, 제공자 deadline)
+ */
+export class ProviderTimeoutError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('timeout', message, details);
+    this.name = 'ProviderTimeoutError';
+
+    Object.setPrototypeOf(this, ProviderTimeoutError.prototype);
+  }
+
+  get userMessage(): string {
+    return 'AI 응답 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+/**
+ * 연결 실패 (DNS, 연결 거부/재설정 등)
+ */
+export class ProviderNetworkError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('network', message, details);
+    this.name = 'ProviderNetworkError';
+
+    Object.setPrototypeOf(this, ProviderNetworkError.prototype);
+  }
+
+  get userMessage(): string {
+    return 'AI 서비스에 연결할 수 없습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+/**
+ * 5xx - 제공자 서버 오류 또는 과부하
+ */
+export class ProviderServerError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('server', message, details);
+    this.name = 'ProviderServerError';
+
+    Object.setPrototypeOf(this, ProviderServerError.prototype);
+  }
+
+  get userMessage(): string {
+    return 'AI 서비스에 일시적인 문제가 있습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+/**
+ * 404 - 모델이 없거나 이 키로 사용할 수 없음 (모델 ID 오타, 폐기된 모델, 지역 미지원)
+ * 제공자/모델 설정 문제이므로 다음 후보로 폴백합니다.
+ */
+export class ModelNotFoundError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('model_not_found', message, details);
+    this.name = 'ModelNotFoundError';
+
+    Object.setPrototypeOf(this, ModelNotFoundError.prototype);
+  }
+
+  get userMessage(): string {
+    return 'AI 모델을 찾을 수 없습니다. 모델 설정을 확인해주세요.';
+  }
+}
+
+/**
+ * 400/422 - 잘못된 요청 (폴백하지 않음)
+ */
+export class InvalidRequestError extends ProviderCallError {
+  constructor(message: string, details?: ProviderCallErrorDetails) {
+    super('invalid_request', message, details);
+    this.name = 'InvalidRequestError';
+
+    Object.setPrototypeOf(this, InvalidRequestError.prototype);
+  }
+
+  get userMessage(): string {
+    return 'AI 요청 형식이 올바르지 않습니다.';
+  }
+}
+
+const CATEGORY_CLASSES: Record<
+  Exclude<ProviderErrorCategory, 'unknown'>,
+  new (message: string, details?: ProviderCallErrorDetails) => ProviderCallError
+> = {
+  rate_limit: RateLimitError,
+  auth: AuthenticationError,
+  quota: QuotaExceededError,
+  content_filter: ContentFilterError,
+  context_overflow: ContextOverflowError,
+  timeout: ProviderTimeoutError,
+  network: ProviderNetworkError,
+  server: ProviderServerError,
+  model_not_found: ModelNotFoundError,
+  invalid_request: InvalidRequestError,
+};
+
+// =============================================================================
+// 분류 규칙
+// =============================================================================
+
+// OpenAI 호환 에러 본문의 error.code / error.type
+const ERROR_CODE_CATEGORIES: Record<string, ProviderErrorCategory> = {
+  insufficient_quota: 'quota',
+  billing_hard_limit_reached: 'quota',
+  billing_not_active: 'quota',
+  context_length_exceeded: 'context_overflow',
+  string_above_max_length: 'context_overflow',
+  content_filter: 'content_filter',
+  content_policy_violation: 'content_filter',
+  rate_limit_exceeded: 'rate_limit',
+  rate_limit_error: 'rate_limit',
+  tokens: 'rate_limit',
+  requests: 'rate_limit',
+  invalid_api_key: 'auth',
+  authentication_error: 'auth',
+  permission_error: 'auth',
+  unauthorized: 'auth',
+  server_error: 'server',
+  api_error: 'server',
+  overloaded_error: 'server',
+  service_unavailable: 'server',
+  invalid_request_error: 'invalid_request',
+  model_not_found: 'model_not_found',
+};
+
+// 상태 코드보다 우선하는 메시지 (예: OpenAI 크레딧 소진은 429, 컨텍스트 초과는 400)
+const SPECIFIC_MESSAGE_PATTERNS: Array<[RegExp, ProviderErrorCategory]> = [
+  [/context (length|window)|maximum context|prompt is too long|input is too long|too many (input )?tokens|exceeds the maximum number of tokens/, 'context_overflow'],
+  [/content (filter|policy|management)|safety (system|settings|filter)|responsible ai|flagged as/, 'content_filter'],
+  [/insufficient[_ ]quota|exceeded your current quota|credit balance|billing|payment required|out of credits/, 'quota'],
+  [/invalid[_ ]api[_ ]key|incorrect api key|api key not valid|api key is missing/, 'auth'],
+  [/model[^\n]{0,100}(not found|does not exist|is not available)|unknown model/, 'model_not_found'],
+];
+
+// 상태 코드를 알 수 없을 때의 메시지
+const FALLBACK_MESSAGE_PATTERNS: Array<[RegExp, ProviderErrorCategory]> = [
+  [/rate[_ ]limit|too many requests/, 'rate_limit'],
+  [/unauthori[sz]ed|authentication|permission denied|forbidden/, 'auth'],
+  [/service unavailable|overloaded|internal server error|bad gateway/, 'server'],
+  [/timed? ?out|deadline exceeded/, 'timeout'],
+  [/fetch failed|network|socket hang up|econnrefused|econnreset|enotfound|etimedout|eai_again/, 'network'],
+];
+
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+
+/**
+ * HTTP 상태 코드로 분류합니다.
+ */
+function categoryFromStatus(statusCode: number): ProviderErrorCategory | undefined {
+  if (statusCode === 401 || statusCode === 403) return 'auth';
+  if (statusCode === 402) return 'quota';
+  if (statusCode === 404) return 'model_not_found';
+  if (statusCode === 408) return 'timeout';
+  if (statusCode === 413) return 'context_overflow';
+  if (statusCode === 429) return 'rate_limit';
+  if (statusCode >= 500) return 'server';
+  if (statusCode >= 400) return 'invalid_request';
+  return undefined;
+}
+
+/**
+ * 메시지 속 "HTTP 503" / "status code 429" 형태의 상태 코드 (숫자만 포함된 메시지는 무시)
+ */
+function statusFromMessage(message: string): number | undefined {
+  const match = /\b(?:http|status(?: code)?)[ :]+([1-5]\d\d)\b/i.exec(message);
+  return match ? Number(match[1]) : undefined;
+}
+
+function matchPatterns(text: string, patterns: Array<[RegExp, ProviderErrorCategory]>): ProviderErrorCategory | undefined {
+  return patterns.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * 에러 체인(cause 포함)에서 Node.js 네트워크 에러 코드를 찾습니다.
+ */
+function hasNetworkErrorCode(error: unknown): boolean {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 4; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return true;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return false;
+}
+
+function parseBody(responseBody: string | undefined, data: unknown): unknown {
+  if (data !== undefined) return data;
+  if (!responseBody) return undefined;
+  try {
+    return JSON.parse(responseBody);
+  } catch {
+    return undefined;
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * OpenAI 호환 에러 본문 ({ error: { code, type } })을 분류합니다.
+ * 어댑터의 기본 본문 분류로 사용됩니다.
+ */
+export function classifyOpenAIErrorBody(body: unknown): ProviderErrorCategory | undefined {
+  const error = (body as { error?: { code?: unknown; type?: unknown } } | null)?.error;
+  const candidates = [error?.code, error?.type, (body as { code?: unknown } | null)?.code];
+  for (const value of candidates) {
+    if (typeof value === 'string' && ERROR_CODE_CATEGORIES[value]) {
+      return ERROR_CODE_CATEGORIES[value];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 에러의 Retry-After 값을 밀리초로 반환합니다.
+ * - ProviderCallError는 정규화할 때 읽은 값, 그 외에는 응답 헤더
+ * - 초 단위 숫자 또는 HTTP 날짜 형식 지원
+ * - 헤더가 없거나 해석할 수 없으면 undefined
+ */
+export function getRetryAfterMs(error: Error): number | undefined {
+  if (error instanceof ProviderCallError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+
+  const headers = (error as { responseHeaders?: Record<string, string> }).responseHeaders;
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 에러를 분류합니다.
+ */
+export function classifyProviderError(
+  error: unknown,
+  classifyBody?: NormalizeErrorOptions['classifyBody']
+): ProviderErrorCategory {
+  if (error instanceof ProviderCallError) {
+    return error.category;
+  }
+
+  const err = error as { name?: string; message?: string; statusCode?: number; responseBody?: string; data?: unknown } | null;
+  const message = (err?.message ?? String(error)).toLowerCase();
+
+  const body = parseBody(err?.responseBody, err?.data);
+  const fromBody = body !== undefined ? (classifyBody ?? classifyOpenAIErrorBody)(body, message) : undefined;
+  if (fromBody && fromBody !== 'invalid_request') return fromBody;
+
+  // 본문 코드가 일반적인 invalid_request여도 메시지가 더 구체적이면 메시지를 따름
+  const specific = matchPatterns(`${message} ${err?.responseBody?.toLowerCase() ?? ''}`, SPECIFIC_MESSAGE_PATTERNS);
+  if (specific) return specific;
+  if (fromBody) return fromBody;
+
+  const statusCode = err?.statusCode ?? statusFromMessage(message);
+  const fromStatus = statusCode !== undefined ? categoryFromStatus(statusCode) : undefined;
+  if (fromStatus) return fromStatus;
+
+  if (err?.name === 'TimeoutError' || err?.name === 'AbortError') return 'timeout';
+  if (hasNetworkErrorCode(error)) return 'network';
+
+  return matchPatterns(message, FALLBACK_MESSAGE_PATTERNS) ?? 'unknown';
+}
+
+/**
+ * 에러를 ProviderCallError로 정규화합니다. (이미 ProviderCallError면 그대로 반환)
+ *
+ * @param error - 원본 에러 (APICallError, fetch 에러, 일반 Error 등)
+ * @param options - 제공자 타입, 제공자별 본문 분류, 메시지 접두어
+ */
+export function toProviderCallError(error: unknown, options: NormalizeErrorOptions = {}): ProviderCallError {
+  if (error instanceof ProviderCallError && !options.messagePrefix) {
+    return error;
+  }
+
+  const category = classifyProviderError(error, options.classifyBody);
+  const source = error as { message?: string; statusCode?: number; responseBody?: string } | null;
+  const message = `${options.messagePrefix ?? ''}${source?.message ?? String(error)}`;
+  const details: ProviderCallErrorDetails = {
+    provider: options.provider ?? (error instanceof ProviderCallError ? error.provider : undefined),
+    statusCode: source?.statusCode ?? statusFromMessage(message),
+    retryAfterMs: error instanceof Error ? getRetryAfterMs(error) : undefined,
+    responseBody: source?.responseBody,
+    cause: error instanceof ProviderCallError ? error.cause : error,
+  };
+
+  return category === 'unknown'
+    ? new ProviderCallError(category, message, details)
+    : new CATEGORY_CLASSES[category](message, details);
+}
+
+/**
+ * 다음 제공자로 폴백할 만한 에러인지 판단합니다. (invalid_request만 중단)
+ */
+export function isRetryableError(error: Error): boolean {
+  return toProviderCallError(error).shouldFailover;
+}
+
+/**
+ * 제공자 Rate Limit(429) 에러인지 판단합니다. (크레딧 소진 429는 quota로 분류되어 제외)
+ */
+export function isRateLimitError(error: Error): boolean {
+  return classifyProviderError(error) === 'rate_limit';
+}
@@ -0,0 +1,394 @@
+/**
+ * Provider Gate - 제공자별 동시 호출 수 / 분당 요청 수 / 분당 토큰 수 제한
+ *
+ * 폴백 체인은 시도할 제공자가 정해진 뒤 게이트에서 슬롯을 얻고 호출합니다.
+ * 429를 받은 뒤 대응하는 대신, 한도를 넘는 요청이 한꺼번에 나가지 않게 미리 대기시킵니다.
+ *
+ * - maxConcurrency: 동시에 진행 중인 호출 수 (세마포어)
+ * - requestsPerMinute: 호출 시작 빈도 (토큰 버킷, 1분 분량까지 몰아서 허용)
+ * - tokensPerMinute: 추정 토큰으로 예약하고, 호출 후 실제 사용량으로 정산 (토큰 버킷)
+ * - maxWaitMs를 넘게 기다려야 하면 ProviderRateLimitedError로 즉시 거절 (라우터는 다음 후보로)
+ *
+ * 게이트 두 종류가 함께 사용됩니다.
+ * - Provider 행 한도 (rateLimitRpm, rateLimitTpm, maxConcurrentRequests): 모든 라우터 호출에 적용
+ * - createProviderGate로 만든 게이트: runBatch 등 호출자가 options.gate로 전달
+ * 한도 상태는 프로세스 메모리에 있으므로 인스턴스별로 적용됩니다.
+ */
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 게이트에 전달하는 제공자 정보 (Provider 행의 한도 컬럼 포함)
+ */
+export interface GatedProvider {
+  id: string;
+  providerType: string;
+  rateLimitRpm?: number | null;
+  rateLimitTpm?: number | null;
+  maxConcurrentRequests?: number | null;
+}
+
+/**
+ * 슬롯 요청
+ */
+export interface ProviderGateRequest {
+  /** 중단되면 대기를 포기하고 reject */
+  signal?: AbortSignal;
+  /** 분당 토큰 한도에 예약할 추정 토큰 (입력 + 출력) */
+  tokens?: number;
+  /** 이보다 오래 기다려야 하면 ProviderRateLimitedError (없으면 무제한 대기) */
+  maxWaitMs?: number;
+}
+
+/**
+ * 슬롯 반납 함수
+ * 실제 사용 토큰을 전달하면 예약한 추정 토큰과의 차이를 정산합니다.
+ */
+export type ProviderPermit = (usedTokens?: number) => void;
+
+/**
+ * 제공자 호출 게이트
+ */
+export interface ProviderGate {
+  /**
+   * 제공자 호출 슬롯을 얻을 때까지 기다립니다.
+   * 반환된 함수로 슬롯을 반납합니다.
+   */
+  acquire(provider: GatedProvider, request?: ProviderGateRequest): Promise<ProviderPermit>;
+}
+
+/**
+ * 라우터 옵션에 게이트를 전달할 때 사용
+ */
+export interface ProviderGateOptions {
+  /** 제공자 호출 전 통과할 게이트 (예: runBatch가 만든 게이트) */
+  gate?: ProviderGate;
+  /**
+   * Provider 행 한도 때문에 이보다 오래 기다려야 하면 다음 후보로 넘어갑니다. (기본 3000ms)
+   * 마지막 후보는 넘어갈 곳이 없으므로 기다립니다.
+   */
+  rateLimitWaitMs?: number;
+}
+
+/**
+ * 제공자 한도
+ */
+export interface ProviderLimits {
+  /** 동시 호출 수 (없으면 제한 없음) */
+  maxConcurrency?: number;
+  /** 분당 호출 수 (없으면 제한 없음) */
+  requestsPerMinute?: number;
+  /** 분당 토큰 수 (없으면 제한 없음) */
+  tokensPerMinute?: number;
+}
+
+/**
+ * 한도 안에서 허용된 시간 내에 슬롯을 얻을 수 없을 때 발생하는 에러
+ * 라우터는 실패로 기록하지 않고 다음 후보로 넘어갑니다.
+ */
+export class ProviderRateLimitedError extends Error {
+  public readonly providerType: string;
+  /** 예상 대기 시간 (ms, 동시 호출 한도로 거절되면 maxWaitMs) */
+  public readonly waitMs: number;
+
+  constructor(providerType: string, waitMs: number) {
+    super(`Provider ${providerType} is rate limited on the client side (wait ~${waitMs}ms)`);
+    this.name = 'ProviderRateLimitedError';
+    this.providerType = providerType;
+    this.waitMs = waitMs;
+
+    Object.setPrototypeOf(this, ProviderRateLimitedError.prototype);
+  }
+
+  /**
+   * 사용자 친화적 에러 메시지
+   */
+  get userMessage(): string {
+    return 'AI 요청이 많아 처리가 지연되고 있습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
+
+// 다음 후보로 넘어가기 전 최대 대기 시간 기본값
+export const DEFAULT_RATE_LIMIT_WAIT_MS = 3000;
+
+// =============================================================================
+// 내부 구현
+// =============================================================================
+
+/**
+ * 중단 가능한 대기
+ */
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 대기열이 있는 세마포어 (먼저 기다린 호출이 먼저 슬롯을 얻음)
+ */
+class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * @param onTimeout - maxWaitMs 안에 슬롯을 얻지 못했을 때 발생시킬 에러
+   */
+  async acquire(signal?: AbortSignal, maxWaitMs?: number, onTimeout?: () => Error): Promise<() => void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return this.releaser();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+      };
+      const waiter = () => {
+        cleanup();
+        resolve();
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(signal?.reason);
+      };
+      const timer = maxWaitMs !== undefined
+        ? setTimeout(() => {
+            cleanup();
+            reject(onTimeout?.() ?? new Error(`Timed out after ${maxWaitMs}ms`));
+          }, maxWaitMs)
+        : undefined;
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    // 반납한 쪽이 active를 그대로 넘겨줌
+    return this.releaser();
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiters.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
+
+/**
+ * 분당 한도 토큰 버킷 (요청 수 또는 LLM 토큰 수)
+ * 1분 분량(perMinute)까지 몰아서 허용하고, 이후에는 분당 속도로 채워집니다.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private readonly refillPerMs: number;
+  // 대기열에 들어가 아직 차감되지 않은 양 (예상 대기 시간 계산용)
+  private queued = 0;
+  // 대기 순서를 지키기 위한 체인
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly perMinute: number) {
+    this.tokens = perMinute;
+    this.refillPerMs = perMinute / 60_000;
+  }
+
+  /**
+   * amount만큼 차감될 때까지 기다립니다. (한 번에 버킷 용량을 넘는 양은 용량만큼만 대기)
+   *
+   * @returns 실제로 예약한 양
+   * @throws onTooLong의 결과 - 예상 대기 시간이 maxWaitMs를 넘는 경우 (대기열에 넣지 않음)
+   */
+  take(amount: number, signal?: AbortSignal, maxWaitMs?: number, onTooLong?: (waitMs: number) => Error): Promise<number> {
+    const need = Math.min(amount, this.perMinute);
+    this.refill();
+    const expectedWaitMs = Math.max(0, Math.ceil((this.queued + need - this.tokens) / this.refillPerMs));
+    if (maxWaitMs !== undefined && expectedWaitMs > maxWaitMs) {
+      return Promise.reject(onTooLong?.(expectedWaitMs) ?? new Error(`Expected wait ${expectedWaitMs}ms`));
+    }
+
+    this.queued += need;
+    const turn = this.queue
+      .then(async () => {
+        this.refill();
+        if (this.tokens < need) {
+          await waitFor(Math.ceil((need - this.tokens) / this.refillPerMs), signal);
+          this.refill();
+        }
+        this.tokens -= need;
+        return need;
+      })
+      .finally(() => {
+        this.queued -= need;
+      });
+    // 중단된 대기가 뒤 순서를 막지 않도록 실패는 체인에서 삼킴
+    this.queue = turn.then(() => undefined, () => undefined);
+    return turn;
+  }
+
+  /**
+   * 예약량과 실제 사용량의 차이를 정산합니다. (양수면 추가 차감, 음수면 환급)
+   * 초과 사용분은 다음 요청의 대기 시간으로 반영됩니다.
+   */
+  adjust(delta: number): void {
+    this.refill();
+    this.tokens = Math.max(-this.perMinute, Math.min(this.perMinute, this.tokens - delta));
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.perMinute, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Provider 행의 한도 컬럼을 ProviderLimits로 변환합니다. (설정이 없으면 null)
+ */
+function limitsFromProvider(provider: GatedProvider): ProviderLimits | null {
+  const limits: ProviderLimits = {
+    maxConcurrency: provider.maxConcurrentRequests ?? undefined,
+    requestsPerMinute: provider.rateLimitRpm ?? undefined,
+    tokensPerMinute: provider.rateLimitTpm ?? undefined,
+  };
+  return limits.maxConcurrency || limits.requestsPerMinute || limits.tokensPerMinute ? limits : null;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 제공자별 한도를 적용하는 게이트를 만듭니다.
+ *
+ * @param options.defaults - perProvider에 없는 제공자의 한도
+ * @param options.perProvider - Provider ID 또는 providerType별 한도
+ * @param options.resolveLimits - 제공자 정보로 한도를 결정 (지정 시 defaults/perProvider 대신 사용)
+ *
+ * @example
+ * ```ts
+ * const gate = createProviderGate({
+ *   defaults: { maxConcurrency: 2 },
+ *   perProvider: { openai: { maxConcurrency: 5, requestsPerMinute: 60, tokensPerMinute: 200_000 } },
+ * });
+ * await generateWithProvider({ ...options, gate });
+ * ```
+ */
+export function createProviderGate(options: {
+  defaults?: ProviderLimits;
+  perProvider?: Record<string, ProviderLimits>;
+  resolveLimits?: (provider: GatedProvider) => ProviderLimits | null;
+} = {}): ProviderGate {
+  const semaphores = new Map<string, Semaphore>();
+  const requestBuckets = new Map<string, TokenBucket>();
+  const tokenBuckets = new Map<string, TokenBucket>();
+
+  const getOrCreate = <T>(map: Map<string, T>, key: string, create: () => T): T => {
+    let value = map.get(key);
+    if (!value) {
+      value = create();
+      map.set(key, value);
+    }
+    return value;
+  };
+
+  return {
+    async acquire(provider, request = {}) {
+      const { signal, tokens = 0, maxWaitMs } = request;
+
+      let limits: ProviderLimits | null;
+      let key: string;
+      if (options.resolveLimits) {
+        limits = options.resolveLimits(provider);
+        // 한도가 바뀌면 새 상태로 시작
+        key = `${provider.id}:${limits?.maxConcurrency}:${limits?.requestsPerMinute}:${limits?.tokensPerMinute}`;
+      } else {
+        key = options.perProvider?.[provider.id] ? provider.id : provider.providerType;
+        limits = options.perProvider?.[key] ?? options.defaults ?? null;
+      }
+      if (!limits) {
+        return () => undefined;
+      }
+
+      const rateLimited = (waitMs: number) => new ProviderRateLimitedError(provider.providerType, waitMs);
+
+      let release: () => void = () => undefined;
+      if (limits.maxConcurrency) {
+        const { maxConcurrency } = limits;
+        const semaphore = getOrCreate(semaphores, key, () => new Semaphore(maxConcurrency));
+        release = await semaphore.acquire(signal, maxWaitMs, () => rateLimited(maxWaitMs ?? 0));
+      }
+
+      const { requestsPerMinute, tokensPerMinute } = limits;
+      let requestBucket: TokenBucket | undefined;
+      let tokenBucket: TokenBucket | undefined;
+      let reservedTokens = 0;
+      try {
+        if (requestsPerMinute) {
+          const bucket = getOrCreate(requestBuckets, key, () => new TokenBucket(requestsPerMinute));
+          await bucket.take(1, signal, maxWaitMs, rateLimited);
+          requestBucket = bucket;
+        }
+        if (tokensPerMinute) {
+          tokenBucket = getOrCreate(tokenBuckets, key, () => new TokenBucket(tokensPerMinute));
+          if (tokens > 0) {
+            reservedTokens = await tokenBucket.take(tokens, signal, maxWaitMs, rateLimited);
+          }
+        }
+      } catch (error) {
+        // 분당 토큰 대기에서 실패하면 이미 차감한 요청 수를 돌려줌
+        requestBucket?.adjust(-1);
+        release();
+        throw error;
+      }
+
+      let released = false;
+      return (usedTokens?: number) => {
+        if (released) return;
+        released = true;
+        if (tokenBucket && usedTokens !== undefined) {
+          tokenBucket.adjust(usedTokens - reservedTokens);
+        }
+        release();
+      };
+    },
+  };
+}
+
+const providerRowLimiter = createProviderGate({ resolveLimits: limitsFromProvider });
+
+/**
+ * Provider 행의 한도(rateLimitRpm, rateLimitTpm, maxConcurrentRequests)를 적용하는 게이트를 반환합니다.
+ * 라우터가 모든 제공자 호출 전에 사용합니다.
+ */
+export function getProviderRateLimiter(): ProviderGate {
+  return providerRowLimiter;
+}
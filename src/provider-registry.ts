@@ -22,10 +22,15 @@ import type {
   ModelInput,
   ModelConfig,
   ValidationResult,
+  KeySelectionStrategy,
+  ProviderKeyInput,
+  ProviderKeyInfo,
+  PooledKey,
 } from './types';
 import { encryptApiKey } from './encryption.js';
 import { DEFAULT_MODELS } from './registry-defaults';
 import { validateProvider, syncProviderModels } from './registry-sync';
+import { KeyPool } from './registry-keys';
 
 // 캐시 엔트리 타입
 interface CacheEntry<T> {
@@ -46,11 +51,15 @@ export class ProviderRegistry {
   // 캐시 TTL (5분)
   private readonly CACHE_TTL_MS = 5 * 60 * 1000;
 
+  // 제공자별 다중 API 키 풀
+  private keyPool: KeyPool;
+
   /**
    * Private constructor - use getInstance() instead
    */
   private constructor(db: PrismaClient) {
     this.db = db;
+    this.keyPool = new KeyPool(db, this.CACHE_TTL_MS);
   }
 
   /**
@@ -102,6 +111,10 @@ export class ProviderRegistry {
         costTier: input.costTier,
         qualityTier: input.qualityTier,
         isEnabled: input.isEnabled ?? false,
+        keySelection: input.keySelection ?? 'round_robin',
+        rateLimitRpm: input.rateLimitRpm ?? null,
+        rateLimitTpm: input.rateLimitTpm ?? null,
+        maxConcurrentRequests: input.maxConcurrentRequests ?? null,
       },
       include: { models: true },
     });
@@ -137,6 +150,10 @@ export class ProviderRegistry {
       costTier: input.costTier,
       qualityTier: input.qualityTier,
       isEnabled: input.isEnabled,
+      keySelection: input.keySelection,
+      rateLimitRpm: input.rateLimitRpm,
+      rateLimitTpm: input.rateLimitTpm,
+      maxConcurrentRequests: input.maxConcurrentRequests,
     };
 
     // API 키가 변경되면 암호화 및 검증 상태 리셋
@@ -286,6 +303,82 @@ export class ProviderRegistry {
     );
   }
 
+  // ============================================================================
+  // Key Pool
+  // ============================================================================
+
+  /**
+   * 제공자 키 풀에 API 키를 추가합니다.
+   *
+   * @param input - 키 입력 데이터
+   * @returns 추가된 키 정보 (마스킹됨)
+   */
+  async addKey(input: ProviderKeyInput): Promise<ProviderKeyInfo> {
+    const key = await this.keyPool.add(input);
+
+    // 캐시 무효화
+    this.invalidateCache(input.providerId);
+
+    return key;
+  }
+
+  /**
+   * 키 풀에서 API 키를 삭제합니다.
+   *
+   * @param keyId - 키 ID
+   */
+  async removeKey(keyId: string): Promise<void> {
+    const providerId = await this.keyPool.remove(keyId);
+
+    // 캐시 무효화
+    if (providerId) {
+      this.invalidateCache(providerId);
+    }
+  }
+
+  /**
+   * 제공자의 키 풀을 조회합니다.
+   *
+   * @param providerId - 제공자 ID
+   * @returns 키 목록 (마스킹 및 쿨다운 상태 포함)
+   */
+  async listKeys(providerId: string): Promise<ProviderKeyInfo[]> {
+    return this.keyPool.list(providerId);
+  }
+
+  /**
+   * 제공자 키 풀에 활성화된 키가 있는지 확인합니다.
+   *
+   * @param providerId - 제공자 ID
+   */
+  async hasKeys(providerId: string): Promise<boolean> {
+    return this.keyPool.hasKeys(providerId);
+  }
+
+  /**
+   * 이번 호출에 사용할 키를 키 풀에서 선택합니다.
+   *
+   * @param providerId - 제공자 ID
+   * @param strategy - 선택 전략 (기본: round_robin)
+   * @returns 선택된 키 (모든 키가 쿨다운 중이거나 풀이 비어 있으면 null)
+   */
+  async acquireKey(
+    providerId: string,
+    strategy?: KeySelectionStrategy
+  ): Promise<PooledKey | null> {
+    return this.keyPool.acquire(providerId, strategy);
+  }
+
+  /**
+   * 429 응답을 받은 키를 쿨다운 상태로 전환합니다.
+   *
+   * @param keyId - 키 ID
+   * @param retryAfterMs - Retry-After 헤더 값 (없으면 기본 쿨다운)
+   */
+  async reportKeyThrottled(keyId: string, retryAfterMs?: number): Promise<void> {
+    await this.keyPool.reportThrottled(keyId, retryAfterMs);
+  }
+
   // ============================================================================
   // Adapter Access
   // ============================================================================
@@ -329,6 +422,7 @@ export class ProviderRegistry {
         contextWindow: input.contextWindow,
         supportsVision: input.supportsVision ?? false,
         supportsTools: input.supportsTools ?? false,
+        supportsEmbedding: input.supportsEmbedding ?? false,
         defaultParams: input.defaultParams
           ? (input.defaultParams as Prisma.InputJsonValue)
           : undefined,
@@ -369,6 +463,7 @@ export class ProviderRegistry {
         contextWindow: input.contextWindow,
         supportsVision: input.supportsVision,
         supportsTools: input.supportsTools,
+        supportsEmbedding: input.supportsEmbedding,
         defaultParams: input.defaultParams
           ? (input.defaultParams as Prisma.InputJsonValue)
           : undefined,
@@ -417,6 +512,7 @@ export class ProviderRegistry {
     } else {
       this.cache.clear();
     }
+    this.keyPool.invalidate(id);
   }
 
   /**
@@ -479,6 +575,7 @@ export class ProviderRegistry {
           contextWindow: model.contextWindow,
           supportsVision: model.supportsVision ?? false,
           supportsTools: model.supportsTools ?? false,
+          supportsEmbedding: model.supportsEmbedding ?? false,
           isDefault: model.isDefault ?? false,
         },
       });
@@ -13,7 +13,8 @@ export type FeatureType =
   | 'name_analysis'       // 이름풀이 해석
   | 'zodiac_analysis'       // 별자리 운세 해석
   | 'compatibility_analysis' // 궁합 분석
-  | 'general_chat';          // 일반 채팅
+  | 'general_chat'           // 일반 채팅
+  | 'embedding';             // 임베딩 (유사 상담/학생 검색)
 
 export interface ProviderConfig {
   name: ProviderName;
@@ -136,3 +137,9 @@ export const COST_PER_MILLION_TOKENS: Record<ProviderName, { input: number; outp
   moonshot: { input: 1.0, output: 4.0 },         // Kimi K2.5
   openrouter: { input: 2.5, output: 10.0 },      // 모델에 따라 다름 (GPT-4o 기준)
 };
+
+// 제공자 배치 API 할인 배율 (일반 가격 대비)
+export const BATCH_COST_MULTIPLIER: Partial<Record<ProviderName, number>> = {
+  openai: 0.5,
+  anthropic: 0.5,
+};
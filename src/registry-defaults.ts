@@ -3,9 +3,12 @@
  *
  * 제공자 타입별 기본 모델 설정 데이터입니다.
  * provider-registry.ts의 createDefaultModels 메서드에서 사용합니다.
+ *
+ * DEFAULT_MODEL_PRICING은 model-pricing.ts의 시딩과
+ * DB에 가격이 없을 때의 대체값으로 사용합니다.
  */
 
-import type { ProviderType, ModelInput } from './types';
+import type { ProviderType, ModelInput, ModelPrice } from './types';
 
 /**
  * 제공자 타입별 기본 모델 설정
@@ -27,6 +30,12 @@ export const DEFAULT_MODELS: Record<ProviderType, Array<Partial<ModelInput>>> =
       supportsVision: true,
       supportsTools: true,
     },
+    {
+      modelId: 'text-embedding-3-small',
+      displayName: 'Text Embedding 3 Small',
+      contextWindow: 8191,
+      supportsEmbedding: true,
+    },
   ],
   anthropic: [
     {
@@ -61,6 +70,12 @@ export const DEFAULT_MODELS: Record<ProviderType, Array<Partial<ModelInput>>> =
       supportsVision: true,
       supportsTools: true,
     },
+    {
+      modelId: 'gemini-embedding-001',
+      displayName: 'Gemini Embedding',
+      contextWindow: 2048,
+      supportsEmbedding: true,
+    },
   ],
   ollama: [
     {
@@ -71,6 +86,12 @@ export const DEFAULT_MODELS: Record<ProviderType, Array<Partial<ModelInput>>> =
       supportsTools: false,
       isDefault: true,
     },
+    {
+      modelId: 'bge-m3',
+      displayName: 'BGE-M3 (Embedding)',
+      contextWindow: 8192,
+      supportsEmbedding: true,
+    },
   ],
   deepseek: [
     {
@@ -98,6 +119,12 @@ export const DEFAULT_MODELS: Record<ProviderType, Array<Partial<ModelInput>>> =
       supportsTools: true,
       isDefault: true,
     },
+    {
+      modelId: 'mistral-embed',
+      displayName: 'Mistral Embed',
+      contextWindow: 8192,
+      supportsEmbedding: true,
+    },
   ],
   cohere: [
     {
@@ -108,6 +135,12 @@ export const DEFAULT_MODELS: Record<ProviderType, Array<Partial<ModelInput>>> =
       supportsTools: true,
       isDefault: true,
     },
+    {
+      modelId: 'embed-multilingual-v3.0',
+      displayName: 'Embed Multilingual v3',
+      contextWindow: 512,
+      supportsEmbedding: true,
+    },
   ],
   xai: [
     {
@@ -172,3 +205,50 @@ export const DEFAULT_MODELS: Record<ProviderType, Array<Partial<ModelInput>>> =
   ],
   custom: [],
 };
+
+/**
+ * 모델별 기본 가격 (USD per 1M tokens, 2026 기준)
+ * 여기에 없는 모델은 COST_PER_MILLION_TOKENS의 제공자 단위 가격을 사용합니다.
+ */
+export const DEFAULT_MODEL_PRICING: Record<ProviderType, Record<string, ModelPrice>> = {
+  openai: {
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10.0, cachedInputPerMillion: 1.25 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6, cachedInputPerMillion: 0.075 },
+    'text-embedding-3-small': { inputPerMillion: 0.02, outputPerMillion: 0 },
+  },
+  anthropic: {
+    'claude-sonnet-4-5': { inputPerMillion: 3.0, outputPerMillion: 15.0, cachedInputPerMillion: 0.3 },
+    'claude-3-5-haiku-latest': { inputPerMillion: 0.8, outputPerMillion: 4.0, cachedInputPerMillion: 0.08 },
+  },
+  google: {
+    'gemini-2.5-flash-preview-05-20': { inputPerMillion: 0.3, outputPerMillion: 2.5, cachedInputPerMillion: 0.075 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, cachedInputPerMillion: 0.075 },
+    'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4, cachedInputPerMillion: 0.025 },
+    'gemini-embedding-001': { inputPerMillion: 0.15, outputPerMillion: 0 },
+  },
+  ollama: {},
+  deepseek: {
+    'deepseek-chat': { inputPerMillion: 0.27, outputPerMillion: 1.1, cachedInputPerMillion: 0.07 },
+    'deepseek-reasoner': { inputPerMillion: 0.55, outputPerMillion: 2.19, cachedInputPerMillion: 0.14 },
+  },
+  mistral: {
+    'mistral-large-latest': { inputPerMillion: 2.0, outputPerMillion: 6.0 },
+    'mistral-embed': { inputPerMillion: 0.1, outputPerMillion: 0 },
+  },
+  cohere: {
+    'command-r-plus': { inputPerMillion: 2.5, outputPerMillion: 10.0 },
+    'embed-multilingual-v3.0': { inputPerMillion: 0.1, outputPerMillion: 0 },
+  },
+  xai: {
+    'grok-3': { inputPerMillion: 3.0, outputPerMillion: 15.0, cachedInputPerMillion: 0.75 },
+  },
+  zhipu: {},
+  moonshot: {},
+  openrouter: {
+    'openai/gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10.0, cachedInputPerMillion: 1.25 },
+    'openai/gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6, cachedInputPerMillion: 0.075 },
+    'anthropic/claude-sonnet-4-5': { inputPerMillion: 3.0, outputPerMillion: 15.0, cachedInputPerMillion: 0.3 },
+    'google/gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, cachedInputPerMillion: 0.075 },
+  },
+  custom: {},
+};
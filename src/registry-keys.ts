@@ -0,0 +1,284 @@
+/**
+ * Provider Registry - Key Pool
+ *
+ * 제공자별 다중 API 키 풀과 키 순환 로직입니다.
+ * provider-registry.ts의 키 관련 메서드에서 위임(delegate)하여 사용합니다.
+ *
+ * - 키 선택: round_robin 또는 least_recently_throttled
+ * - 429 응답을 받은 키는 Retry-After(없으면 기본 쿨다운) 동안 선택에서 제외
+ * - 쿨다운 정보는 DB에도 저장되어 다른 인스턴스와 공유됩니다.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { encryptApiKey, decryptApiKey, maskApiKey } from './encryption.js';
+import type {
+  KeySelectionStrategy,
+  ProviderKeyInput,
+  ProviderKeyInfo,
+  PooledKey,
+} from './types';
+
+// 429 응답에 Retry-After가 없을 때 기본 쿨다운 (1분)
+export const DEFAULT_KEY_COOLDOWN_MS = 60 * 1000;
+
+// Prisma 모델은 마이그레이션 후 생성됨 - 임시 타입 정의
+type ProviderKeyRow = {
+  id: string;
+  providerId: string;
+  label: string | null;
+  apiKeyEncrypted: string;
+  isEnabled: boolean;
+  lastThrottledAt: Date | null;
+  cooldownUntil: Date | null;
+  createdAt: Date;
+};
+
+// 프로세스 내 키 사용 상태
+interface KeyRuntimeState {
+  lastUsedAt: number;
+  lastThrottledAt: number;
+  cooldownUntil: number;
+}
+
+// 캐시 엔트리 타입
+interface CacheEntry<T> {
+  data: T;
+  expiresAt: number;
+}
+
+/**
+ * 제공자별 API 키 풀
+ */
+export class KeyPool {
+  private db: PrismaClient;
+  private readonly cacheTtlMs: number;
+
+  // 캐시: providerId -> 키 목록
+  private rows: Map<string, CacheEntry<ProviderKeyRow[]>> = new Map();
+
+  // keyId -> 사용/쿨다운 상태
+  private state: Map<string, KeyRuntimeState> = new Map();
+
+  // providerId -> round_robin 커서
+  private cursors: Map<string, number> = new Map();
+
+  constructor(db: PrismaClient, cacheTtlMs: number) {
+    this.db = db;
+    this.cacheTtlMs = cacheTtlMs;
+  }
+
+  /**
+   * 키를 풀에 추가합니다.
+   *
+   * @param input - 키 입력 데이터
+   * @returns 추가된 키 정보 (마스킹됨)
+   */
+  async add(input: ProviderKeyInput): Promise<ProviderKeyInfo> {
+    const row: ProviderKeyRow = await this.db.providerKey.create({
+      data: {
+        providerId: input.providerId,
+        label: input.label ?? null,
+        apiKeyEncrypted: encryptApiKey(input.apiKey),
+        isEnabled: input.isEnabled ?? true,
+      },
+    });
+
+    this.invalidate(input.providerId);
+    return this.toInfo(row, Date.now());
+  }
+
+  /**
+   * 키를 풀에서 삭제합니다.
+   *
+   * @param keyId - 키 ID
+   * @returns 키가 속해 있던 제공자 ID (없으면 null)
+   */
+  async remove(keyId: string): Promise<string | null> {
+    const row: ProviderKeyRow | null = await this.db.providerKey.findUnique({
+      where: { id: keyId },
+    });
+
+    if (!row) {
+      return null;
+    }
+
+    await this.db.providerKey.delete({
+      where: { id: keyId },
+    });
+
+    this.state.delete(keyId);
+    this.invalidate(row.providerId);
+    return row.providerId;
+  }
+
+  /**
+   * 제공자의 키 목록을 조회합니다.
+   *
+   * @param providerId - 제공자 ID
+   * @returns 키 목록 (마스킹됨)
+   */
+  async list(providerId: string): Promise<ProviderKeyInfo[]> {
+    const rows = await this.load(providerId);
+    const now = Date.now();
+    return rows.map((row) => this.toInfo(row, now));
+  }
+
+  /**
+   * 제공자에 활성화된 키가 하나라도 있는지 확인합니다.
+   *
+   * @param providerId - 제공자 ID
+   */
+  async hasKeys(providerId: string): Promise<boolean> {
+    const rows = await this.load(providerId);
+    return rows.some((row) => row.isEnabled);
+  }
+
+  /**
+   * 이번 호출에 사용할 키를 선택합니다.
+   *
+   * @param providerId - 제공자 ID
+   * @param strategy - 선택 전략
+   * @returns 선택된 키 (사용 가능한 키가 없으면 null)
+   */
+  async acquire(
+    providerId: string,
+    strategy: KeySelectionStrategy = 'round_robin'
+  ): Promise<PooledKey | null> {
+    const rows = await this.load(providerId);
+    const now = Date.now();
+
+    const available = rows.filter(
+      (row) => row.isEnabled && this.cooldownUntil(row) <= now
+    );
+
+    if (available.length === 0) {
+      return null;
+    }
+
+    let selected: ProviderKeyRow;
+
+    if (strategy === 'least_recently_throttled') {
+      // 429를 가장 오래전에 받은 키 → 가장 오래전에 사용한 키 순
+      selected = [...available].sort((a, b) => {
+        const throttled = this.lastThrottledAt(a) - this.lastThrottledAt(b);
+        if (throttled !== 0) return throttled;
+        return (this.state.get(a.id)?.lastUsedAt ?? 0) - (this.state.get(b.id)?.lastUsedAt ?? 0);
+      })[0];
+    } else {
+      const cursor = this.cursors.get(providerId) ?? 0;
+      selected = available[cursor % available.length];
+      this.cursors.set(providerId, cursor + 1);
+    }
+
+    this.getState(selected.id).lastUsedAt = now;
+
+    return {
+      keyId: selected.id,
+      apiKeyEncrypted: selected.apiKeyEncrypted,
+    };
+  }
+
+  /**
+   * 429 응답을 받은 키를 쿨다운 상태로 전환합니다.
+   *
+   * @param keyId - 키 ID
+   * @param retryAfterMs - Retry-After 헤더 값 (없으면 기본 쿨다운)
+   */
+  async reportThrottled(keyId: string, retryAfterMs?: number): Promise<void> {
+    const now = Date.now();
+    const state = this.getState(keyId);
+    state.lastThrottledAt = now;
+    state.cooldownUntil = now + (retryAfterMs ?? DEFAULT_KEY_COOLDOWN_MS);
+
+    try {
+      await this.db.providerKey.update({
+        where: { id: keyId },
+        data: {
+          lastThrottledAt: new Date(state.lastThrottledAt),
+          cooldownUntil: new Date(state.cooldownUntil),
+        },
+      });
+    } catch (error) {
+      // 쿨다운은 메모리 상태만으로도 동작하므로 저장 실패는 기록만 함
+      console.error(`[Key Pool] Failed to persist cooldown for key ${keyId}:`, error);
+    }
+  }
+
+  /**
+   * 키 목록 캐시를 무효화합니다. (사용/쿨다운 상태는 유지)
+   *
+   * @param providerId - 제공자 ID (없으면 전체 캐시 무효화)
+   */
+  invalidate(providerId?: string): void {
+    if (providerId) {
+      this.rows.delete(providerId);
+    } else {
+      this.rows.clear();
+    }
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  private async load(providerId: string): Promise<ProviderKeyRow[]> {
+    const cached = this.rows.get(providerId);
+    if (cached && Date.now() <= cached.expiresAt) {
+      return cached.data;
+    }
+
+    const rows: ProviderKeyRow[] = await this.db.providerKey.findMany({
+      where: { providerId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    this.rows.set(providerId, {
+      data: rows,
+      expiresAt: Date.now() + this.cacheTtlMs,
+    });
+
+    return rows;
+  }
+
+  private getState(keyId: string): KeyRuntimeState {
+    let state = this.state.get(keyId);
+    if (!state) {
+      state = { lastUsedAt: 0, lastThrottledAt: 0, cooldownUntil: 0 };
+      this.state.set(keyId, state);
+    }
+    return state;
+  }
+
+  // 메모리 상태와 DB에 저장된 값 중 더 최근 값을 사용
+  private cooldownUntil(row: ProviderKeyRow): number {
+    return Math.max(
+      this.state.get(row.id)?.cooldownUntil ?? 0,
+      row.cooldownUntil?.getTime() ?? 0
+    );
+  }
+
+  private lastThrottledAt(row: ProviderKeyRow): number {
+    return Math.max(
+      this.state.get(row.id)?.lastThrottledAt ?? 0,
+      row.lastThrottledAt?.getTime() ?? 0
+    );
+  }
+
+  private toInfo(row: ProviderKeyRow, now: number): ProviderKeyInfo {
+    const lastUsedAt = this.state.get(row.id)?.lastUsedAt;
+    const lastThrottledAt = this.lastThrottledAt(row);
+    const cooldownUntil = this.cooldownUntil(row);
+
+    return {
+      id: row.id,
+      providerId: row.providerId,
+      label: row.label,
+      maskedKey: maskApiKey(decryptApiKey(row.apiKeyEncrypted)),
+      isEnabled: row.isEnabled,
+      lastUsedAt: lastUsedAt ? new Date(lastUsedAt) : null,
+      lastThrottledAt: lastThrottledAt ? new Date(lastThrottledAt) : null,
+      cooldownUntil: cooldownUntil ? new Date(cooldownUntil) : null,
+      isCoolingDown: cooldownUntil > now,
+    };
+  }
+}
@@ -7,6 +7,7 @@
 
 import type { PrismaClient } from '@prisma/client';
 import { getAdapter } from './adapters';
+import { importModelPricing } from './model-pricing';
 import type {
   ProviderType,
   ProviderWithModels,
@@ -103,6 +104,7 @@ export async function syncProviderModels(
           contextWindow: model.contextWindow,
           supportsVision: model.supportsVision,
           supportsTools: model.supportsTools,
+          supportsEmbedding: model.supportsEmbedding ?? false,
         },
       });
     }
@@ -119,6 +121,14 @@ export async function syncProviderModels(
     }
   }
 
+  // 제공자 API가 가격을 알려주면 가격 레지스트리에 반영 (예: OpenRouter)
+  if (models.some((m) => m.pricing)) {
+    const imported = await importModelPricing(provider.providerType as ProviderType, models);
+    if (imported > 0) {
+      console.info(`[Registry Sync] Imported pricing for ${imported} ${provider.providerType} models`);
+    }
+  }
+
   // 캐시 무효화
   invalidateCache(provider.id);
 
@@ -0,0 +1,314 @@
+/**
+ * Response Cache - 결정적 분석 프롬프트 응답 캐시
+ *
+ * 같은 입력(기능, 모델, 시스템 프롬프트, 프롬프트, 파라미터)으로 다시 생성하는 요청을
+ * 캐시된 응답으로 대신합니다. (예: 같은 SajuResult로 사주 해석 재생성)
+ *
+ * - 라우터 옵션 cache로 요청별 opt-in
+ * - 캐시 키: 입력 전체의 SHA-256 해시
+ * - TTL 만료 및 키/기능 단위 수동 무효화
+ * - 저장소 교체 가능: MemoryResponseCacheStore(기본), PrismaResponseCacheStore
+ */
+
+import { createHash } from 'crypto';
+import type { PrismaClient } from '@prisma/client';
+import type { LanguageModelUsage } from 'ai';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 캐시된 응답
+ */
+export interface CachedResponse {
+  text: string;
+  usage: LanguageModelUsage;
+  provider: string;
+  model: string;
+  featureType: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * 응답 캐시 저장소
+ */
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** 기능 단위 무효화 */
+  deleteByFeature(featureType: string): Promise<number>;
+  clear(): Promise<void>;
+}
+
+/**
+ * 라우터 호출별 캐시 옵션
+ */
+export interface ResponseCacheOptions {
+  /** 캐시 유지 시간 (ms, 기본: configureResponseCache의 defaultTtlMs) */
+  ttlMs?: number;
+  /** 키에 포함할 추가 구분자 (예: 프롬프트 ID/버전) */
+  namespace?: string;
+}
+
+/**
+ * 캐시 키 입력
+ */
+export interface ResponseCacheKeyInput {
+  featureType: string;
+  provider: string;
+  model: string;
+  system?: string;
+  prompt?: string;
+  messages?: unknown[];
+  params?: Record<string, unknown>;
+  namespace?: string;
+}
+
+// Prisma 모델은 마이그레이션 후 생성됨 - 임시 타입 정의
+type ResponseCacheRow = {
+  key: string;
+  featureType: string;
+  provider: string;
+  modelId: string;
+  text: string;
+  usage: unknown;
+  createdAt: Date;
+  expiresAt: Date;
+};
+
+// =============================================================================
+// 저장소 구현
+// =============================================================================
+
+/**
+ * 프로세스 메모리 저장소
+ * maxEntries를 넘으면 가장 오래 전에 저장된 항목부터 제거합니다.
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private entries: Map<string, CachedResponse> = new Map();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteByFeature(featureType: string): Promise<number> {
+    let deleted = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.featureType === featureType) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Prisma 저장소 (LLMResponseCache 테이블)
+ * 여러 인스턴스가 캐시를 공유합니다. 만료된 행은 조회 시 삭제합니다.
+ */
+export class PrismaResponseCacheStore implements ResponseCacheStore {
+  constructor(private readonly db: PrismaClient) {}
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const row = (await this.db.lLMResponseCache.findUnique({
+      where: { key },
+    })) as ResponseCacheRow | null;
+    if (!row) return null;
+
+    if (row.expiresAt.getTime() <= Date.now()) {
+      await this.db.lLMResponseCache.deleteMany({ where: { key } });
+      return null;
+    }
+
+    return {
+      text: row.text,
+      usage: row.usage as LanguageModelUsage,
+      provider: row.provider,
+      model: row.modelId,
+      featureType: row.featureType,
+      createdAt: row.createdAt,
+      expiresAt: row.expiresAt,
+    };
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    const data = {
+      featureType: entry.featureType,
+      provider: entry.provider,
+      modelId: entry.model,
+      text: entry.text,
+      usage: JSON.parse(JSON.stringify(entry.usage)),
+      createdAt: entry.createdAt,
+      expiresAt: entry.expiresAt,
+    };
+
+    await this.db.lLMResponseCache.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.db.lLMResponseCache.deleteMany({ where: { key } });
+  }
+
+  async deleteByFeature(featureType: string): Promise<number> {
+    const result = await this.db.lLMResponseCache.deleteMany({ where: { featureType } });
+    return result.count;
+  }
+
+  async clear(): Promise<void> {
+    await this.db.lLMResponseCache.deleteMany({});
+  }
+}
+
+// =============================================================================
+// 설정
+// =============================================================================
+
+// 기본 캐시 유지 시간 (24시간)
+export const DEFAULT_RESPONSE_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+let store: ResponseCacheStore = new MemoryResponseCacheStore();
+let defaultTtlMs = DEFAULT_RESPONSE_CACHE_TTL_MS;
+
+/**
+ * 응답 캐시 저장소와 기본 TTL을 설정합니다.
+ *
+ * @param options.store - 캐시 저장소 (예: new PrismaResponseCacheStore(db))
+ * @param options.defaultTtlMs - 기본 캐시 유지 시간
+ */
+export function configureResponseCache(options: { store?: ResponseCacheStore; defaultTtlMs?: number }): void {
+  if (options.store) store = options.store;
+  if (options.defaultTtlMs !== undefined) defaultTtlMs = options.defaultTtlMs;
+}
+
+/**
+ * 현재 응답 캐시 저장소를 반환합니다.
+ */
+export function getResponseCacheStore(): ResponseCacheStore {
+  return store;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 요청 입력으로 캐시 키를 만듭니다.
+ * 같은 입력이면 항상 같은 키가 나오도록 필드 순서를 고정합니다.
+ */
+export function buildResponseCacheKey(input: ResponseCacheKeyInput): string {
+  const params = input.params ?? {};
+  const sortedParams = Object.fromEntries(
+    Object.keys(params)
+      .sort()
+      .filter((k) => params[k] !== undefined)
+      .map((k) => [k, params[k]])
+  );
+
+  const payload = JSON.stringify([
+    input.namespace ?? null,
+    input.featureType,
+    input.provider,
+    input.model,
+    input.system ?? null,
+    input.prompt ?? null,
+    input.messages ?? null,
+    sortedParams,
+  ]);
+
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * 캐시된 응답을 조회합니다.
+ * 저장소 오류는 요청을 실패시키지 않고 캐시 미스로 처리합니다.
+ */
+export async function readResponseCache(key: string): Promise<CachedResponse | null> {
+  try {
+    return await store.get(key);
+  } catch (error) {
+    console.warn('[Response Cache] Read failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * 응답을 캐시에 저장합니다.
+ * 저장소 오류는 요청을 실패시키지 않고 경고만 남깁니다.
+ */
+export async function writeResponseCache(
+  key: string,
+  response: Omit<CachedResponse, 'createdAt' | 'expiresAt'>,
+  ttlMs: number = defaultTtlMs
+): Promise<void> {
+  const now = Date.now();
+  try {
+    await store.set(key, {
+      ...response,
+      createdAt: new Date(now),
+      expiresAt: new Date(now + ttlMs),
+    });
+  } catch (error) {
+    console.warn('[Response Cache] Write failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * 캐시를 수동으로 무효화합니다.
+ *
+ * @param target.key - 특정 캐시 키
+ * @param target.featureType - 기능의 모든 캐시
+ * @returns 삭제된 항목 수 (키 지정 시 1)
+ */
+export async function invalidateResponseCache(target: { key?: string; featureType?: string }): Promise<number> {
+  if (target.key) {
+    await store.delete(target.key);
+    return 1;
+  }
+  if (target.featureType) {
+    return store.deleteByFeature(target.featureType);
+  }
+  return 0;
+}
+
+/**
+ * 모든 캐시를 비웁니다.
+ */
+export async function clearResponseCache(): Promise<void> {
+  await store.clear();
+}
@@ -0,0 +1,273 @@
+/**
+ * Response Guard - 응답 품질 검사
+ *
+ * 제공자 호출은 성공했지만 쓸 수 없는 응답을 감지합니다.
+ * - refusal: 모델이 요청을 거부 (언어별 패턴, 짧은 응답만 검사)
+ * - empty: 빈 응답
+ * - truncated: 출력 토큰 한도로 잘림 (finishReason === 'length')
+ * - invalid_json: JSON을 기대했지만 JSON을 찾을 수 없음 (앞뒤 설명문과 코드 펜스는 허용)
+ *
+ * 검사별 처리 방식(action)은 기능별로 설정합니다.
+ * - failover: 다음 후보로 넘어감
+ * - retry: 같은 모델로 다시 요청 (재시도 횟수는 maxRetries 공유, 다 쓰면 폴백)
+ * - pass: 그대로 반환 (사용량에는 품질 문제로 기록)
+ *
+ * 감지된 응답은 토큰을 사용했으므로 모두 사용량(qualityIssue)에 기록됩니다.
+ * 스트리밍은 첫 토큰 이후 결과를 바꿀 수 없으므로 검사하지 않습니다.
+ */
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+export type ResponseGuardKind = 'refusal' | 'empty' | 'truncated' | 'invalid_json';
+
+export type ResponseGuardAction = 'failover' | 'retry' | 'pass';
+
+/**
+ * 기능별 검사 정책
+ */
+export interface ResponseGuardPolicy {
+  refusal?: ResponseGuardAction;
+  empty?: ResponseGuardAction;
+  truncated?: ResponseGuardAction;
+  invalidJson?: ResponseGuardAction;
+  /** 응답이 JSON이어야 하는 기능 (invalidJson 검사 활성화) */
+  expectJson?: boolean;
+}
+
+/**
+ * 응답 검사 설정
+ */
+export interface ResponseGuardConfig {
+  /** 언어별 거부 응답 패턴 (응답 시작 부분과 비교) */
+  refusalPatterns: Record<string, RegExp[]>;
+  /** 이보다 긴 응답은 거부 검사를 하지 않음 (정상 응답 속 문장 오탐 방지) */
+  maxRefusalLength: number;
+  /** 모든 기능의 기본 정책 */
+  defaults: ResponseGuardPolicy;
+  /** 기능별 정책 (defaults 위에 덮어씀) */
+  perFeature: Record<string, ResponseGuardPolicy>;
+}
+
+/**
+ * 검사 대상 응답
+ */
+export interface GuardedResponse {
+  text: string;
+  finishReason?: string;
+  /** 도구 호출로 끝난 응답처럼 빈 텍스트가 정상인 경우 */
+  allowEmpty?: boolean;
+}
+
+/**
+ * 감지된 품질 문제
+ */
+export interface ResponseIssue {
+  kind: ResponseGuardKind;
+  action: ResponseGuardAction;
+}
+
+// =============================================================================
+// 기본 설정
+// =============================================================================
+
+export const DEFAULT_REFUSAL_PATTERNS: Record<string, RegExp[]> = {
+  en: [
+    /^I('m| am) sorry,? I (can't|cannot|won't|will not)/i,
+    /^I('m| am) not able to/i,
+    /^I (can't|cannot) assist with/i,
+    /^I('m| am) unable to/i,
+    /^Sorry,? (but )?I (can't|cannot)/i,
+    /^As an AI,? I (can't|cannot|don't)/i,
+    /^I apologize,? but I (can't|cannot)/i,
+  ],
+  ko: [
+    /^(죄송|미안)(하지만|합니다만|합니다|해요)[,.]?\s*[^\n]{0,80}(도와|답변|제공|응답|분석|수행|처리|작성)[^\n]{0,20}수\s?(없|가 없)/,
+    /^(죄송|미안)(하지만|합니다만|합니다|해요)[,.]?\s*[^\n]{0,40}(요청|질문)[^\n]{0,40}(응할|따를|처리할)\s?수\s?(없|가 없)/,
+    /^(저는|제가)?\s*AI(로서| 언어 ?모델로서| 어시스턴트로서)[^\n]{0,80}수\s?(없|가 없)/,
+    /^(해당|이|그)\s?(요청|질문)(에는|은|는)\s?[^\n]{0,40}(도와|답변|응)[^\n]{0,20}수\s?(없|가 없)/,
+  ],
+};
+
+export const DEFAULT_RESPONSE_GUARD_CONFIG: ResponseGuardConfig = {
+  refusalPatterns: DEFAULT_REFUSAL_PATTERNS,
+  maxRefusalLength: 500,
+  defaults: {
+    refusal: 'failover',
+    empty: 'failover',
+    truncated: 'pass',
+    invalidJson: 'failover',
+  },
+  perFeature: {
+    // 출력 형식이 JSON으로 지정된 기능
+    face_analysis: { expectJson: true },
+    palm_analysis: { expectJson: true },
+    compatibility_analysis: { expectJson: true },
+  },
+};
+
+let config: ResponseGuardConfig = DEFAULT_RESPONSE_GUARD_CONFIG;
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+/**
+ * JSON으로 해석되는지 확인합니다. (parseJsonResponse와 같은 추출 규칙)
+ */
+function isJsonText(text: string): boolean {
+  const candidate = extractJsonCandidate(text);
+  if (candidate === null) return false;
+  try {
+    JSON.parse(candidate);
+    return true;
+  } catch {
+    try {
+      JSON.parse(repairJsonCandidate(candidate));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * LLM 텍스트 응답에서 JSON 부분을 꺼냅니다.
+ * - 코드 펜스(```json)가 있으면 그 안쪽
+ * - 앞뒤 설명 문장 제거 (첫 `{`/`[`부터 마지막 `}`/`]`까지)
+ *
+ * @returns JSON 후보 문자열, JSON 괄호가 없으면 null
+ */
+export function extractJsonCandidate(text: string): string | null {
+  let candidate = text.trim();
+
+  const fenced = candidate.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    candidate = fenced[1].trim();
+  }
+
+  const start = candidate.search(/[[{]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    return null;
+  }
+  return candidate.slice(start, end + 1);
+}
+
+/**
+ * 흔한 JSON 형식 오류를 복구합니다. (닫는 괄호 앞의 trailing comma 제거)
+ */
+export function repairJsonCandidate(candidate: string): string {
+  return candidate.replace(/,\s*([}\]])/g, '$1');
+}
+
+/**
+ * 응답 검사 설정을 변경합니다.
+ * refusalPatterns와 perFeature는 언어/기능 단위로 병합됩니다.
+ *
+ * @example
+ * ```ts
+ * configureResponseGuard({
+ *   refusalPatterns: { ja: [/^申し訳(ありません|ございません)が/] },
+ *   perFeature: { report_generate: { truncated: 'retry' } },
+ * });
+ * ```
+ */
+export function configureResponseGuard(overrides: Partial<ResponseGuardConfig>): ResponseGuardConfig {
+  config = {
+    ...config,
+    ...overrides,
+    refusalPatterns: { ...config.refusalPatterns, ...overrides.refusalPatterns },
+    defaults: { ...config.defaults, ...overrides.defaults },
+    perFeature: { ...config.perFeature, ...overrides.perFeature },
+  };
+  return config;
+}
+
+/**
+ * 기능의 검사 정책을 반환합니다. (기본값 ← 기능별 설정 ← 호출 옵션)
+ */
+export function getResponseGuardPolicy(featureType: string, override?: ResponseGuardPolicy): ResponseGuardPolicy {
+  return { ...config.defaults, ...config.perFeature[featureType], ...override };
+}
+
+/**
+ * 짧은 응답이 거부 응답 패턴과 일치하는지 확인합니다.
+ */
+export function isRefusalText(text: string): boolean {
+  const trimmed = text.trim();
+  if (trimmed.length > config.maxRefusalLength) return false;
+  return Object.values(config.refusalPatterns).some((patterns) =>
+    patterns.some((pattern) => pattern.test(trimmed))
+  );
+}
+
+/**
+ * 응답의 품질 문제를 감지합니다.
+ *
+ * @param featureType - 기능 타입 (정책 결정)
+ * @param response - 응답 텍스트와 종료 사유
+ * @param override - 호출 단위 정책
+ * @returns 감지된 문제 (없거나 정책상 검사하지 않으면 null)
+ */
+export function inspectResponse(
+  featureType: string,
+  response: GuardedResponse,
+  override?: ResponseGuardPolicy
+): ResponseIssue | null {
+  const policy = getResponseGuardPolicy(featureType, override);
+  const text = response.text.trim();
+
+  const issue = (kind: ResponseGuardKind, action: ResponseGuardAction | undefined): ResponseIssue | null =>
+    action ? { kind, action } : null;
+
+  if (!text) {
+    return response.allowEmpty ? null : issue('empty', policy.empty);
+  }
+  if (isRefusalText(text)) {
+    return issue('refusal', policy.refusal);
+  }
+  if (response.finishReason === 'length') {
+    return issue('truncated', policy.truncated);
+  }
+  if (policy.expectJson && !isJsonText(text)) {
+    return issue('invalid_json', policy.invalidJson);
+  }
+  return null;
+}
+
+/**
+ * 응답 검사에서 걸러진 응답 (action이 failover 또는 retry)
+ * 폴백 체인은 실패로 기록하지 않고 retry면 같은 모델, failover면 다음 후보로 넘어갑니다.
+ */
+export class ResponseQualityError extends Error {
+  public readonly kind: ResponseGuardKind;
+  public readonly action: ResponseGuardAction;
+  public readonly modelId: string;
+
+  constructor(kind: ResponseGuardKind, action: ResponseGuardAction, modelId: string, text: string) {
+    super(
+      kind === 'refusal'
+        ? `Model ${modelId} refused: ${text.slice(0, 100)}`
+        : `Model ${modelId} returned ${kind} response: ${text.slice(0, 100)}`
+    );
+    this.name = 'ResponseQualityError';
+    this.kind = kind;
+    this.action = action;
+    this.modelId = modelId;
+
+    Object.setPrototypeOf(this, ResponseQualityError.prototype);
+  }
+
+  /**
+   * 사용자 친화적 에러 메시지
+   */
+  get userMessage(): string {
+    return 'AI 응답을 처리할 수 없습니다. 잠시 후 다시 시도해주세요.';
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Retry Policy - 같은 제공자 재시도 (지수 백오프 + Retry-After)
+ *
+ * 일시적인 429/5xx/네트워크 오류는 곧바로 (대개 더 비싼) 다음 제공자로 넘어가는 대신
+ * 같은 제공자에서 몇 번 더 시도합니다. 재시도 횟수를 다 쓴 뒤에만 다음 후보로 폴백합니다.
+ *
+ * - 대기 시간: Retry-After 헤더가 있으면 그 값, 없으면 retryBaseDelayMs * 2^n에 지터 적용
+ * - Retry-After가 retryMaxDelayMs보다 길거나 전체 기한을 넘기면 기다리지 않고 폴백
+ * - 시도 제한 시간(timeoutMs) 초과는 재시도하지 않고 폴백 (느린 제공자에 시간을 더 쓰지 않음)
+ */
+
+import { getRetryAfterMs, toProviderCallError } from './provider-errors';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 라우터 옵션의 재시도 설정
+ */
+export interface RetryOptions {
+  /** 같은 제공자 재시도 횟수 (기본 2, 0이면 곧바로 폴백) */
+  maxRetries?: number;
+  /** 첫 재시도 대기 시간 (ms, 기본 500) - 재시도마다 2배 */
+  retryBaseDelayMs?: number;
+  /** 재시도 1회 대기 상한 (ms, 기본 10000) - Retry-After가 이보다 길면 폴백 */
+  retryMaxDelayMs?: number;
+}
+
+export const DEFAULT_MAX_RETRIES = 2;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 10_000;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 같은 제공자에서 재시도할 만한 일시적 오류인지 판단합니다. (rate_limit, server, network)
+ */
+export function isTransientError(error: Error): boolean {
+  return toProviderCallError(error).transient;
+}
+
+/**
+ * 다음 재시도까지 기다릴 시간을 계산합니다.
+ *
+ * @param error - 직전 시도의 에러
+ * @param retryIndex - 이미 수행한 재시도 횟수 (0부터)
+ * @param options - 재시도 설정
+ * @param remainingMs - 전체 기한까지 남은 시간 (없으면 무제한)
+ * @returns 대기 시간 (ms), 재시도하지 않아야 하면 null
+ */
+export function getRetryDelayMs(
+  error: Error,
+  retryIndex: number,
+  options: RetryOptions = {},
+  remainingMs?: number
+): number | null {
+  const {
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryBaseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+    retryMaxDelayMs = DEFAULT_RETRY_MAX_DELAY_MS,
+  } = options;
+
+  if (retryIndex >= maxRetries || !isTransientError(error)) {
+    return null;
+  }
+
+  const retryAfterMs = getRetryAfterMs(error);
+  let delayMs: number;
+  if (retryAfterMs !== undefined) {
+    // 제공자가 알려준 대기 시간이 너무 길면 다음 후보로 넘어가는 편이 빠름
+    if (retryAfterMs > retryMaxDelayMs) {
+      return null;
+    }
+    delayMs = retryAfterMs;
+  } else {
+    // 지수 백오프 상한의 50~100% 범위에서 무작위 (동시 재시도가 몰리지 않도록)
+    const capMs = Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** retryIndex);
+    delayMs = Math.round(capMs / 2 + Math.random() * (capMs / 2));
+  }
+
+  // 기다린 뒤 시도할 시간이 남지 않으면 재시도하지 않음
+  if (remainingMs !== undefined && delayMs >= remainingMs) {
+    return null;
+  }
+
+  return delayMs;
+}
@@ -0,0 +1,624 @@
+/**
+ * Router Chain
+ *
+ * Universal/Vision/Object Router가 공유하는 제공자 폴백 루프입니다.
+ * 각 제공자 시도마다 준비 상태 확인, 취소/시간 제한 신호 전달,
+ * 실패 기록, 같은 제공자 재시도, 폴백 여부 판단을 일관되게 처리합니다.
+ *
+ * hedgeDelayMs가 있으면 첫 후보가 그 시간 안에 응답하지 않을 때 나머지 후보 체인을
+ * 동시에 시작하고, 먼저 성공한 결과를 사용한 뒤 다른 쪽은 취소합니다. (헤지 요청)
+ */
+
+import { trackFailure } from './usage-tracker';
+import { isRetryableError, getRetryAfterMs } from './provider-errors';
+import { FailoverError, type ProviderError, type ProviderAttemptOutcome } from './failover';
+import {
+  RequestDeadline,
+  RequestAbortedError,
+  createAbortSignal,
+  type AttemptScope,
+  type CancellationOptions,
+} from './cancellation';
+import {
+  getProviderRateLimiter,
+  ProviderRateLimitedError,
+  DEFAULT_RATE_LIMIT_WAIT_MS,
+  type ProviderGate,
+  type ProviderGateOptions,
+  type ProviderPermit,
+} from './provider-gate';
+import { getRetryDelayMs, DEFAULT_MAX_RETRIES, type RetryOptions } from './retry-policy';
+import { ResponseQualityError } from './response-guard';
+import { acquireCircuitTrial } from './circuit-breaker';
+import {
+  type Provider,
+  type Model,
+  isProviderReady,
+  leaseProviderKey,
+  reportKeyThrottled,
+  normalizeProviderError,
+} from './router-utils';
+import type { ProviderName, FeatureType } from './providers/types';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 폴백 체인 후보 (제공자 + 모델)
+ */
+export interface ProviderCandidate {
+  provider: Provider;
+  model: Model;
+}
+
+/**
+ * 제공자 호출 전 조회(lookup)에 전달되는 컨텍스트
+ */
+export interface ProviderLookupContext extends ProviderCandidate {
+  /** 후보 목록에서의 위치 (0부터) */
+  index: number;
+  isFailover: boolean;
+  failoverFrom?: ProviderName;
+  startTime: number;
+}
+
+/**
+ * 제공자 1회 시도에 전달되는 컨텍스트
+ */
+export interface ProviderAttemptContext extends ProviderLookupContext {
+  /** 키 풀에서 선택한 키 ID (provider.apiKeyEncrypted에 이미 적용됨) */
+  keyId?: string;
+  /** 같은 제공자 재시도 번호 (첫 시도는 0) */
+  retryAttempt: number;
+  /** 헤지 요청으로 다른 후보와 경쟁 중인지 (시작 후 바뀔 수 있으므로 사용량 기록 시점에 호출) */
+  isHedged: () => boolean;
+  /** 이번 시도에 전달할 취소 신호 */
+  signal: AbortSignal;
+  /** 전체 기한까지 남은 시간 (기한이 없으면 undefined) */
+  remainingMs?: number;
+  /**
+   * 게이트 슬롯 반납을 시도 함수가 맡습니다. (스트림처럼 반환 후에도 호출이 계속되는 경우)
+   * 시도가 성공하면 체인은 슬롯을 반납하지 않으므로, 반환된 함수를 호출이 끝날 때 호출해야 합니다.
+   * 시도가 실패하면 체인이 그대로 반납합니다.
+   */
+  holdPermits: () => ProviderPermit;
+}
+
+/**
+ * 게이트 대기와 키 대여 전에 실행하는 조회 (예: 응답 캐시)
+ * 결과를 반환하면 제공자를 호출하지 않고 그 결과를 사용합니다. (null이면 시도 진행)
+ */
+export type ProviderLookup<T> = (context: ProviderLookupContext) => Promise<T | null>;
+
+/**
+ * 폴백 체인 옵션
+ */
+export interface ProviderChainOptions extends CancellationOptions, ProviderGateOptions, RetryOptions {
+  featureType: string;
+  teacherId?: string;
+  /** 후보를 건너뛸 사유를 반환합니다 (null이면 시도) */
+  skipReason?: (candidate: ProviderCandidate) => string | null;
+  /** 실패 후 다음 제공자로 폴백할지 결정 (기본: isRetryableError) */
+  shouldFailover?: (error: Error) => boolean;
+  /** 모든 후보가 실패했을 때 발생시킬 에러 (기본: 시도 기록을 담은 FailoverError) */
+  buildExhaustedError?: (lastError: Error | null, attempts: ProviderError[]) => Error;
+  /** 분당 토큰 한도에 예약할 후보별 추정 토큰 (입력 + 출력) */
+  estimateTokens?: (candidate: ProviderCandidate) => number;
+  /**
+   * 헤지 요청 지연 (ms) — 첫 후보가 이 시간 안에 응답하지 않으면 다음 후보를 동시에 시작
+   * 부수 효과가 있는 호출(세션 저장, 도구 실행)에는 지정하지 않아야 합니다.
+   */
+  hedgeDelayMs?: number;
+}
+
+/**
+ * 모델이 요청을 거부했을 때 시도 함수에서 발생시키는 에러
+ * 실패 기록 없이 다음 제공자로 넘어갑니다.
+ */
+export class RefusalError extends ResponseQualityError {
+  constructor(modelId: string, text: string) {
+    super('refusal', 'failover', modelId, text);
+    this.name = 'RefusalError';
+
+    Object.setPrototypeOf(this, RefusalError.prototype);
+  }
+}
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+/**
+ * 폴백 체인 1개의 실행 범위
+ * 헤지 요청은 첫 후보 체인과 나머지 후보 체인을 각각의 레인으로 동시에 실행합니다.
+ */
+interface ChainLane {
+  /** 시도할 후보 범위 [start, end) */
+  start: number;
+  end: number;
+  /** 다른 레인과 경쟁 중인지 */
+  isHedged: () => boolean;
+  /** 다른 레인이 먼저 성공해 취소됨 */
+  lost: boolean;
+  /** 폴백할 수 없는 에러로 중단됨 (다른 레인도 시작하지 않음) */
+  stopped: boolean;
+}
+
+/**
+ * 시도 결과에서 실제 사용 토큰을 꺼냅니다. (텍스트: totalTokens, 임베딩: tokens)
+ * 스트림처럼 호출 시점에 알 수 없으면 undefined — 예약한 추정치가 그대로 유지됩니다.
+ */
+function usedTokensOf(result: unknown): number | undefined {
+  const usage = (result as { usage?: { totalTokens?: number; tokens?: number } } | null)?.usage;
+  return usage?.totalTokens ?? usage?.tokens;
+}
+
+/**
+ * 재시도 전 대기 (호출자가 취소하면 reject)
+ */
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 후보 순서대로 시도 함수를 실행하고, 첫 성공 결과를 반환합니다.
+ *
+ * @param candidates - FeatureResolver 등으로 결정된 제공자 순서
+ * @param options - 기능 타입, 취소/시간 제한, 폴백 정책
+ * @param attempt - 제공자 1회 시도 (성공 시 사용량 기록은 시도 함수가 담당)
+ * @param lookup - 후보별 사전 조회 (적중하면 게이트 슬롯/키를 쓰지 않고 반환, 사용량 기록은 조회 함수가 담당)
+ * @throws RequestAbortedError 호출자 취소 또는 전체 기한 초과 시
+ * @throws FailoverError 모든 후보 실패 시 (후보별 실패/거부/건너뜀 기록 포함, buildExhaustedError로 대체 가능)
+ */
+export async function runProviderChain<T>(
+  candidates: ProviderCandidate[],
+  options: ProviderChainOptions,
+  attempt: (context: ProviderAttemptContext) => Promise<T>,
+  lookup?: ProviderLookup<T>
+): Promise<T> {
+  if (options.hedgeDelayMs !== undefined && candidates.length > 1) {
+    return runHedgedChain(candidates, options, attempt, lookup);
+  }
+  return runChainLane(candidates, options, attempt, {
+    start: 0,
+    end: candidates.length,
+    isHedged: () => false,
+    lost: false,
+    stopped: false,
+  }, lookup);
+}
+
+// =============================================================================
+// 내부 구현
+// =============================================================================
+
+/**
+ * 레인 범위의 후보를 순서대로 시도합니다. (폴백 체인 본체)
+ */
+async function runChainLane<T>(
+  candidates: ProviderCandidate[],
+  options: ProviderChainOptions,
+  attempt: (context: ProviderAttemptContext) => Promise<T>,
+  lane: ChainLane,
+  lookup?: ProviderLookup<T>
+): Promise<T> {
+  const { featureType, teacherId, skipReason, shouldFailover = isRetryableError } = options;
+  const deadline = new RequestDeadline(options);
+
+  let lastError: Error | null = null;
+  // 후보별 시도 기록 (건너뜀 포함) — FailoverError의 시도 타임라인
+  const attempts: ProviderError[] = [];
+
+  candidates: for (let i = lane.start; i < lane.end; i++) {
+    deadline.throwIfAborted(featureType, lastError);
+
+    const { provider, model } = candidates[i];
+    // 헤지 레인의 첫 후보는 앞 후보의 실패가 아니라 경쟁으로 시작됨 (결과의 hedged로 구분)
+    const isFailover = i > lane.start || (i > 0 && !lane.isHedged());
+    const failoverFrom = isFailover
+      ? (candidates[i - 1].provider.providerType as ProviderName)
+      : undefined;
+
+    if (isFailover) {
+      console.warn(
+        `[Universal Router] Failover: ${failoverFrom} -> ${provider.providerType} for ${featureType}`
+      );
+    }
+
+    // 같은 제공자 재시도 — 재시도 횟수를 다 쓰면 다음 후보로 폴백
+    for (let retryAttempt = 0; ; retryAttempt++) {
+      let keyId: string | undefined;
+      let startTime = Date.now();
+      const recordAttempt = (outcome: ProviderAttemptOutcome, error: Error, extra: Partial<ProviderError> = {}) => {
+        attempts.push({
+          provider: provider.providerType as ProviderName,
+          modelId: model.modelId,
+          error,
+          timestamp: new Date(),
+          durationMs: Date.now() - startTime,
+          outcome,
+          retryAttempt,
+          ...extra,
+        });
+      };
+      // 시도 제한 시간은 게이트 대기가 끝난 뒤부터 계산
+      let scope: AttemptScope | null = null;
+      const permits: ProviderPermit[] = [];
+      let usedTokens: number | undefined;
+      let retryDelayMs = 0;
+      let permitsHeld = false;
+      let permitsReleased = false;
+      const releasePermits: ProviderPermit = (tokens) => {
+        if (permitsReleased) return;
+        permitsReleased = true;
+        for (const permit of permits) {
+          permit(tokens);
+        }
+      };
+
+      try {
+        const isReady = await isProviderReady(provider);
+        if (!isReady) {
+          console.warn(`Provider ${provider.providerType} not ready, skipping...`);
+          recordAttempt('skipped', new Error(`Provider ${provider.providerType} is not ready (disabled or no API key)`));
+          continue candidates;
+        }
+
+        const skip = skipReason?.({ provider, model });
+        if (skip) {
+          console.warn(`Model ${model.modelId} skipped: ${skip}`);
+          recordAttempt('skipped', new Error(skip));
+          continue candidates;
+        }
+
+        // 사전 조회 적중 — 제공자를 호출하지 않으므로 게이트 슬롯과 키를 쓰지 않음
+        const found = await lookup?.({ provider, model, index: i, isFailover, failoverFrom, startTime });
+        if (found) {
+          return found;
+        }
+
+        // half_open 서킷은 시험 호출 하나만 허용 — 자격은 게이트 슬롯과 함께 시도 종료 시 반납
+        const trial = acquireCircuitTrial(provider.providerType, model.modelId);
+        if (!trial) {
+          console.warn(`Model ${model.modelId} skipped: circuit half-open trial in progress`);
+          recordAttempt('skipped', new Error(`Circuit for ${model.modelId} is half-open with a trial call in progress`));
+          continue candidates;
+        }
+        permits.push(trial);
+
+        // 호출자 게이트(예: runBatch)는 그대로 기다리고, Provider 행 한도는
+        // 대기가 길어지면 다음 후보로 넘어감 (마지막 후보는 대기)
+        const gateRequest = {
+          signal: createAbortSignal(options.signal, deadline.remainingMs()),
+          tokens: options.estimateTokens?.({ provider, model }),
+        };
+        const acquire = (gate: ProviderGate, maxWaitMs?: number) =>
+          gate.acquire(provider, { ...gateRequest, maxWaitMs }).catch((error) => {
+            if (error instanceof ProviderRateLimitedError) throw error;
+            throw new RequestAbortedError(deadline.abortReason() ?? 'cancelled', featureType, deadline.elapsedMs, lastError);
+          });
+        if (options.gate) {
+          permits.push(await acquire(options.gate));
+        }
+        const isLastCandidate = i === candidates.length - 1;
+        permits.push(
+          await acquire(
+            getProviderRateLimiter(),
+            isLastCandidate ? undefined : (options.rateLimitWaitMs ?? DEFAULT_RATE_LIMIT_WAIT_MS)
+          )
+        );
+        startTime = Date.now();
+        scope = deadline.beginAttempt();
+
+        const lease = await leaseProviderKey(provider);
+        if (!lease) {
+          console.warn(`Provider ${provider.providerType} has all API keys cooling down, skipping...`);
+          recordAttempt('skipped', new Error(`All API keys for ${provider.providerType} are cooling down`));
+          continue candidates;
+        }
+        keyId = lease.keyId;
+
+        const result = await attempt({
+          provider: lease.provider,
+          model,
+          keyId,
+          index: i,
+          isFailover,
+          failoverFrom,
+          retryAttempt,
+          isHedged: lane.isHedged,
+          signal: scope.signal,
+          remainingMs: deadline.remainingMs(),
+          startTime,
+          holdPermits: () => {
+            permitsHeld = true;
+            return releasePermits;
+          },
+        });
+        usedTokens = usedTokensOf(result);
+        return result;
+      } catch (error) {
+        permitsHeld = false;
+
+        // 게이트 대기 중 취소/기한 초과 — 제공자 실패가 아니므로 기록하지 않음
+        if (error instanceof RequestAbortedError) {
+          throw error;
+        }
+
+        // 헤지 경쟁에서 짐 — 제공자 실패가 아니므로 서킷 브레이커에 반영하지 않고 중단
+        if (lane.lost && scope) {
+          await trackFailure({
+            provider: provider.providerType as ProviderName,
+            modelId: model.modelId,
+            featureType: featureType as FeatureType,
+            teacherId,
+            errorMessage: 'Cancelled: another hedged request responded first',
+            responseTimeMs: Date.now() - startTime,
+            keyId,
+            retryAttempt,
+            hedged: true,
+            hedgeCancelled: true,
+          });
+          throw new RequestAbortedError('cancelled', featureType, deadline.elapsedMs, lastError);
+        }
+
+        // 클라이언트 측 한도 대기가 너무 김 — 호출하지 않았으므로 기록 없이 다음 후보로
+        if (error instanceof ProviderRateLimitedError) {
+          console.warn(`[Universal Router] ${error.message}, trying next provider...`);
+          recordAttempt('rate_limited', error);
+          lastError = error;
+          continue candidates;
+        }
+
+        // 거부/품질 미달 응답 — 실패 기록 없이 같은 모델 재시도 또는 다음 모델로 폴백
+        if (error instanceof ResponseQualityError) {
+          recordAttempt(error.kind === 'refusal' ? 'refused' : 'rejected', error);
+          lastError = error;
+          if (error.action === 'retry' && retryAttempt < (options.maxRetries ?? DEFAULT_MAX_RETRIES)) {
+            console.warn(
+              `[Universal Router] Model ${model.modelId} returned ${error.kind} response, retrying...`
+            );
+            continue;
+          }
+          console.warn(
+            `[Universal Router] Model ${model.modelId} returned ${error.kind} response, trying next provider...`
+          );
+          continue candidates;
+        }
+
+        const abortReason = deadline.abortReason();
+        const attemptTimedOut = !abortReason && !!scope?.timedOut;
+        // 시도 제한 시간 초과는 원본 AbortError 대신 타임아웃 사유로 기록
+        const err = normalizeProviderError(
+          provider.providerType,
+          attemptTimedOut && scope?.signal.reason instanceof Error ? scope.signal.reason : error
+        );
+        const responseTimeMs = Date.now() - startTime;
+
+        console.error(`[Universal Router] Provider ${provider.providerType} failed (${err.category}):`, err.message);
+
+        await trackFailure({
+          provider: provider.providerType as ProviderName,
+          modelId: model.modelId,
+          featureType: featureType as FeatureType,
+          teacherId,
+          errorMessage: err.message,
+          errorCategory: err.category,
+          responseTimeMs,
+          keyId,
+          retryAttempt,
+          hedged: lane.isHedged(),
+        });
+
+        // 429를 받은 키는 쿨다운 — 다음 호출은 풀의 다른 키 사용
+        if (keyId && err.category === 'rate_limit') {
+          await reportKeyThrottled(keyId, getRetryAfterMs(err));
+        }
+
+        recordAttempt('failed', err, { category: err.category, durationMs: responseTimeMs });
+        lastError = err;
+
+        // 호출자 취소 / 전체 기한 초과는 폴백하지 않고 즉시 중단
+        if (abortReason) {
+          throw new RequestAbortedError(abortReason, featureType, deadline.elapsedMs, err);
+        }
+
+        const delayMs = attemptTimedOut
+          ? null
+          : getRetryDelayMs(err, retryAttempt, options, deadline.remainingMs());
+
+        if (delayMs === null) {
+          // 재시도 불가능한 에러는 폴백 체인 중단
+          if (!shouldFailover(err)) {
+            console.warn(`[Universal Router] Error is not retryable (${err.category}), stopping failover chain: ${err.message}`);
+            lane.stopped = true;
+            break candidates;
+          }
+          continue candidates;
+        }
+        retryDelayMs = delayMs;
+      } finally {
+        scope?.dispose();
+        if (!permitsHeld) {
+          releasePermits(usedTokens);
+        }
+      }
+
+      // 게이트 슬롯을 반납한 뒤 대기
+      console.warn(
+        `[Universal Router] Retrying ${provider.providerType} (${retryAttempt + 1}) in ${retryDelayMs}ms for ${featureType}`
+      );
+      await waitForRetry(retryDelayMs, options.signal).catch(() => {
+        throw new RequestAbortedError('cancelled', featureType, deadline.elapsedMs, lastError);
+      });
+    }
+  }
+
+  if (options.buildExhaustedError) {
+    throw options.buildExhaustedError(lastError, attempts);
+  }
+
+  throw new FailoverError(featureType as FeatureType, attempts);
+}
+
+/**
+ * 헤지 요청: 첫 후보 레인을 시작하고, hedgeDelayMs 안에 끝나지 않거나 실패하면
+ * 나머지 후보 레인을 시작합니다. 먼저 성공한 레인의 결과를 반환하고 다른 레인은 취소합니다.
+ * 두 레인이 모두 실패하면 양쪽 시도 기록을 합쳐 FailoverError(또는 buildExhaustedError)를 발생시킵니다.
+ */
+function runHedgedChain<T>(
+  candidates: ProviderCandidate[],
+  options: ProviderChainOptions,
+  attempt: (context: ProviderAttemptContext) => Promise<T>,
+  lookup?: ProviderLookup<T>
+): Promise<T> {
+  const { hedgeDelayMs = 0, buildExhaustedError, ...laneOptions } = options;
+  const startedAt = Date.now();
+
+  return new Promise<T>((resolve, reject) => {
+    type RunningLane = ChainLane & { controller: AbortController; done: boolean };
+    const lanes: RunningLane[] = [];
+    const attempts: ProviderError[] = [];
+    let lastError: Error | null = null;
+    let settled = false;
+    let hedged = false;
+
+    const settle = (finish: () => void) => {
+      settled = true;
+      clearTimeout(hedgeTimer);
+      options.signal?.removeEventListener('abort', onCallerAbort);
+      for (const lane of lanes) {
+        if (!lane.done) {
+          lane.lost = true;
+          lane.controller.abort();
+        }
+      }
+      finish();
+    };
+
+    const finishIfExhausted = () => {
+      const stopped = lanes.some((lane) => lane.stopped);
+      if (settled || (!stopped && (lanes.length < 2 || lanes.some((lane) => !lane.done)))) return;
+      attempts.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      settle(() =>
+        reject(
+          buildExhaustedError
+            ? buildExhaustedError(lastError, attempts)
+            : new FailoverError(options.featureType as FeatureType, attempts)
+        )
+      );
+    };
+
+    const launch = (start: number, end: number) => {
+      const controller = new AbortController();
+      if (options.signal?.aborted) {
+        controller.abort(options.signal.reason);
+      }
+      const lane: RunningLane = {
+        start,
+        end,
+        isHedged: () => hedged,
+        lost: false,
+        stopped: false,
+        controller,
+        done: false,
+      };
+      lanes.push(lane);
+      // 나중에 시작한 레인도 같은 전체 기한을 공유
+      const totalDeadlineMs = options.totalDeadlineMs === undefined
+        ? undefined
+        : Math.max(1, options.totalDeadlineMs - (Date.now() - startedAt));
+
+      runChainLane(
+        candidates,
+        {
+          ...laneOptions,
+          signal: controller.signal,
+          totalDeadlineMs,
+          buildExhaustedError: (laneLastError, laneAttempts) => {
+            attempts.push(...laneAttempts);
+            lastError = laneLastError ?? lastError;
+            return new HedgeLaneExhaustedError();
+          },
+        },
+        attempt,
+        lane,
+        lookup
+      ).then(
+        (result) => {
+          lane.done = true;
+          if (!settled) settle(() => resolve(result));
+        },
+        (error: unknown) => {
+          lane.done = true;
+          if (settled || lane.lost) return;
+          if (!(error instanceof HedgeLaneExhaustedError)) {
+            settle(() => reject(error));
+            return;
+          }
+          // 첫 레인이 헤지 지연 전에 실패하면 곧바로 나머지 후보로 폴백
+          if (lanes.length === 1 && !lane.stopped) {
+            startHedge();
+            return;
+          }
+          finishIfExhausted();
+        }
+      );
+    };
+
+    const startHedge = () => {
+      if (settled || lanes.length > 1) return;
+      clearTimeout(hedgeTimer);
+      hedged = !lanes[0].done;
+      if (hedged) {
+        console.warn(
+          `[Universal Router] Hedging ${options.featureType}: ${candidates[0].model.modelId} has not responded ` +
+            `in ${hedgeDelayMs}ms, starting ${candidates[1].model.modelId}`
+        );
+      }
+      launch(1, candidates.length);
+    };
+
+    // 호출자 취소는 실행 중인 모든 레인에 전달
+    const onCallerAbort = () => {
+      for (const lane of lanes) {
+        lane.controller.abort(options.signal?.reason);
+      }
+    };
+    options.signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    const hedgeTimer = setTimeout(startHedge, hedgeDelayMs);
+    launch(0, 1);
+  });
+}
+
+/**
+ * 헤지 레인의 후보가 모두 실패했음을 알리는 내부 신호 (시도 기록은 레인 밖에서 합침)
+ */
+class HedgeLaneExhaustedError extends Error {
+  constructor() {
+    super('Hedge lane exhausted');
+    this.name = 'HedgeLaneExhaustedError';
+
+    Object.setPrototypeOf(this, HedgeLaneExhaustedError.prototype);
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Router Embedding
+ *
+ * 텍스트 임베딩을 위한 함수를 모아 둔 파일입니다.
+ * 'embedding' 기능의 FeatureResolver 매핑으로 임베딩 모델을 고르고,
+ * 텍스트 생성과 같은 폴백 체인, 예산 정책, 사용량 추적을 적용합니다.
+ *
+ * 서로 다른 임베딩 모델의 벡터는 비교할 수 없으므로, 결과의 provider/model을
+ * 벡터와 함께 저장하고 같은 모델로 만든 벡터끼리만 비교해야 합니다.
+ */
+
+import { embed, embedMany, type EmbeddingModel, type EmbeddingModelUsage } from 'ai';
+import { getAdapter } from './adapters';
+import { trackUsage } from './usage-tracker';
+import { runProviderChain } from './router-chain';
+import type { CancellationOptions } from './cancellation';
+import type { ProviderGateOptions } from './provider-gate';
+import type { RetryOptions } from './retry-policy';
+import { estimateTokens, getTokenizerFamily } from './token-estimation';
+import type { RoutingOptions } from './performance-routing';
+import { createEmbeddingModel, buildProviderOrder } from './router-utils';
+import type { ProviderType } from './types';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 임베딩 공통 옵션
+ */
+interface EmbeddingRoutingOptions extends CancellationOptions, ProviderGateOptions, RetryOptions {
+  /** 기능 타입 (기본: embedding) */
+  featureType?: string;
+  teacherId?: string;
+  /** 특정 제공자를 지정하여 호출 (지정하지 않으면 FeatureResolver 자동 라우팅) */
+  providerId?: string;
+  /** 자동 라우팅 전략 (기본: FeatureResolver 우선순위) */
+  routing?: RoutingOptions;
+}
+
+/**
+ * 단일 텍스트 임베딩 옵션
+ */
+export interface EmbedOptions extends EmbeddingRoutingOptions {
+  value: string;
+}
+
+/**
+ * 여러 텍스트 임베딩 옵션
+ */
+export interface EmbedManyOptions extends EmbeddingRoutingOptions {
+  values: string[];
+  /** 제공자 배치 한도를 넘는 경우 동시에 보낼 요청 수 (기본: 제한 없음) */
+  maxParallelCalls?: number;
+}
+
+/**
+ * 임베딩을 만든 제공자 정보
+ */
+interface EmbeddingRouteInfo {
+  usage: EmbeddingModelUsage;
+  provider: string;
+  /** 벡터 비교 시 같은 모델인지 확인하는 데 사용 */
+  model: string;
+  wasFailover: boolean;
+  failoverFrom?: string;
+  /** 성능 기반 라우팅의 순위 설명 (routing.strategy가 'performance'일 때) */
+  routingReason?: string;
+}
+
+/**
+ * 단일 텍스트 임베딩 결과
+ */
+export interface EmbeddingResult extends EmbeddingRouteInfo {
+  embedding: number[];
+}
+
+/**
+ * 여러 텍스트 임베딩 결과 (values와 같은 순서)
+ */
+export interface EmbeddingManyResult extends EmbeddingRouteInfo {
+  embeddings: number[][];
+}
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+/**
+ * 임베딩 모델 후보로 폴백 체인을 실행하고 사용량을 기록합니다.
+ */
+async function routeEmbedding<T>(
+  options: EmbeddingRoutingOptions,
+  values: string[],
+  call: (model: EmbeddingModel, signal: AbortSignal) => Promise<T & { usage: EmbeddingModelUsage }>
+): Promise<T & EmbeddingRouteInfo> {
+  const { featureType = 'embedding', teacherId, providerId } = options;
+
+  const { candidates: providerOrder, routingReason } = await buildProviderOrder(featureType, {
+    providerId,
+    teacherId,
+    requirements: { needsEmbedding: true },
+    routing: options.routing,
+  });
+
+  return runProviderChain(
+    providerOrder,
+    {
+      ...options,
+      featureType,
+      estimateTokens: ({ provider, model }) => {
+        const family = getTokenizerFamily(provider.providerType, model.modelId);
+        return values.reduce((sum, value) => sum + estimateTokens(value, family), 0);
+      },
+      // 직접 지정 매핑은 요구사항 필터를 거치지 않으므로 여기서 확인
+      skipReason: ({ provider, model }) => {
+        if (!getAdapter(provider.providerType as ProviderType).createEmbeddingModel) {
+          return 'does not support embeddings';
+        }
+        return model.supportsEmbedding ? null : 'is not an embedding model';
+      },
+    },
+    async ({ provider, model, keyId, isFailover, failoverFrom, retryAttempt, signal, startTime }) => {
+      const embeddingModel = createEmbeddingModel(provider, model);
+      if (!embeddingModel) {
+        throw new Error(`Provider ${provider.providerType} does not support embeddings`);
+      }
+
+      const result = await call(embeddingModel, signal);
+
+      await trackUsage({
+        provider: provider.providerType as import('./providers/types').ProviderName,
+        modelId: model.modelId,
+        featureType: featureType as import('./providers/types').FeatureType,
+        teacherId,
+        inputTokens: result.usage?.tokens || 0,
+        outputTokens: 0,
+        responseTimeMs: Date.now() - startTime,
+        success: true,
+        failoverFrom,
+        keyId,
+        retryAttempt,
+        // 임베딩은 검색/색인의 일부이므로 요청 수 한도에 세지 않음
+        countsAsRequest: false,
+      });
+
+      return {
+        ...result,
+        provider: provider.providerType,
+        model: model.modelId,
+        wasFailover: isFailover,
+        failoverFrom,
+        routingReason,
+      };
+    }
+  );
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 텍스트 하나를 임베딩합니다.
+ *
+ * @example
+ * ```ts
+ * const { embedding, model } = await embedWithProvider({
+ *   value: counselingSummary,
+ *   teacherId,
+ * });
+ * ```
+ */
+export async function embedWithProvider(options: EmbedOptions): Promise<EmbeddingResult> {
+  return routeEmbedding(options, [options.value], async (model, signal) => {
+    const result = await embed({
+      model,
+      value: options.value,
+      maxRetries: 0,
+      abortSignal: signal,
+    });
+    return { embedding: result.embedding, usage: result.usage };
+  });
+}
+
+/**
+ * 여러 텍스트를 한 모델로 임베딩합니다.
+ * 모든 벡터가 같은 모델에서 나오도록, 일부만 실패해도 전체를 다음 후보로 다시 요청합니다.
+ */
+export async function embedManyWithProvider(options: EmbedManyOptions): Promise<EmbeddingManyResult> {
+  if (options.values.length === 0) {
+    throw new Error('values must not be empty');
+  }
+
+  return routeEmbedding(options, options.values, async (model, signal) => {
+    const result = await embedMany({
+      model,
+      values: options.values,
+      maxParallelCalls: options.maxParallelCalls,
+      maxRetries: 0,
+      abortSignal: signal,
+    });
+    return { embeddings: result.embeddings, usage: result.usage };
+  });
+}
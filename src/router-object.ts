@@ -0,0 +1,319 @@
+/**
+ * Router Object
+ *
+ * 구조화된 JSON 출력(Zod 스키마)을 위한 함수를 모아 둔 파일입니다.
+ * 어댑터가 JSON 모드를 지원하면 AI SDK의 generateObject를 사용하고,
+ * 지원하지 않으면 프롬프트로 JSON을 요청한 뒤 응답을 복구/파싱합니다.
+ */
+
+import { generateObject, generateText, NoObjectGeneratedError, type LanguageModelUsage } from 'ai';
+import { z } from 'zod';
+import { getAdapter } from './adapters';
+import { trackUsage } from './usage-tracker';
+import { isRetryableError } from './failover';
+import { runProviderChain } from './router-chain';
+import {
+  inspectResponse,
+  extractJsonCandidate,
+  repairJsonCandidate,
+  ResponseQualityError,
+  type ResponseGuardKind,
+  type ResponseGuardPolicy,
+} from './response-guard';
+import type { CancellationOptions } from './cancellation';
+import type { ProviderGateOptions } from './provider-gate';
+import type { RetryOptions } from './retry-policy';
+import type { RoutingOptions } from './performance-routing';
+import {
+  type GenerateResult,
+  createLanguageModel,
+  buildProviderOrder,
+  resolveHedgeDelayMs,
+} from './router-utils';
+import { estimateForModel, type PromptTokenInput } from './token-estimation';
+import type { ProviderType } from './types';
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 구조화 출력 옵션
+ */
+export interface GenerateObjectOptions<T> extends CancellationOptions, ProviderGateOptions, RetryOptions {
+  prompt: string;
+  featureType: string;
+  /** 응답이 따라야 할 Zod 스키마 */
+  schema: z.ZodType<T>;
+  /** 스키마 이름 (JSON 모드 제공자에게 힌트로 전달) */
+  schemaName?: string;
+  /** 스키마 설명 (JSON 모드 제공자에게 힌트로 전달) */
+  schemaDescription?: string;
+  teacherId?: string;
+  maxOutputTokens?: number;
+  temperature?: number;
+  system?: string;
+  /** 특정 제공자를 지정하여 호출 (지정하지 않으면 FeatureResolver 자동 라우팅) */
+  providerId?: string;
+  /** 자동 라우팅 전략 (기본: FeatureResolver 우선순위) */
+  routing?: RoutingOptions;
+  /** 응답 검사 정책 (JSON 형식은 스키마 검증이 확인하므로 expectJson은 무시) */
+  responseGuard?: ResponseGuardPolicy;
+  /** 헤지 요청 지연 (ms, 기본: 기능 매핑 설정, null이면 사용 안 함) */
+  hedgeDelayMs?: number | null;
+}
+
+/**
+ * 구조화 출력 결과
+ */
+export interface GenerateObjectResult<T> extends GenerateResult {
+  /** 스키마 검증을 통과한 객체 */
+  object: T;
+  /** 'json': 제공자 JSON 모드 사용, 'prompt': 프롬프트 + 복구 파싱 사용 */
+  mode: 'json' | 'prompt';
+}
+
+/**
+ * 응답이 스키마를 만족하지 않을 때 발생하는 에러
+ * 폴백 체인에서 다음 제공자로 넘어가는 사유로 취급됩니다.
+ */
+export class SchemaValidationError extends Error {
+  public readonly rawText: string;
+  public readonly issues: string[];
+
+  constructor(rawText: string, issues: string[]) {
+    super(`Response did not match schema: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.rawText = rawText;
+    this.issues = issues;
+
+    Object.setPrototypeOf(this, SchemaValidationError.prototype);
+  }
+}
+
+// =============================================================================
+// 내부 유틸리티
+// =============================================================================
+
+/**
+ * JSON 모드를 지원하지 않는 제공자용 시스템 프롬프트를 구성합니다.
+ */
+function buildJsonInstruction<T>(schema: z.ZodType<T>, system?: string): string {
+  const jsonSchema = JSON.stringify(z.toJSONSchema(schema), null, 2);
+  const instruction = [
+    '반드시 아래 JSON Schema를 만족하는 JSON만 출력하세요.',
+    '설명, 마크다운, 코드 블록 없이 순수 JSON만 반환합니다.',
+    '',
+    jsonSchema,
+  ].join('\n');
+
+  return system ? `${system}\n\n${instruction}` : instruction;
+}
+
+/**
+ * LLM 텍스트 응답에서 JSON을 추출하고 흔한 형식 오류를 복구합니다.
+ * - 코드 펜스(```json) 제거
+ * - 앞뒤 설명 문장 제거
+ * - 닫는 괄호 앞의 trailing comma 제거
+ */
+export function parseJsonResponse(text: string): unknown {
+  const candidate = extractJsonCandidate(text);
+  if (candidate === null) {
+    throw new SchemaValidationError(text, ['No JSON value found in response']);
+  }
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    try {
+      return JSON.parse(repairJsonCandidate(candidate));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SchemaValidationError(text, [`Invalid JSON: ${message}`]);
+    }
+  }
+}
+
+/**
+ * 스키마 위반 또는 JSON 모드의 객체 생성 실패인지 확인합니다.
+ */
+function isSchemaFailure(error: unknown): boolean {
+  return error instanceof SchemaValidationError || NoObjectGeneratedError.isInstance(error);
+}
+
+/**
+ * 파싱된 값을 스키마로 검증합니다.
+ */
+function validateWithSchema<T>(schema: z.ZodType<T>, value: unknown, rawText: string): T {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    throw new SchemaValidationError(
+      rawText,
+      parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return parsed.data;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 스키마로 검증된 구조화 객체를 생성합니다.
+ *
+ * @example
+ * ```ts
+ * const { object } = await generateObjectWithProvider({
+ *   featureType: 'compatibility_analysis',
+ *   system: COMPATIBILITY_SYSTEM_PROMPT,
+ *   prompt: buildCompatibilityPrompt(student, teachers),
+ *   schema: compatibilitySchema,
+ * });
+ * ```
+ */
+export async function generateObjectWithProvider<T>(
+  options: GenerateObjectOptions<T>
+): Promise<GenerateObjectResult<T>> {
+  const {
+    prompt,
+    featureType,
+    schema,
+    schemaName,
+    schemaDescription,
+    teacherId,
+    maxOutputTokens,
+    temperature,
+    system,
+    providerId,
+  } = options;
+
+  // 스키마도 입력 토큰을 차지하므로 JSON 지시문 기준으로 추정
+  const tokenInput: PromptTokenInput = { system: buildJsonInstruction(schema, system), prompt };
+  const { candidates: providerOrder, routingReason } = await buildProviderOrder(featureType, {
+    providerId,
+    teacherId,
+    routing: options.routing,
+    tokenInput,
+    maxOutputTokens,
+  });
+
+  return runProviderChain(
+    providerOrder,
+    {
+      ...options,
+      estimateTokens: ({ provider, model }) =>
+        estimateForModel(tokenInput, maxOutputTokens, provider, model).totalTokens,
+      // 스키마 위반은 다른 모델에서 해결될 수 있으므로 항상 폴백
+      // (체인은 ProviderCallError로 정규화한 뒤 호출하므로 원본 에러는 cause로 확인)
+      shouldFailover: (error) => isSchemaFailure(error.cause) || isRetryableError(error),
+      hedgeDelayMs: providerId ? undefined : await resolveHedgeDelayMs(featureType, options.hedgeDelayMs),
+    },
+    async ({ provider, model, keyId, isFailover, failoverFrom, retryAttempt, isHedged, signal, startTime }) => {
+      const languageModel = createLanguageModel(provider, model);
+      const adapter = getAdapter(provider.providerType as ProviderType);
+
+      let object: T;
+      let text: string;
+      let usage: LanguageModelUsage;
+      let mode: 'json' | 'prompt';
+      let qualityIssue: ResponseGuardKind | undefined;
+
+      // 재시도/폴백으로 버려지는 응답은 요청 수 한도에 세지 않음
+      const recordUsage = (countsAsRequest = true) =>
+        trackUsage({
+          provider: provider.providerType as import('./providers/types').ProviderName,
+          modelId: model.modelId,
+          featureType: featureType as import('./providers/types').FeatureType,
+          teacherId,
+          inputTokens: usage?.inputTokens || 0,
+          cachedInputTokens: usage?.inputTokenDetails?.cacheReadTokens,
+          outputTokens: usage?.outputTokens || 0,
+          responseTimeMs: Date.now() - startTime,
+          success: true,
+          failoverFrom,
+          keyId,
+          retryAttempt,
+          qualityIssue,
+          hedged: isHedged(),
+          countsAsRequest,
+        });
+
+      if (adapter.supportsJsonMode) {
+        const result = await generateObject({
+          model: languageModel,
+          schema,
+          schemaName,
+          schemaDescription,
+          prompt,
+          system,
+          maxOutputTokens,
+          temperature,
+          maxRetries: 0,
+          abortSignal: signal,
+        }).catch(async (error: unknown) => {
+          // 스키마를 만족하지 못한 응답도 토큰은 과금됨 — 기록한 뒤 폴백
+          if (NoObjectGeneratedError.isInstance(error) && error.usage) {
+            usage = error.usage;
+            await recordUsage(false);
+          }
+          throw error;
+        });
+        object = result.object as T;
+        text = JSON.stringify(result.object);
+        usage = result.usage;
+        mode = 'json';
+      } else {
+        const result = await generateText({
+          model: languageModel,
+          prompt,
+          system: buildJsonInstruction(schema, system),
+          maxOutputTokens,
+          temperature,
+          maxRetries: 0,
+          abortSignal: signal,
+        });
+
+        text = result.text;
+        usage = result.usage;
+        mode = 'prompt';
+
+        // 거부/품질 미달 응답 감지 — 사용량은 기록한 뒤 정책에 따라 재시도 또는 폴백
+        const issue = inspectResponse(
+          featureType,
+          { text, finishReason: result.finishReason },
+          { ...options.responseGuard, expectJson: false }
+        );
+        qualityIssue = issue?.kind;
+        if (issue && issue.action !== 'pass') {
+          await recordUsage(false);
+          throw new ResponseQualityError(issue.kind, issue.action, model.modelId, text);
+        }
+
+        try {
+          object = validateWithSchema(schema, parseJsonResponse(text), text);
+        } catch (error) {
+          // 스키마 위반 응답도 토큰은 과금됨 — 기록한 뒤 폴백
+          await recordUsage(false);
+          throw error;
+        }
+      }
+
+      await recordUsage();
+
+      return {
+        object,
+        text,
+        usage,
+        mode,
+        provider: provider.providerType,
+        model: model.modelId,
+        wasFailover: isFailover,
+        failoverFrom,
+        hedged: isHedged(),
+        routingReason,
+        tokenEstimate: estimateForModel(tokenInput, maxOutputTokens, provider, model),
+      };
+    }
+  );
+}
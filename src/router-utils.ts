@@ -5,26 +5,38 @@
  * 내부 유틸리티 함수, 타입, 상수를 모아 둔 파일입니다.
  */
 
-import type { LanguageModelUsage } from 'ai';
+import { stepCountIs, type EmbeddingModel, type LanguageModelUsage, type StepResult, type ToolChoice, type ToolSet } from 'ai';
 import { db } from '@ais/db/client';
 import { FeatureResolver } from './feature-resolver';
-import { getAdapter } from './adapters';
-import { decryptApiKey } from './encryption.js';
+import { getProviderRegistry } from './provider-registry';
+import { getAdapter, hasAdapter } from './adapters';
+import { toProviderCallError, type ProviderCallError } from './provider-errors';
+import { DEFAULT_REFUSAL_PATTERNS, isRefusalText } from './response-guard';
+import { rankCandidatesByPerformance, type RoutingOptions } from './performance-routing';
+import { enforceBudget, applyBudgetToCandidates } from './budget-enforcement';
+import {
+  ContextWindowExceededError,
+  computeMinContextWindow,
+  fitCandidatesToContextWindow,
+  type PromptTokenInput,
+  type TokenEstimate,
+} from './token-estimation';
 
 // =============================================================================
 // 상수
 // =============================================================================
 
-// LLM 거부 응답 패턴 감지
-export const REFUSAL_PATTERNS = [
-  /^I('m| am) sorry,? I (can't|cannot|won't|will not)/i,
-  /^I('m| am) not able to/i,
-  /^I (can't|cannot) assist with/i,
-  /^I('m| am) unable to/i,
-  /^Sorry,? (but )?I (can't|cannot)/i,
-  /^As an AI,? I (can't|cannot|don't)/i,
-  /^I apologize,? but I (can't|cannot)/i,
-];
+// LLM 거부 응답 패턴 감지 (영어 기본 패턴, 다른 언어는 configureResponseGuard로 추가)
+export const REFUSAL_PATTERNS = DEFAULT_REFUSAL_PATTERNS.en;
+
+// 스트리밍 첫 토큰 대기 기본 시간 (ms)
+export const DEFAULT_FIRST_TOKEN_TIMEOUT_MS = 15_000;
+
+// 도구 호출 루프 기본 최대 스텝 수
+export const DEFAULT_MAX_TOOL_STEPS = 5;
+
+// 첫 토큰으로 간주하는 스트림 파트 타입
+const FIRST_TOKEN_PART_TYPES = new Set(['text-delta', 'reasoning-delta', 'tool-input-start']);
 
 // =============================================================================
 // 타입
@@ -45,10 +57,27 @@ export type Provider = {
   isEnabled: boolean;
   isValidated: boolean;
   validatedAt: Date | null;
+  keySelection: string | null;
+  /** 분당 요청 수 한도 (클라이언트 측, 없으면 제한 없음) */
+  rateLimitRpm?: number | null;
+  /** 분당 토큰 수 한도 (클라이언트 측, 없으면 제한 없음) */
+  rateLimitTpm?: number | null;
+  /** 동시 요청 수 한도 (클라이언트 측, 없으면 제한 없음) */
+  maxConcurrentRequests?: number | null;
   createdAt: Date;
   updatedAt: Date;
 };
 
+/**
+ * 호출 1회에 사용할 자격 증명이 적용된 제공자
+ */
+export interface KeyedProvider {
+  /** 키 풀에서 선택한 키가 apiKeyEncrypted에 적용된 제공자 */
+  provider: Provider;
+  /** 키 풀 키 ID (Provider 기본 키를 사용하면 undefined) */
+  keyId?: string;
+}
+
 export type Model = {
   id: string;
   providerId: string;
@@ -57,12 +86,22 @@ export type Model = {
   contextWindow: number | null;
   supportsVision: boolean;
   supportsTools: boolean;
+  supportsEmbedding: boolean;
   defaultParams: unknown;
   isDefault: boolean;
   createdAt: Date;
   updatedAt: Date;
 };
 
+/**
+ * 라우터 호출용 제공자 순서
+ */
+export interface ProviderOrder {
+  candidates: Array<{ provider: Provider; model: Model }>;
+  /** 성능 기반 라우팅의 순위 설명 (routing.strategy가 'performance'일 때) */
+  routingReason?: string;
+}
+
 export interface GenerateResult {
   text: string;
   usage: LanguageModelUsage;
@@ -70,6 +109,46 @@ export interface GenerateResult {
   model: string;
   wasFailover: boolean;
   failoverFrom?: string;
+  /** 헤지 요청으로 후보들이 경쟁한 결과 (경쟁으로 시작한 후보는 wasFailover가 아님) */
+  hedged?: boolean;
+  /** 성능 기반 라우팅의 순위 설명 (routing.strategy가 'performance'일 때) */
+  routingReason?: string;
+  /** 응답 캐시에서 반환된 결과 */
+  cached?: boolean;
+  /** 도구 호출 목록 (tools 옵션 사용 시, 모든 스텝) */
+  toolCalls?: ToolCallRecord[];
+  /** 도구 실행 결과 목록 (tools 옵션 사용 시, 모든 스텝) */
+  toolResults?: ToolResultRecord[];
+  /** 실행된 스텝 수 (tools 옵션 사용 시) */
+  steps?: number;
+  /** 선택된 모델 기준 사전 토큰 추정치 */
+  tokenEstimate?: TokenEstimate;
+}
+
+/**
+ * 도구 호출 옵션 (라우터 공통)
+ */
+export interface ToolCallingOptions {
+  /** AI SDK 도구 정의 — 지정 시 도구를 지원하는 모델만 후보가 됨 */
+  tools?: ToolSet;
+  toolChoice?: ToolChoice<ToolSet>;
+  /** 도구 호출 루프 최대 스텝 수 (기본 5) */
+  maxSteps?: number;
+}
+
+export interface ToolCallRecord {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  /** 호출이 발생한 스텝 (0부터) */
+  step: number;
+}
+
+export interface ToolResultRecord {
+  toolCallId: string;
+  toolName: string;
+  output: unknown;
+  step: number;
 }
 
 // =============================================================================
@@ -77,10 +156,54 @@ export interface GenerateResult {
 // =============================================================================
 
 export function isRefusalResponse(text: string): boolean {
-  const trimmed = text.trim();
   // 짧은 거부 응답만 감지 (정상 JSON 응답이 이 패턴을 포함할 가능성 배제)
-  if (trimmed.length > 500) return false;
-  return REFUSAL_PATTERNS.some(pattern => pattern.test(trimmed));
+  return isRefusalText(text);
+}
+
+/**
+ * 스트림에서 첫 토큰이 도착할 때까지 기다립니다.
+ *
+ * fullStream은 streamText 결과의 독립적인 tee 사본이므로
+ * 여기서 첫 파트를 읽어도 호출자가 받는 textStream 등은 처음부터 전달됩니다.
+ * 확인이 끝나면 이 사본은 취소하여 버퍼가 쌓이지 않게 합니다.
+ *
+ * @param fullStream - streamText 결과의 fullStream
+ * @param timeoutMs - 첫 토큰 대기 시간
+ * @param onTimeout - 시간 초과 시 호출 (진행 중인 요청 중단용)
+ * @throws 첫 토큰 전에 에러 파트가 오거나, 스트림이 끝나거나, 시간이 초과된 경우
+ */
+export async function waitForFirstToken(
+  fullStream: AsyncIterable<{ type: string; error?: unknown }>,
+  timeoutMs: number,
+  onTimeout?: () => void
+): Promise<void> {
+  const iterator = fullStream[Symbol.asyncIterator]();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout?.();
+      reject(new Error(`Stream timeout: no token received within ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    while (true) {
+      const { value, done } = await Promise.race([iterator.next(), timeout]);
+      if (done) {
+        throw new Error('Stream ended before the first token');
+      }
+      if (value.type === 'error') {
+        throw value.error instanceof Error ? value.error : new Error(String(value.error));
+      }
+      if (FIRST_TOKEN_PART_TYPES.has(value.type)) {
+        return;
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+    await iterator.return?.().catch(() => undefined);
+  }
 }
 
 // 싱글톤 FeatureResolver 인스턴스
@@ -94,15 +217,14 @@ export function getFeatureResolver(): FeatureResolver {
 }
 
 /**
- * 제공자 환경 설정
- * API 키를 환경 변수에 설정합니다.
+ * 제공자가 호출 가능한 상태인지 확인합니다.
+ *
+ * 자격 증명은 요청마다 Provider 레코드에서 직접 읽어 모델을 만들기 때문에
+ * process.env나 어댑터 싱글톤 상태를 변경하지 않습니다.
  */
-export async function setupProviderEnv(provider: Provider): Promise<boolean> {
+export async function isProviderReady(provider: Provider): Promise<boolean> {
   // Ollama는 내장 제공자 — API 키 불필요
   if (provider.providerType === 'ollama') {
-    if (provider.baseUrl) {
-      process.env.OLLAMA_BASE_URL = provider.baseUrl;
-    }
     return true;
   }
 
@@ -110,81 +232,295 @@ export async function setupProviderEnv(provider: Provider): Promise<boolean> {
     return false;
   }
 
-  if (!provider.apiKeyEncrypted) {
-    return false;
+  if (provider.apiKeyEncrypted) {
+    return true;
+  }
+
+  // 기본 키가 없어도 키 풀에 키가 있으면 호출 가능
+  return getProviderRegistry(db).hasKeys(provider.id);
+}
+
+/**
+ * 이번 호출에 사용할 API 키를 결정합니다.
+ *
+ * 키 풀에 키가 있으면 Provider의 keySelection 전략으로 하나를 선택하고,
+ * 풀이 비어 있으면 Provider 기본 키(apiKeyEncrypted)를 사용합니다.
+ *
+ * @returns 키가 적용된 제공자 (풀의 모든 키가 쿨다운 중이면 null)
+ */
+export async function leaseProviderKey(provider: Provider): Promise<KeyedProvider | null> {
+  if (provider.providerType === 'ollama') {
+    return { provider };
+  }
+
+  const registry = getProviderRegistry(db);
+  const key = await registry.acquireKey(
+    provider.id,
+    (provider.keySelection ?? undefined) as import('./types').KeySelectionStrategy | undefined
+  );
+
+  if (key) {
+    return {
+      provider: { ...provider, apiKeyEncrypted: key.apiKeyEncrypted },
+      keyId: key.keyId,
+    };
   }
 
-  const apiKey = decryptApiKey(provider.apiKeyEncrypted);
-
-  switch (provider.providerType) {
-    case 'anthropic':
-      process.env.ANTHROPIC_API_KEY = apiKey;
-      break;
-    case 'openai':
-      process.env.OPENAI_API_KEY = apiKey;
-      break;
-    case 'google':
-      process.env.GOOGLE_GENERATIVE_AI_API_KEY = apiKey;
-      break;
-    case 'deepseek':
-      process.env.DEEPSEEK_API_KEY = apiKey;
-      break;
-    case 'mistral':
-      process.env.MISTRAL_API_KEY = apiKey;
-      break;
-    case 'cohere':
-      process.env.COHERE_API_KEY = apiKey;
-      break;
-    case 'xai':
-      process.env.XAI_API_KEY = apiKey;
-      break;
-    case 'zhipu':
-      process.env.ZHIPU_API_KEY = apiKey;
-      break;
-    case 'moonshot':
-      process.env.MOONSHOT_API_KEY = apiKey;
-      break;
+  // 풀에 키가 있는데 선택되지 않았다면 모두 쿨다운 중
+  if (await registry.hasKeys(provider.id)) {
+    return null;
   }
 
-  return true;
+  return { provider };
+}
+
+/**
+ * 429 응답을 받은 키 풀 키를 쿨다운 상태로 전환합니다.
+ *
+ * @param keyId - 키 ID
+ * @param retryAfterMs - Retry-After 헤더 값 (없으면 기본 쿨다운)
+ */
+export async function reportKeyThrottled(keyId: string, retryAfterMs?: number): Promise<void> {
+  await getProviderRegistry(db).reportKeyThrottled(keyId, retryAfterMs);
 }
 
 /**
  * 모델 ID로부터 LanguageModel을 생성합니다.
+ *
+ * 호출마다 새 모델 인스턴스를 만들며, API 키와 Base URL은
+ * 전달된 Provider 레코드에서만 가져옵니다. 같은 providerType의 서로 다른
+ * Provider 레코드(예: OpenAI 키 2개)가 동시에 호출되어도 자격 증명이 섞이지 않습니다.
  */
 export function createLanguageModel(provider: Provider, model: Model) {
   const adapter = getAdapter(provider.providerType as import('./types').ProviderType);
 
-  // API 키 설정
-  if (provider.apiKeyEncrypted) {
-    adapter.setApiKey(decryptApiKey(provider.apiKeyEncrypted));
-  }
+  // 어댑터 상태(setApiKey/setBaseUrl)에 의존하지 않도록 요청 단위 설정 객체를 전달
+  const config = { ...provider } as import('./types').ProviderConfig;
 
-  // Base URL 설정
-  if (provider.baseUrl) {
-    adapter.setBaseUrl(provider.baseUrl);
-  }
+  return adapter.createModel(model.modelId, config);
+}
 
-  return adapter.createModel(model.modelId, provider as import('./types').ProviderConfig);
+/**
+ * 제공자 어댑터로 EmbeddingModel을 생성합니다.
+ * 어댑터가 임베딩을 지원하지 않으면 null을 반환합니다.
+ */
+export function createEmbeddingModel(provider: Provider, model: Model): EmbeddingModel | null {
+  const adapter = getAdapter(provider.providerType as import('./types').ProviderType);
+  if (!adapter.createEmbeddingModel) return null;
+
+  const config = { ...provider } as import('./types').ProviderConfig;
+
+  return adapter.createEmbeddingModel(model.modelId, config);
+}
+
+/**
+ * 제공자 호출 에러를 어댑터의 분류 규칙으로 ProviderCallError로 변환합니다.
+ */
+export function normalizeProviderError(providerType: string, error: unknown): ProviderCallError {
+  const type = providerType as import('./types').ProviderType;
+  return hasAdapter(type)
+    ? getAdapter(type).normalizeError(error)
+    : toProviderCallError(error, { provider: providerType });
 }
 
 /**
  * FeatureResolver를 통해 제공자 순서를 결정합니다.
+ *
+ * routing.strategy가 'performance'이면 사용 이력 기반 가중 점수로 재정렬하고 순위 설명을 함께 반환합니다.
  */
 export async function getProviderOrder(
   featureType: string,
-  needsVision?: boolean
-): Promise<Array<{ provider: Provider; model: Model }>> {
+  requirements: import('./types').ResolutionRequirements = {},
+  routing?: RoutingOptions
+): Promise<ProviderOrder> {
   const resolver = getFeatureResolver();
-  const results = await resolver.resolveWithFallback(featureType, { needsVision });
+  const results = await resolver.resolveWithFallback(featureType, requirements);
 
   if (results.length === 0) {
+    // contextWindow 조건만 빼면 후보가 있는 경우 — 프롬프트가 너무 긴 것이므로 재시도해도 소용없음
+    if (requirements.minContextWindow) {
+      const { minContextWindow, ...rest } = requirements;
+      const unfiltered = await resolver.resolveWithFallback(featureType, rest);
+      if (unfiltered.length > 0) {
+        throw new ContextWindowExceededError(
+          minContextWindow,
+          getLargestContextWindow(unfiltered.map((r) => r.model as unknown as Model))
+        );
+      }
+    }
     throw new Error(`No providers available for feature "${featureType}"`);
   }
 
   // 타입 변환: FeatureResolver의 결과를 Provider/Model 타입으로 변환
-  return results.map((r) => ({
+  const candidates = results.map((r) => ({
     provider: r.provider as unknown as Provider,
     model: r.model as unknown as Model,
   }));
+
+  if (routing?.strategy !== 'performance') {
+    return { candidates };
+  }
+
+  const decision = await rankCandidatesByPerformance(candidates, featureType, routing);
+  console.info(`[Universal Router] ${featureType}: ${decision.reason}`);
+  return { candidates: decision.orderedCandidates, routingReason: decision.reason };
+}
+
+/**
+ * 헤지 요청 지연 시간을 결정합니다.
+ * 호출 옵션(override)이 있으면 우선하고, 없으면 기능 매핑 설정을 사용합니다. (null이면 헤지하지 않음)
+ *
+ * @param featureType - 기능 타입
+ * @param override - 호출 단위 설정 (undefined면 기능 매핑 설정 사용)
+ * @returns 헤지 지연 시간 (ms), 헤지하지 않으면 undefined
+ */
+export async function resolveHedgeDelayMs(
+  featureType: string,
+  override?: number | null
+): Promise<number | undefined> {
+  const delayMs = override !== undefined ? override : await getFeatureResolver().getHedgeDelayMs(featureType);
+  return delayMs ?? undefined;
+}
+
+/**
+ * 지정된 제공자의 기본 모델로 단일 항목 제공자 순서를 만듭니다.
+ * (providerId를 직접 지정한 호출용)
+ */
+export async function getSpecificProviderOrder(
+  providerId: string,
+  requirements: import('./types').ResolutionRequirements = {}
+): Promise<Array<{ provider: Provider; model: Model }>> {
+  const provider = await db.provider.findUnique({
+    where: { id: providerId },
+    include: { models: true },
+  });
+  if (!provider || !provider.isEnabled) {
+    throw new Error(`Provider "${providerId}" not found or disabled`);
+  }
+  const model = selectProviderModel(provider.models as Model[], requirements);
+  if (!model) {
+    if (requirements.minContextWindow) {
+      const { minContextWindow, ...rest } = requirements;
+      if (selectProviderModel(provider.models as Model[], rest)) {
+        throw new ContextWindowExceededError(minContextWindow, getLargestContextWindow(provider.models as Model[]));
+      }
+    }
+    throw new Error(
+      provider.models.length === 0
+        ? `Provider "${provider.name}" has no models configured`
+        : `Provider "${provider.name}" has no models supporting the required capabilities`
+    );
+  }
+  return [{ provider: provider as unknown as Provider, model }];
+}
+
+// 등록된 contextWindow 중 가장 큰 값 (하나도 없으면 null)
+function getLargestContextWindow(models: Model[]): number | null {
+  const windows = models.map((m) => m.contextWindow).filter((w): w is number => typeof w === 'number');
+  return windows.length > 0 ? Math.max(...windows) : null;
+}
+
+/**
+ * 제공자의 모델 중 요구사항(비전, 도구, 임베딩, 최소 contextWindow)을 만족하는 모델을 고릅니다.
+ * 기본 모델이 만족하면 기본 모델을, 아니면 처음 만족하는 모델을 반환합니다.
+ *
+ * @param models - 제공자의 모델 목록
+ * @param requirements - 요구사항
+ * @returns 선택된 모델 (없으면 undefined)
+ */
+export function selectProviderModel(
+  models: Model[],
+  requirements: import('./types').ResolutionRequirements = {}
+): Model | undefined {
+  const eligible = models.filter(
+    (m) =>
+      (!requirements.needsTools || m.supportsTools) &&
+      (!requirements.needsVision || m.supportsVision) &&
+      Boolean(requirements.needsEmbedding) === Boolean(m.supportsEmbedding) &&
+      (!requirements.minContextWindow || !m.contextWindow || m.contextWindow >= requirements.minContextWindow)
+  );
+  return eligible.find((m) => m.isDefault) || eligible[0];
+}
+
+/**
+ * generateText에 전달할 도구 호출 옵션을 만듭니다.
+ * tools가 없으면 빈 객체를 반환합니다.
+ */
+export function buildToolCallSettings(options: ToolCallingOptions) {
+  if (!options.tools) return {};
+  return {
+    tools: options.tools,
+    toolChoice: options.toolChoice,
+    stopWhen: stepCountIs(options.maxSteps ?? DEFAULT_MAX_TOOL_STEPS),
+  };
+}
+
+/**
+ * 모든 스텝의 도구 호출과 결과를 모읍니다.
+ */
+export function collectToolActivity(steps: ReadonlyArray<StepResult<ToolSet>>): {
+  toolCalls: ToolCallRecord[];
+  toolResults: ToolResultRecord[];
+  steps: number;
+} {
+  return {
+    toolCalls: steps.flatMap((s, step) =>
+      s.toolCalls.map((c) => ({ toolCallId: c.toolCallId, toolName: c.toolName, input: c.input, step }))
+    ),
+    toolResults: steps.flatMap((s, step) =>
+      s.toolResults.map((r) => ({ toolCallId: r.toolCallId, toolName: r.toolName, output: r.output, step }))
+    ),
+    steps: steps.length,
+  };
+}
+
+/**
+ * 라우터 호출용 제공자 순서를 만듭니다.
+ *
+ * 예산 정책(enforceBudget)을 먼저 평가하여 차단 시 BudgetExceededError를 발생시키고,
+ * downgrade 모드이면 저비용 제공자만 남깁니다.
+ * teacherId가 있으면 교사 단위 범위 예산과 요청 수 한도도 함께 평가합니다.
+ * tokenInput이 있으면 프롬프트 토큰을 추정해 minContextWindow를 설정하고,
+ * 프롬프트 + maxOutputTokens가 들어가지 않는 모델을 제외합니다.
+ *
+ * @param featureType - 기능 타입
+ * @param options - 특정 제공자 지정, 해상도 요구사항, 라우팅 전략, 요청 교사, 토큰 추정 입력
+ * @returns 후보 순서와 성능 기반 라우팅의 순위 설명
+ */
+export async function buildProviderOrder(
+  featureType: string,
+  options: {
+    providerId?: string;
+    requirements?: import('./types').ResolutionRequirements;
+    routing?: RoutingOptions;
+    /** 교사 단위 범위 예산 평가용 */
+    teacherId?: string;
+    /** contextWindow 사전 검사용 프롬프트 */
+    tokenInput?: PromptTokenInput;
+    maxOutputTokens?: number;
+  } = {}
+): Promise<ProviderOrder> {
+  const budget = await enforceBudget(featureType, options.teacherId);
+
+  const requirements = options.tokenInput
+    ? {
+        ...options.requirements,
+        minContextWindow: Math.max(
+          options.requirements?.minContextWindow ?? 0,
+          computeMinContextWindow(options.tokenInput, options.maxOutputTokens)
+        ),
+      }
+    : options.requirements;
+
+  // 특정 제공자가 지정된 경우: 해당 제공자의 기본 모델 사용
+  const { candidates, routingReason } = options.providerId
+    ? { candidates: await getSpecificProviderOrder(options.providerId, requirements), routingReason: undefined }
+    : await getProviderOrder(featureType, requirements, options.routing);
+
+  // minContextWindow는 가장 효율적인 토크나이저 기준이므로 모델별로 다시 확인
+  const fitting = options.tokenInput
+    ? fitCandidatesToContextWindow(candidates, options.tokenInput, options.maxOutputTokens)
+    : candidates;
+
+  return { candidates: applyBudgetToCandidates(fitting, budget, featureType), routingReason };
 }
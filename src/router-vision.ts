@@ -8,18 +8,28 @@
 import { generateText, type ModelMessage } from 'ai';
 import { db } from '@ais/db/client';
 import { getProviderRegistry } from './provider-registry';
-import { trackUsage, trackFailure } from './usage-tracker';
-import { FailoverError, isRetryableError } from './failover';
+import { trackUsage } from './usage-tracker';
+import { runProviderChain } from './router-chain';
+import { inspectResponse, ResponseQualityError, type ResponseGuardPolicy } from './response-guard';
+import { enforceBudget, applyBudgetToCandidates } from './budget-enforcement';
+import type { CancellationOptions } from './cancellation';
+import type { ProviderGateOptions } from './provider-gate';
+import type { RetryOptions } from './retry-policy';
+import { estimateForModel } from './token-estimation';
+import type { RoutingOptions } from './performance-routing';
 import {
   type Provider,
   type Model,
   type GenerateResult,
-  isRefusalResponse,
-  setupProviderEnv,
+  isProviderReady,
   createLanguageModel,
-  getProviderOrder,
+  buildProviderOrder,
+  resolveHedgeDelayMs,
 } from './router-utils';
 
+// 이미지 1장의 입력 토큰 추정치 (약 1메가픽셀 이미지 기준, 분당 토큰 한도 예약용)
+const IMAGE_TOKEN_ESTIMATE = 1600;
+
 // =============================================================================
 // 타입
 // =============================================================================
@@ -27,7 +37,7 @@ import {
 /**
  * Vision 분석 옵션 - 이미지를 포함한 요청
  */
-export interface VisionGenerateOptions {
+export interface VisionGenerateOptions extends CancellationOptions, ProviderGateOptions, RetryOptions {
   featureType: string;
   teacherId?: string;
   maxOutputTokens?: number;
@@ -39,6 +49,12 @@ export interface VisionGenerateOptions {
   mimeType: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
   /** 이미지와 함께 별낼 프롬프트 */
   prompt: string;
+  /** 자동 라우팅 전략 (기본: FeatureResolver 우선순위) */
+  routing?: RoutingOptions;
+  /** 응답 검사 정책 (기능별 설정 위에 덮어씀) */
+  responseGuard?: ResponseGuardPolicy;
+  /** 헤지 요청 지연 (ms, 기본: 기능 매핑 설정, null이면 사용 안 함) */
+  hedgeDelayMs?: number | null;
 }
 
 // =============================================================================
@@ -47,6 +63,8 @@ export interface VisionGenerateOptions {
 
 /**
  * Vision 기반 텍스트 생성 (이미지 분석)
+ *
+ * @throws FailoverError 모든 후보가 실패하면 후보별 시도 기록(errors)과 함께 발생
  */
 export async function generateWithVision(
   options: VisionGenerateOptions
@@ -62,37 +80,23 @@ export async function generateWithVision(
     prompt,
   } = options;
 
-  const providerOrder = await getProviderOrder(featureType, true);
-
-  let lastError: Error | null = null;
-  let failoverFrom: string | undefined;
-
-  for (let i = 0; i < providerOrder.length; i++) {
-    const { provider, model } = providerOrder[i];
-    const isFailover = i > 0;
-
-    if (isFailover) {
-      failoverFrom = providerOrder[i - 1].provider.providerType;
-      console.warn(
-        `[Universal Router] Vision failover: ${failoverFrom} -> ${provider.providerType} for ${featureType}`
-      );
-    }
-
-    const startTime = Date.now();
-
-    try {
-      const isReady = await setupProviderEnv(provider);
-      if (!isReady) {
-        console.warn(`Provider ${provider.providerType} not ready for vision, skipping...`);
-        continue;
-      }
+  const { candidates: providerOrder, routingReason } = await buildProviderOrder(featureType, {
+    requirements: { needsVision: true },
+    teacherId,
+    routing: options.routing,
+  });
 
+  return runProviderChain(
+    providerOrder,
+    {
+      ...options,
+      estimateTokens: ({ provider, model }) =>
+        estimateForModel({ system, prompt }, maxOutputTokens, provider, model).totalTokens + IMAGE_TOKEN_ESTIMATE,
       // Vision 지원 확인
-      if (!model.supportsVision) {
-        console.warn(`Model ${model.modelId} does not support vision, skipping...`);
-        continue;
-      }
-
+      skipReason: ({ model }) => (model.supportsVision ? null : 'does not support vision'),
+      hedgeDelayMs: await resolveHedgeDelayMs(featureType, options.hedgeDelayMs),
+    },
+    async ({ provider, model, keyId, isFailover, failoverFrom, retryAttempt, isHedged, signal, startTime }) => {
       const languageModel = createLanguageModel(provider, model);
 
       // Vercel AI SDK messages format with image
@@ -119,16 +123,15 @@ export async function generateWithVision(
         maxOutputTokens,
         temperature,
         maxRetries: 0,
+        abortSignal: signal,
       });
 
-      // LLM 거부 응답 감지 — 다음 모델로 폴백
-      if (isRefusalResponse(result.text)) {
-        console.warn(
-          `[Universal Router] Model ${model.modelId} refused the request, trying next provider...`
-        );
-        lastError = new Error(`Model ${model.modelId} refused: ${result.text.slice(0, 100)}`);
-        continue;
-      }
+      // 거부/품질 미달 응답 감지 — 사용량은 기록한 뒤 정책에 따라 재시도 또는 폴백
+      const issue = inspectResponse(
+        featureType,
+        { text: result.text, finishReason: result.finishReason },
+        options.responseGuard
+      );
 
       const responseTimeMs = Date.now() - startTime;
 
@@ -138,55 +141,35 @@ export async function generateWithVision(
         featureType: featureType as import('./providers/types').FeatureType,
         teacherId,
         inputTokens: result.usage?.inputTokens || 0,
+        cachedInputTokens: result.usage?.inputTokenDetails?.cacheReadTokens,
         outputTokens: result.usage?.outputTokens || 0,
         responseTimeMs,
         success: true,
-        failoverFrom: isFailover ? (failoverFrom as import('./providers/types').ProviderName) : undefined,
+        failoverFrom,
+        keyId,
+        retryAttempt,
+        qualityIssue: issue?.kind,
+        hedged: isHedged(),
+        // 재시도/폴백으로 버려지는 응답은 요청 수 한도에 세지 않음
+        countsAsRequest: !issue || issue.action === 'pass',
       });
 
+      if (issue && issue.action !== 'pass') {
+        throw new ResponseQualityError(issue.kind, issue.action, model.modelId, result.text);
+      }
+
       return {
         text: result.text,
         usage: result.usage,
         provider: provider.providerType,
         model: model.modelId,
         wasFailover: isFailover,
-        failoverFrom: isFailover ? (failoverFrom as import('./providers/types').ProviderName) : undefined,
+        failoverFrom,
+        hedged: isHedged(),
+        routingReason,
       };
-    } catch (error) {
-      const responseTimeMs = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-      console.error(`[Universal Router] Vision provider ${provider.providerType} failed:`, errorMessage);
-
-      await trackFailure({
-        provider: provider.providerType as import('./providers/types').ProviderName,
-        modelId: model.modelId,
-        featureType: featureType as import('./providers/types').FeatureType,
-        teacherId,
-        errorMessage,
-        responseTimeMs,
-      });
-
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // 재시도 불가능한 에러는 폴 백 체인 중단
-      if (!isRetryableError(lastError)) {
-        console.warn(
-          `[Universal Router] Vision error is not retryable, stopping: ${lastError.message}`
-        );
-        break;
-      }
     }
-  }
-
-  throw new FailoverError(featureType as import('./providers/types').FeatureType, [
-    {
-      provider: providerOrder[providerOrder.length - 1]?.provider.providerType as import('./providers/types').ProviderName || 'unknown',
-      error: lastError || new Error('Unknown error'),
-      timestamp: new Date(),
-      durationMs: 0,
-    },
-  ]);
+  );
 }
 
 /**
@@ -217,6 +200,9 @@ export async function generateVisionWithSpecificProvider(
 
   const typedProvider = provider as unknown as Provider;
 
+  // 예산 정책 적용 (차단 또는 저비용 등급 제한)
+  applyBudgetToCandidates([{ provider: typedProvider }], await enforceBudget(featureType, teacherId), featureType);
+
   // Vision 지원 모델 찾기
   const model = provider.models.find(m => m.supportsVision && m.isDefault) ||
                 provider.models.find(m => m.supportsVision);
@@ -225,15 +211,12 @@ export async function generateVisionWithSpecificProvider(
     throw new Error(`Provider ${providerType} does not have a vision-capable model`);
   }
 
-  const startTime = Date.now();
-
-  const isReady = await setupProviderEnv(typedProvider);
+  const isReady = await isProviderReady(typedProvider);
   if (!isReady) {
     throw new Error(`Provider ${providerType} is not configured or enabled`);
   }
 
-  const languageModel = createLanguageModel(typedProvider, model as unknown as Model);
-
+  const visionModel = model as unknown as Model;
   const messages: ModelMessage[] = [
     {
       role: 'user',
@@ -250,33 +233,50 @@ export async function generateVisionWithSpecificProvider(
     },
   ];
 
-  const result = await generateText({
-    model: languageModel,
-    messages,
-    system,
-    maxOutputTokens,
-    temperature,
-    maxRetries: 2,
-  });
-
-  const responseTimeMs = Date.now() - startTime;
+  // 단일 후보 체인 — 게이트, 재시도 정책, 시도/전체 기한, 키 쿨다운을 다른 경로와 같게 적용
+  // (지정 제공자는 마지막 후보이므로 Provider 행 한도 안에서 기다림)
+  return runProviderChain(
+    [{ provider: typedProvider, model: visionModel }],
+    {
+      ...options,
+      featureType,
+      estimateTokens: () =>
+        estimateForModel({ system, prompt }, maxOutputTokens, typedProvider, visionModel).totalTokens +
+        IMAGE_TOKEN_ESTIMATE,
+      hedgeDelayMs: undefined,
+    },
+    async ({ provider, keyId, retryAttempt, signal, startTime }) => {
+      const result = await generateText({
+        model: createLanguageModel(provider, visionModel),
+        messages,
+        system,
+        maxOutputTokens,
+        temperature,
+        maxRetries: 0,
+        abortSignal: signal,
+      });
 
-  await trackUsage({
-    provider: typedProvider.providerType as import('./providers/types').ProviderName,
-    modelId: model.modelId,
-    featureType: featureType as import('./providers/types').FeatureType,
-    teacherId,
-    inputTokens: result.usage?.inputTokens || 0,
-    outputTokens: result.usage?.outputTokens || 0,
-    responseTimeMs,
-    success: true,
-  });
+      await trackUsage({
+        provider: typedProvider.providerType as import('./providers/types').ProviderName,
+        modelId: model.modelId,
+        featureType: featureType as import('./providers/types').FeatureType,
+        teacherId,
+        inputTokens: result.usage?.inputTokens || 0,
+        cachedInputTokens: result.usage?.inputTokenDetails?.cacheReadTokens,
+        outputTokens: result.usage?.outputTokens || 0,
+        responseTimeMs: Date.now() - startTime,
+        success: true,
+        keyId,
+        retryAttempt,
+      });
 
-  return {
-    text: result.text,
-    usage: result.usage,
-    provider: typedProvider.providerType,
-    model: model.modelId,
-    wasFailover: false,
-  };
+      return {
+        text: result.text,
+        usage: result.usage,
+        provider: typedProvider.providerType,
+        model: model.modelId,
+        wasFailover: false,
+      };
+    }
+  );
 }
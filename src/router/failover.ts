@@ -1,10 +1,32 @@
 import type { ProviderName, FeatureType } from "../types.js"
+import { isRetryableError, classifyProviderError, type ProviderErrorCategory } from "../provider-errors.js"
+
+export { isRetryableError }
+
+/**
+ * 후보 1회 시도의 결과
+ * - failed: 제공자 호출 실패
+ * - refused: 모델이 요청을 거부
+ * - rejected: 응답 검사에서 걸러짐 (빈 응답, 잘린 응답, JSON 아님)
+ * - skipped: 준비되지 않음(서킷 열림 등), 요구 사항 불일치, 키 쿨다운으로 호출하지 않음
+ * - rate_limited: 클라이언트 측 호출 한도 대기가 길어 호출하지 않음
+ */
+export type ProviderAttemptOutcome = "failed" | "refused" | "rejected" | "skipped" | "rate_limited"
 
 export interface ProviderError {
   provider: ProviderName
   error: Error
+  /** 시도가 끝난 시각 */
   timestamp: Date
   durationMs: number
+  /** 시도한 모델 ID */
+  modelId?: string
+  /** 시도 결과 (없으면 failed) */
+  outcome?: ProviderAttemptOutcome
+  /** 호출 실패의 에러 분류 */
+  category?: ProviderErrorCategory
+  /** 같은 제공자 재시도 번호 (첫 시도는 0) */
+  retryAttempt?: number
 }
 
 export interface FailoverContext {
@@ -24,6 +46,12 @@ export interface FailoverResult<T> {
   totalDurationMs: number
 }
 
+function formatAttempt(entry: ProviderError): string {
+  const target = entry.modelId ? `${entry.provider}/${entry.modelId}` : entry.provider
+  const outcome = entry.outcome && entry.outcome !== "failed" ? ` [${entry.outcome}]` : ""
+  return `${target}${outcome}: ${entry.error.message}`
+}
+
 export class FailoverError extends Error {
   public readonly errors: ProviderError[]
   public readonly featureType: FeatureType
@@ -35,14 +63,15 @@ export class FailoverError extends Error {
     message?: string
   ) {
     const defaultMessage =
-      `All ${errors.length} providers failed for feature "${featureType}". ` +
-      `Errors: ${errors.map((e) => `${e.provider}: ${e.error.message}`).join("; ")}`
+      `All providers failed for feature "${featureType}" (${errors.length} attempts). ` +
+      `Errors: ${errors.map(formatAttempt).join("; ")}`
 
     super(message || defaultMessage)
     this.name = "FailoverError"
     this.featureType = featureType
     this.errors = errors
-    this.totalAttempts = errors.length
+    // 호출하지 않고 건너뛴 후보는 시도 횟수에서 제외
+    this.totalAttempts = errors.filter((e) => e.outcome !== "skipped" && e.outcome !== "rate_limited").length
     Object.setPrototypeOf(this, FailoverError.prototype)
   }
 
@@ -55,24 +84,6 @@ export class FailoverError extends Error {
   }
 }
 
-export function isRetryableError(error: Error): boolean {
-  const message = error.message.toLowerCase()
-
-  if (message.includes("rate limit") || message.includes("429")) return true
-  if (message.includes("503") || message.includes("service unavailable")) return true
-  if (
-    message.includes("network") ||
-    message.includes("timeout") ||
-    message.includes("econnrefused") ||
-    message.includes("enotfound") ||
-    message.includes("fetch failed")
-  ) return true
-  if (message.includes("500") || message.includes("502") || message.includes("504")) return true
-  if (message.includes("400") || message.includes("401") || message.includes("403")) return false
-
-  return true
-}
-
 export function logProviderError(
   provider: ProviderName,
   error: Error,
@@ -81,7 +92,7 @@ export function logProviderError(
   const { featureType, attempt = 1, previousProvider } = context
   console.error(
     `[LLM Failover] Provider ${provider} failed:`,
-    JSON.stringify({ timestamp: new Date().toISOString(), provider, featureType, attempt, previousProvider, error: { name: error.name, message: error.message }, isRetryable: isRetryableError(error) }, null, 2)
+    JSON.stringify({ timestamp: new Date().toISOString(), provider, featureType, attempt, previousProvider, error: { name: error.name, message: error.message }, category: classifyProviderError(error), isRetryable: isRetryableError(error) }, null, 2)
   )
 }
 
@@ -110,6 +121,7 @@ export type TrackFailureFn = (input: {
   featureType: FeatureType
   teacherId?: string
   errorMessage: string
+  errorCategory?: ProviderErrorCategory
   responseTimeMs: number
 }) => Promise<void>
 
@@ -145,7 +157,7 @@ export async function withFailover<T>(
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error))
       const durationMs = Date.now() - attemptStartTime
-      errors.push({ provider, error: err, timestamp: new Date(), durationMs })
+      errors.push({ provider, error: err, timestamp: new Date(), durationMs, outcome: "failed", category: classifyProviderError(err) })
       logProviderError(provider, err, { ...context, attempt, previousProvider })
 
       if (trackFailure) {
@@ -155,6 +167,7 @@ export async function withFailover<T>(
           featureType: context.featureType,
           teacherId: context.teacherId,
           errorMessage: err.message,
+          errorCategory: classifyProviderError(err),
           responseTimeMs: durationMs,
         }).catch((trackErr) => {
           console.error("[LLM Failover] Failed to track failure:", trackErr)
@@ -17,5 +17,6 @@ export {
   type FailoverContext,
   type FailoverResult,
   type ProviderError,
+  type ProviderAttemptOutcome,
   type TrackFailureFn,
 } from "./failover.js"
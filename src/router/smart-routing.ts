@@ -12,6 +12,12 @@ export interface BudgetAlert {
   currentCost: number
   budget: number
   percentUsed: number
+  scope?: "global" | "teacher" | "feature" | "teacher_feature"
+  budgetId?: string
+  teacherId?: string
+  featureType?: string
+  requestCount?: number
+  requestLimit?: number
 }
 
 export interface RoutingResult {
@@ -11,7 +11,15 @@ import {
   type ProviderName,
   type FeatureType,
 } from './providers';
-import { getCurrentPeriodCost } from './usage-tracker';
+import { getCurrentPeriodCost, getPeriodStartDate } from './usage-tracker';
+import { findModelPricing, computeCost } from './model-pricing';
+import {
+  getBudgetScope,
+  getScopedUsage,
+  type BudgetEnforcementMode,
+  type BudgetScope,
+  type ScopedBudgetRule,
+} from './budget-enforcement';
 
 // 예산 기간 타입
 export type BudgetPeriod = 'daily' | 'weekly' | 'monthly';
@@ -23,6 +31,37 @@ export interface BudgetAlert {
   currentCost: number;
   budget: number;
   percentUsed: number;
+  /** 예산 범위 (없으면 전체 예산) */
+  scope?: BudgetScope;
+  /** 범위 예산 ID (LLMScopedBudget) */
+  budgetId?: string;
+  teacherId?: string;
+  featureType?: string;
+  /** 기간 내 성공 요청 수 (요청 수 한도가 있는 범위 예산) */
+  requestCount?: number;
+  requestLimit?: number;
+}
+
+// 예산 사용량 요약 항목
+export interface BudgetSummaryEntry {
+  period: BudgetPeriod;
+  scope: BudgetScope;
+  /** 범위 예산 ID (전체 예산은 없음) */
+  budgetId?: string;
+  teacherId?: string | null;
+  featureType?: string | null;
+  budget: number;
+  currentCost: number;
+  percentUsed: number;
+  remaining: number;
+  isOverBudget: boolean;
+  alertAt80: boolean;
+  alertAt100: boolean;
+  enforcementMode: BudgetEnforcementMode;
+  /** 요청 수 한도 (없으면 null) */
+  requestLimit: number | null;
+  /** 기간 내 성공 요청 수 (범위 예산만 집계) */
+  requestCount: number | null;
 }
 
 // 라우팅 결과
@@ -153,30 +192,29 @@ async function updateAlertStatus(period: BudgetPeriod, threshold: number) {
 
 /**
  * 예산 사용량 요약을 가져옵니다.
+ *
+ * 전체 예산(기간별)에 이어 범위 예산의 사용량을 반환합니다.
+ * perTeacher 범위 예산은 기간 내 사용 기록이 있는 교사별로 항목을 나누며,
+ * 범위 예산 항목은 사용 비율이 높은 순으로 정렬됩니다.
+ *
+ * @param options.includeScoped 범위 예산 포함 여부 (기본: true)
  */
-export async function getBudgetSummary(): Promise<
-  Array<{
-    period: BudgetPeriod;
-    budget: number;
-    currentCost: number;
-    percentUsed: number;
-    remaining: number;
-    isOverBudget: boolean;
-    alertAt80: boolean;
-    alertAt100: boolean;
-  }>
-> {
+export async function getBudgetSummary(
+  options: { includeScoped?: boolean } = {}
+): Promise<BudgetSummaryEntry[]> {
+  const { includeScoped = true } = options;
   const budgets = await db.lLMBudget.findMany();
   const periods: BudgetPeriod[] = ['daily', 'weekly', 'monthly'];
 
-  const result = await Promise.all(
-    periods.map(async (period) => {
+  const result: BudgetSummaryEntry[] = await Promise.all(
+    periods.map(async (period): Promise<BudgetSummaryEntry> => {
       const budget = budgets.find((b) => b.period === period);
       const currentCost = await getCurrentPeriodCost(period);
 
       if (!budget) {
         return {
           period,
+          scope: 'global',
           budget: 0,
           currentCost,
           percentUsed: 0,
@@ -184,6 +222,9 @@ export async function getBudgetSummary(): Promise<
           isOverBudget: false,
           alertAt80: true,
           alertAt100: true,
+          enforcementMode: 'alert_only',
+          requestLimit: null,
+          requestCount: null,
         };
       }
 
@@ -193,6 +234,7 @@ export async function getBudgetSummary(): Promise<
 
       return {
         period,
+        scope: 'global',
         budget: budget.budgetUsd,
         currentCost,
         percentUsed,
@@ -200,11 +242,89 @@ export async function getBudgetSummary(): Promise<
         isOverBudget: currentCost > budget.budgetUsd,
         alertAt80: budget.alertAt80,
         alertAt100: budget.alertAt100,
+        enforcementMode: (budget.enforcementMode ?? 'alert_only') as BudgetEnforcementMode,
+        requestLimit: null,
+        requestCount: null,
       };
     })
   );
 
-  return result;
+  if (!includeScoped) {
+    return result;
+  }
+
+  const scopedBudgets = (await db.lLMScopedBudget.findMany({
+    where: { isEnabled: true },
+  })) as ScopedBudgetRule[];
+
+  const scopedEntries = (await Promise.all(scopedBudgets.map(getScopedBudgetEntries))).flat();
+  scopedEntries.sort((a, b) => b.percentUsed - a.percentUsed);
+
+  return [...result, ...scopedEntries];
+}
+
+/**
+ * 범위 예산 하나의 사용량 요약 항목을 만듭니다.
+ * perTeacher 예산은 교사별로 나누어 집계합니다.
+ */
+async function getScopedBudgetEntries(rule: ScopedBudgetRule): Promise<BudgetSummaryEntry[]> {
+  const period = rule.period as BudgetPeriod;
+
+  const toEntry = (teacherId: string | null, costUsd: number, requests: number): BudgetSummaryEntry => {
+    const budgetUsd = rule.budgetUsd ?? 0;
+    const costPercent = budgetUsd > 0 ? (costUsd / budgetUsd) * 100 : 0;
+    const requestPercent = rule.requestLimit ? (requests / rule.requestLimit) * 100 : 0;
+
+    return {
+      period,
+      scope: getBudgetScope(rule),
+      budgetId: rule.id,
+      teacherId,
+      featureType: rule.featureType,
+      budget: budgetUsd,
+      currentCost: costUsd,
+      percentUsed: Math.max(costPercent, requestPercent),
+      remaining: Math.max(0, budgetUsd - costUsd),
+      // enforceBudget과 같은 기준 (한도에 도달하면 초과)
+      isOverBudget:
+        (budgetUsd > 0 && costUsd >= budgetUsd) ||
+        (!!rule.requestLimit && requests >= rule.requestLimit),
+      // 범위 예산은 호출 전 제한만 지원 (임계값 알림 없음)
+      alertAt80: false,
+      alertAt100: false,
+      enforcementMode: rule.enforcementMode as BudgetEnforcementMode,
+      requestLimit: rule.requestLimit,
+      requestCount: requests,
+    };
+  };
+
+  if (rule.teacherId || !rule.perTeacher) {
+    const usage = await getScopedUsage(period, {
+      teacherId: rule.teacherId ?? undefined,
+      featureType: rule.featureType ?? undefined,
+    });
+    return [toEntry(rule.teacherId, usage.costUsd, usage.requests)];
+  }
+
+  const where = {
+    createdAt: { gte: getPeriodStartDate(period) },
+    success: true,
+    teacherId: { not: null },
+    ...(rule.featureType && { featureType: rule.featureType }),
+  };
+  // 요청 수는 getScopedUsage와 같이 논리적 요청당 1건만 셈
+  const [costGroups, requestGroups] = await Promise.all([
+    db.lLMUsage.groupBy({ by: ['teacherId'], where, _sum: { costUsd: true } }),
+    db.lLMUsage.groupBy({ by: ['teacherId'], where: { ...where, countsAsRequest: true }, _count: { _all: true } }),
+  ]);
+
+  return costGroups.map((group) =>
+    toEntry(
+      group.teacherId,
+      group._sum.costUsd || 0,
+      requestGroups.find((g) => g.teacherId === group.teacherId)?._count._all ?? 0
+    )
+  );
 }
 
 /**
@@ -267,21 +387,22 @@ export async function getSmartRoutingDecision(
 
 /**
  * 예상 비용을 계산합니다.
+ * modelId가 있으면 모델 가격을, 없으면 제공자 단위 가격을 사용합니다.
  *
  * @param provider 제공자
  * @param estimatedInputTokens 예상 입력 토큰
  * @param estimatedOutputTokens 예상 출력 토큰
+ * @param modelId 모델 ID
  * @returns 예상 비용 (USD)
  */
 export function estimateCost(
   provider: ProviderName,
   estimatedInputTokens: number,
-  estimatedOutputTokens: number
+  estimatedOutputTokens: number,
+  modelId?: string
 ): number {
-  const costs = COST_PER_MILLION_TOKENS[provider];
-  const inputCost = (estimatedInputTokens / 1_000_000) * costs.input;
-  const outputCost = (estimatedOutputTokens / 1_000_000) * costs.output;
-  return Math.round((inputCost + outputCost) * 1000000) / 1000000;
+  const pricing = findModelPricing(provider, modelId ?? '');
+  return computeCost(pricing, { inputTokens: estimatedInputTokens, outputTokens: estimatedOutputTokens });
 }
 
 /**
@@ -294,7 +415,7 @@ export function estimateCost(
 export async function filterByBudget(
   enabledProviders: ProviderName[]
 ): Promise<ProviderName[]> {
-  const summary = await getBudgetSummary();
+  const summary = await getBudgetSummary({ includeScoped: false });
 
   // 모든 기간이 예산 초과인지 확인
   const allOverBudget = summary.every(
@@ -8,11 +8,86 @@
  *   npx tsx src/lib/ai/test-integration.ts
  */
 
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { PrismaClient } from '@prisma/client';
 import { ProviderRegistry } from './provider-registry';
 import { FeatureResolver } from './feature-resolver';
 import { getProviderTemplates } from './templates';
-import type { ProviderInput } from './types';
+import { APICallError, generateText, streamText, simulateReadableStream, embedMany, tool } from 'ai';
+import { MockEmbeddingModelV3, MockLanguageModelV3 } from 'ai/test';
+import { z } from 'zod';
+import { encryptApiKey } from './encryption';
+import { getAdapter } from './adapters';
+import {
+  createLanguageModel,
+  buildToolCallSettings,
+  collectToolActivity,
+  waitForFirstToken,
+  type Provider,
+  type Model,
+} from './router-utils';
+import {
+  configureCircuitBreaker,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+  acquireCircuitTrial,
+  getCircuitState,
+  getCircuitSnapshots,
+  resetCircuit,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from './circuit-breaker';
+import { enforceBudget, invalidateBudgetCache, BudgetExceededError } from './budget-enforcement';
+import { saveScopedBudgetConfig, deleteScopedBudgetConfig } from './config';
+import { getBudgetSummary } from './smart-routing';
+import { getModelPricing, setModelPricing, computeCost, invalidatePricingCache } from './model-pricing';
+import {
+  buildResponseCacheKey,
+  MemoryResponseCacheStore,
+  PrismaResponseCacheStore,
+  type ResponseCacheStore,
+} from './response-cache';
+import {
+  createConversationSession,
+  appendConversationMessages,
+  listConversationSessions,
+  getConversationSession,
+  prepareConversation,
+  deleteConversationSession,
+} from './conversation-sessions';
+import {
+  estimateTokens,
+  computeMinContextWindow,
+  fitCandidatesToContextWindow,
+  ContextWindowExceededError,
+} from './token-estimation';
+import {
+  configureCounselingRetrieval,
+  createHashingEmbedder,
+  indexCounselingSessions,
+  searchCounselingSessions,
+  MemoryCounselingVectorStore,
+  CounselingEmbeddingMismatchError,
+} from './counseling-retrieval';
+import { buildCounselingSummaryPrompt } from './prompts/counseling';
+import { runBatch } from './batch-runner';
+import { createProviderGate, getProviderRateLimiter, ProviderRateLimitedError, type ProviderGate } from './provider-gate';
+import {
+  submitProviderBatchJob,
+  pollProviderBatchJob,
+  collectProviderBatchJob,
+} from './provider-batch';
+import { calculateCost } from './usage-tracker';
+import { getRetryDelayMs, isTransientError } from './retry-policy';
+import { toProviderCallError, isRetryableError, QuotaExceededError } from './provider-errors';
+import { runProviderChain, RefusalError } from './router-chain';
+import { FailoverError } from './failover';
+import { rankCandidatesByPerformance } from './performance-routing';
+import { RequestAbortedError } from './cancellation';
+import { configureResponseGuard, inspectResponse, ResponseQualityError } from './response-guard';
+import { generateObjectWithProvider, parseJsonResponse, SchemaValidationError } from './router-object';
+import { aggregateScores, runEnsembleMembers, EnsembleQuorumError, COMPATIBILITY_SCORE_AGGREGATION } from './ensemble';
+import type { ProviderConfig, ProviderInput } from './types';
 
 const prisma = new PrismaClient();
 
@@ -308,7 +383,1576 @@ async function runIntegrationTests(): Promise<void> {
   });
 
   // ============================================================
-  // 시나리오 10: 정리 (Cleanup)
+  // 시나리오 10: 동시 호출 자격 증명 격리
+  // ============================================================
+  await runTest('Concurrent Credential Isolation', async () => {
+    // 같은 providerType(OpenAI)의 서로 다른 Provider 레코드 2개
+    const keys = { a: 'sk-test-isolation-a', b: 'sk-test-isolation-b' };
+    const buildProvider = (label: 'a' | 'b'): Provider => ({
+      id: `isolation-${label}`,
+      name: `Isolation ${label.toUpperCase()}`,
+      providerType: 'openai',
+      baseUrl: 'https://api.openai.com/v1',
+      apiKeyEncrypted: encryptApiKey(keys[label]),
+      isEnabled: true,
+    } as Provider);
+    const providers = { a: buildProvider('a'), b: buildProvider('b') };
+    const model = { id: 'isolation-model', modelId: 'gpt-4o-mini' } as Model;
+
+    // 실제 네트워크 대신 요청 헤더를 기록하는 fetch 스텁
+    const seen: Array<{ expected: string; authorization: string | null }> = [];
+    const originalFetch = globalThis.fetch;
+    const envBefore = process.env.OPENAI_API_KEY;
+
+    globalThis.fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body ?? '{}'));
+      const prompt = JSON.stringify(body.messages ?? body.input ?? '');
+      const expected = prompt.includes('label:a') ? keys.a : keys.b;
+      const authorization = new Headers(init?.headers).get('authorization');
+
+      // 요청 순서를 섞기 위한 임의 지연
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 20));
+      seen.push({ expected, authorization });
+
+      return new Response(JSON.stringify({ error: { message: 'stubbed' } }), {
+        status: 400,
+        headers: { 'content-type': 'application/json' },
+      });
+    }) as typeof fetch;
+
+    try {
+      const calls = Array.from({ length: 20 }, (_, i) => {
+        const label = i % 2 === 0 ? 'a' : 'b';
+        return generateText({
+          model: createLanguageModel(providers[label], model),
+          prompt: `label:${label}`,
+          maxRetries: 0,
+        }).catch(() => undefined);
+      });
+      await Promise.all(calls);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+
+    if (seen.length !== 20) {
+      throw new Error(`Expected 20 requests, got ${seen.length}`);
+    }
+
+    const mismatched = seen.filter((r) => r.authorization !== `Bearer ${r.expected}`);
+    if (mismatched.length > 0) {
+      throw new Error(`${mismatched.length} requests used another provider's API key`);
+    }
+
+    if (process.env.OPENAI_API_KEY !== envBefore) {
+      throw new Error('process.env.OPENAI_API_KEY was modified during routing');
+    }
+
+    console.log(`   ✅ ${seen.length} concurrent requests used their own API key`);
+  });
+
+  // ============================================================
+  // 시나리오 11: 키 풀 순환 및 429 쿨다운
+  // ============================================================
+  await runTest('Key Pool Rotation and Cooldown', async () => {
+    if (!testProviderId) {
+      throw new Error('No test provider created');
+    }
+
+    const first = await registry.addKey({ providerId: testProviderId, apiKey: 'sk-pool-first', label: 'first' });
+    const second = await registry.addKey({ providerId: testProviderId, apiKey: 'sk-pool-second', label: 'second' });
+    console.log(`   ✅ Added keys: ${first.maskedKey}, ${second.maskedKey}`);
+
+    try {
+      // round_robin: 두 키를 번갈아 사용
+      const picks: Array<string | undefined> = [];
+      for (let i = 0; i < 4; i++) {
+        picks.push((await registry.acquireKey(testProviderId, 'round_robin'))?.keyId);
+      }
+      if (new Set(picks).size !== 2 || picks[0] === picks[1]) {
+        throw new Error(`Round-robin did not alternate keys: ${picks.join(', ')}`);
+      }
+      console.log('   ✅ Round-robin alternates keys');
+
+      // 429를 받은 키는 쿨다운 동안 선택되지 않음
+      await registry.reportKeyThrottled(first.id, 60_000);
+      for (let i = 0; i < 3; i++) {
+        const key = await registry.acquireKey(testProviderId, 'round_robin');
+        if (key?.keyId !== second.id) {
+          throw new Error('Throttled key was selected during cooldown');
+        }
+      }
+
+      const keys = await registry.listKeys(testProviderId);
+      if (!keys.find(k => k.id === first.id)?.isCoolingDown) {
+        throw new Error('Throttled key is not reported as cooling down');
+      }
+      console.log('   ✅ Throttled key skipped during cooldown');
+
+      // least_recently_throttled: 쿨다운이 끝나도 최근 429 키는 후순위
+      await registry.reportKeyThrottled(first.id, 0);
+      const key = await registry.acquireKey(testProviderId, 'least_recently_throttled');
+      if (key?.keyId !== second.id) {
+        throw new Error('Least-recently-throttled strategy picked the recently throttled key');
+      }
+      console.log('   ✅ Least-recently-throttled prefers the key without recent 429');
+    } finally {
+      await registry.removeKey(first.id);
+      await registry.removeKey(second.id);
+    }
+
+    if (await registry.hasKeys(testProviderId)) {
+      throw new Error('Keys still exist after removal');
+    }
+  });
+
+  // ============================================================
+  // 시나리오 12: 서킷 브레이커 상태 전이
+  // ============================================================
+  await runTest('Circuit Breaker State Transitions', async () => {
+    configureCircuitBreaker({ failureThreshold: 3, openDurationMs: 50 });
+
+    try {
+      // 요청 자체의 문제(잘못된 요청, 인증)는 모델 상태와 무관하므로 세지 않음
+      for (let i = 0; i < 3; i++) {
+        recordCircuitFailure('openai', 'circuit-test-model', 'HTTP 400', 'invalid_request');
+      }
+      if (getCircuitState('openai', 'circuit-test-model') !== 'closed') {
+        throw new Error('Non-transient failures should not open the circuit');
+      }
+      console.log('   ✅ invalid_request failures ignored');
+
+      for (let i = 0; i < 3; i++) {
+        recordCircuitFailure('openai', 'circuit-test-model', 'HTTP 503', 'server');
+      }
+      if (getCircuitState('openai', 'circuit-test-model') !== 'open') {
+        throw new Error('Circuit did not open after consecutive failures');
+      }
+      console.log('   ✅ closed → open');
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      if (getCircuitState('openai', 'circuit-test-model') !== 'half_open') {
+        throw new Error('Circuit did not move to half_open after open duration');
+      }
+      console.log('   ✅ open → half_open');
+
+      // half_open에서는 동시에 하나의 시험 호출만 허용
+      const trial = acquireCircuitTrial('openai', 'circuit-test-model');
+      if (!trial || acquireCircuitTrial('openai', 'circuit-test-model')) {
+        throw new Error('half_open should allow exactly one concurrent trial call');
+      }
+      trial();
+      const retrial = acquireCircuitTrial('openai', 'circuit-test-model');
+      if (!retrial) {
+        throw new Error('Released trial should allow the next trial call');
+      }
+      console.log('   ✅ half_open allows one trial call at a time');
+
+      recordCircuitFailure('openai', 'circuit-test-model', 'HTTP 503');
+      if (getCircuitState('openai', 'circuit-test-model') !== 'open') {
+        throw new Error('Failed probe did not reopen the circuit');
+      }
+      console.log('   ✅ half_open → open on failed probe');
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      recordCircuitSuccess('openai', 'circuit-test-model');
+      const snapshot = getCircuitSnapshots().find(c => c.modelId === 'circuit-test-model');
+      if (snapshot?.state !== 'closed' || snapshot.consecutiveFailures !== 0) {
+        throw new Error('Successful probe did not close the circuit');
+      }
+      console.log(`   ✅ half_open → closed (health score: ${snapshot.healthScore.toFixed(2)})`);
+    } finally {
+      resetCircuit('openai', 'circuit-test-model');
+      configureCircuitBreaker(DEFAULT_CIRCUIT_BREAKER_CONFIG);
+    }
+  });
+
+  // ============================================================
+  // 시나리오 13: 교사별 요청 수 한도
+  // ============================================================
+  await runTest('Per-Teacher Request Quota', async () => {
+    const teacherId = `quota-test-${Date.now()}`;
+    const budget = await saveScopedBudgetConfig({
+      featureType: 'face_analysis',
+      perTeacher: true,
+      period: 'monthly',
+      requestLimit: 1,
+    });
+
+    try {
+      await enforceBudget('face_analysis', teacherId);
+      console.log('   ✅ Allowed before quota is used');
+
+      // 캐시 적중과 요청 내부 호출(세션 요약 등)은 요청 수에 세지 않음
+      const uncounted = {
+        provider: 'openai',
+        modelId: 'quota-test-model',
+        featureType: 'face_analysis',
+        teacherId,
+        inputTokens: 10,
+        outputTokens: 10,
+        totalTokens: 20,
+        costUsd: 0,
+        responseTimeMs: 1,
+        success: true,
+        countsAsRequest: false,
+      };
+      await prisma.lLMUsage.createMany({ data: [{ ...uncounted, cacheHit: true }, uncounted] });
+      // 사용량을 직접 기록했으므로 캐시(차단 예산 5초)를 비우고 다시 평가
+      invalidateBudgetCache();
+      await enforceBudget('face_analysis', teacherId);
+      console.log('   ✅ Cache hits and summary calls not counted');
+
+      await prisma.lLMUsage.create({
+        data: {
+          provider: 'openai',
+          modelId: 'quota-test-model',
+          featureType: 'face_analysis',
+          teacherId,
+          inputTokens: 10,
+          outputTokens: 10,
+          totalTokens: 20,
+          costUsd: 0,
+          responseTimeMs: 1,
+          success: true,
+        },
+      });
+
+      // 다른 교사와 다른 기능은 영향 없음
+      await enforceBudget('face_analysis', `${teacherId}-other`);
+      await enforceBudget('counseling_suggest', teacherId);
+
+      invalidateBudgetCache();
+      try {
+        await enforceBudget('face_analysis', teacherId);
+        throw new Error('Quota was not enforced');
+      } catch (error) {
+        if (!(error instanceof BudgetExceededError)) throw error;
+        if (error.alert.requestCount !== 1 || error.alert.teacherId !== teacherId) {
+          throw new Error('BudgetExceededError does not describe the teacher quota');
+        }
+        console.log(`   ✅ Blocked: ${error.message}`);
+      }
+
+      const summary = await getBudgetSummary();
+      const entry = summary.find(e => e.budgetId === budget.id && e.teacherId === teacherId);
+      if (!entry || entry.requestCount !== 1 || entry.scope !== 'teacher_feature') {
+        throw new Error('Budget summary does not report the teacher scope');
+      }
+      console.log(`   ✅ Summary: ${entry.requestCount}/${entry.requestLimit} requests`);
+    } finally {
+      await deleteScopedBudgetConfig(budget.id);
+      await prisma.lLMUsage.deleteMany({ where: { teacherId } });
+    }
+  });
+
+  // ============================================================
+  // 시나리오 14: 모델 가격 레지스트리
+  // ============================================================
+  await runTest('Model Pricing Registry', async () => {
+    // 기본 가격: 같은 제공자라도 모델별로 다른 가격
+    const gpt4o = await getModelPricing('openai', 'gpt-4o');
+    const gpt4oMini = await getModelPricing('openai', 'gpt-4o-mini');
+    if (gpt4oMini.inputPerMillion >= gpt4o.inputPerMillion) {
+      throw new Error('gpt-4o-mini is priced like gpt-4o');
+    }
+    console.log(`   ✅ gpt-4o $${gpt4o.inputPerMillion}/M vs gpt-4o-mini $${gpt4oMini.inputPerMillion}/M`);
+
+    const modelId = `pricing-test-${Date.now()}`;
+    const now = Date.now();
+
+    try {
+      await setModelPricing({
+        providerType: 'openai',
+        modelId,
+        inputPerMillion: 1,
+        outputPerMillion: 2,
+        cachedInputPerMillion: 0.5,
+        effectiveFrom: new Date(now - 60_000),
+      });
+      await setModelPricing({
+        providerType: 'openai',
+        modelId,
+        inputPerMillion: 10,
+        outputPerMillion: 20,
+        effectiveFrom: new Date(now + 60 * 60_000),
+      });
+
+      const current = await getModelPricing('openai', modelId);
+      if (current.resolvedFrom !== 'registry' || current.inputPerMillion !== 1) {
+        throw new Error(`Expected current registry price, got ${JSON.stringify(current)}`);
+      }
+      const future = await getModelPricing('openai', modelId, new Date(now + 2 * 60 * 60_000));
+      if (future.inputPerMillion !== 10) {
+        throw new Error('Future price was not applied after its effective date');
+      }
+      console.log('   ✅ Effective dates respected');
+
+      // 1M 입력 중 절반 캐시: 0.5 * $1 + 0.5 * $0.5 + 1M 출력 * $2
+      const cost = computeCost(current, { inputTokens: 1_000_000, outputTokens: 1_000_000, cachedInputTokens: 500_000 });
+      if (cost !== 2.75) {
+        throw new Error(`Expected $2.75, got $${cost}`);
+      }
+      console.log(`   ✅ Cached input priced separately: $${cost}`);
+    } finally {
+      await prisma.modelPricing.deleteMany({ where: { modelId } });
+      invalidatePricingCache();
+    }
+  });
+
+  // ============================================================
+  // 시나리오 15: 응답 캐시 저장소
+  // ============================================================
+  await runTest('Response Cache Stores', async () => {
+    const keyInput = {
+      featureType: 'saju_analysis',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      system: 'system',
+      prompt: 'prompt',
+    };
+    const key = buildResponseCacheKey({ ...keyInput, params: { temperature: 0, maxOutputTokens: 100 } });
+    const sameKey = buildResponseCacheKey({ ...keyInput, params: { maxOutputTokens: 100, temperature: 0 } });
+    const otherKey = buildResponseCacheKey({ ...keyInput, params: { temperature: 0.7, maxOutputTokens: 100 } });
+    if (key !== sameKey || key === otherKey) {
+      throw new Error('Cache key is not a stable hash of the inputs');
+    }
+    console.log('   ✅ Cache key stable across parameter order');
+
+    const stores: Array<[string, ResponseCacheStore]> = [
+      ['memory', new MemoryResponseCacheStore()],
+      ['prisma', new PrismaResponseCacheStore(prisma)],
+    ];
+
+    for (const [name, store] of stores) {
+      const now = Date.now();
+      const entry = {
+        text: 'cached text',
+        usage: { inputTokens: 10, outputTokens: 20, totalTokens: 30 } as import('ai').LanguageModelUsage,
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        featureType: 'cache_test',
+        createdAt: new Date(now),
+        expiresAt: new Date(now + 60_000),
+      };
+
+      try {
+        await store.set(key, entry);
+        if ((await store.get(key))?.text !== 'cached text') {
+          throw new Error(`${name}: stored entry not returned`);
+        }
+
+        await store.set(otherKey, { ...entry, expiresAt: new Date(now - 1) });
+        if (await store.get(otherKey)) {
+          throw new Error(`${name}: expired entry returned`);
+        }
+
+        if ((await store.deleteByFeature('cache_test')) < 1 || (await store.get(key))) {
+          throw new Error(`${name}: feature invalidation failed`);
+        }
+        console.log(`   ✅ ${name} store: get/set, TTL, invalidation`);
+      } finally {
+        await store.delete(key);
+        await store.delete(otherKey);
+      }
+    }
+
+    // 캐시 조회는 게이트 슬롯/키 대여 전에 실행 — 적중하면 제공자 호출 슬롯을 쓰지 않음
+    let acquired = 0;
+    const countingGate: ProviderGate = {
+      acquire: async () => {
+        acquired++;
+        return () => {};
+      },
+    };
+    const provider = { id: 'cache-provider', providerType: 'openai', isEnabled: true, apiKeyEncrypted: encryptApiKey('sk-test') } as unknown as Provider;
+    const result = await runProviderChain(
+      [{ provider, model: { id: 'cache-model', modelId: 'cache-model' } as unknown as Model }],
+      { featureType: 'cache_test', gate: countingGate },
+      async () => 'called',
+      async () => 'cached'
+    );
+    if (result !== 'cached' || acquired !== 0) {
+      throw new Error(`Cache hit should skip the provider gate, got ${result} (acquired: ${acquired})`);
+    }
+    console.log('   ✅ Cache hit returned before acquiring a provider permit');
+  });
+
+  // ============================================================
+  // 시나리오 16: 도구 호출 루프
+  // ============================================================
+  await runTest('Tool Calling Loop', async () => {
+    const usage = {
+      inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+      outputTokens: { total: 5, text: 5, reasoning: undefined },
+    };
+    let call = 0;
+
+    // 1스텝: 도구 호출, 2스텝: 결과를 받아 최종 답변
+    const model = new MockLanguageModelV3({
+      doGenerate: async () => {
+        call++;
+        return call === 1
+          ? {
+              content: [{ type: 'tool-call', toolCallId: 'call-1', toolName: 'add', input: '{"a":2,"b":3}' }],
+              finishReason: { unified: 'tool-calls', raw: 'tool_calls' },
+              usage,
+              warnings: [],
+            }
+          : {
+              content: [{ type: 'text', text: 'The answer is 5' }],
+              finishReason: { unified: 'stop', raw: 'stop' },
+              usage,
+              warnings: [],
+            };
+      },
+    });
+
+    const result = await generateText({
+      model,
+      prompt: 'What is 2 + 3?',
+      ...buildToolCallSettings({
+        tools: {
+          add: tool({
+            inputSchema: z.object({ a: z.number(), b: z.number() }),
+            execute: async ({ a, b }) => a + b,
+          }),
+        },
+        maxSteps: 3,
+      }),
+    });
+
+    const activity = collectToolActivity(result.steps);
+    if (activity.steps !== 2 || activity.toolCalls.length !== 1 || activity.toolResults[0]?.output !== 5) {
+      throw new Error(`Unexpected tool activity: ${JSON.stringify(activity)}`);
+    }
+    if (result.totalUsage.inputTokens !== 20) {
+      throw new Error(`Expected tokens summed across steps, got ${result.totalUsage.inputTokens}`);
+    }
+    console.log(`   ✅ ${activity.steps} steps, tool result ${activity.toolResults[0].output}, ${result.totalUsage.inputTokens} input tokens`);
+  });
+
+  // ============================================================
+  // 시나리오 17: 대화 세션
+  // ============================================================
+  await runTest('Conversation Sessions', async () => {
+    const teacherId = `conversation-test-${Date.now()}`;
+    const session = await createConversationSession({ teacherId, title: 'Test Chat' });
+
+    try {
+      // 긴 이전 대화 6턴
+      const longText = 'x'.repeat(400);
+      await appendConversationMessages(
+        session.id,
+        teacherId,
+        Array.from({ length: 6 }, (_, i) => ({
+          role: i % 2 === 0 ? ('user' as const) : ('assistant' as const),
+          content: `${i}: ${longText}`,
+        }))
+      );
+
+      const listed = await listConversationSessions(teacherId);
+      if (listed.length !== 1 || listed[0].messageCount !== 6) {
+        throw new Error(`Unexpected session list: ${JSON.stringify(listed)}`);
+      }
+
+      const model = new MockLanguageModelV3({
+        doGenerate: async () => ({
+          content: [{ type: 'text', text: '이전 대화 요약' }],
+          finishReason: { unified: 'stop', raw: 'stop' },
+          usage: {
+            inputTokens: { total: 50, noCache: 50, cacheRead: undefined, cacheWrite: undefined },
+            outputTokens: { total: 5, text: 5, reasoning: undefined },
+          },
+          warnings: [],
+        }),
+      });
+
+      // 작은 contextWindow: 오래된 메시지는 잘려야 함
+      const contextWindow = 600;
+      const dropped = await prepareConversation(await getConversationSession(session.id, teacherId), 'next?', {
+        model,
+        contextWindow,
+        maxOutputTokens: 100,
+        trimStrategy: 'drop',
+      });
+      if (dropped.trimmedCount === 0 || dropped.messages[0].role !== 'user') {
+        throw new Error(`Expected older messages dropped, got ${dropped.trimmedCount}`);
+      }
+
+      // 동시 요청이 같은 시점의 세션을 읽은 상황
+      const stale = await getConversationSession(session.id, teacherId);
+      const summarized = await prepareConversation(await getConversationSession(session.id, teacherId), 'next?', {
+        model,
+        contextWindow,
+        maxOutputTokens: 100,
+        trimStrategy: 'summarize',
+      });
+      if (!summarized.system?.includes('이전 대화 요약') || !summarized.summaryUsage) {
+        throw new Error('Expected summary in system prompt');
+      }
+
+      const reloaded = await getConversationSession(session.id, teacherId);
+      if (reloaded.summarizedCount !== summarized.trimmedCount) {
+        throw new Error(`Expected summarizedCount ${summarized.trimmedCount}, got ${reloaded.summarizedCount}`);
+      }
+
+      // 늦게 끝난 요약은 먼저 저장된 요약을 덮어쓰지 않고 저장된 요약으로 다시 구성
+      const late = await prepareConversation(stale, 'next?', {
+        model,
+        contextWindow,
+        maxOutputTokens: 100,
+        trimStrategy: 'summarize',
+      });
+      const afterLate = await getConversationSession(session.id, teacherId);
+      if (afterLate.summarizedCount < reloaded.summarizedCount || late.trimmedCount !== afterLate.summarizedCount) {
+        throw new Error(`Stale summary overwrote session: ${reloaded.summarizedCount} -> ${afterLate.summarizedCount}`);
+      }
+      console.log(`   ✅ ${dropped.trimmedCount} dropped, ${reloaded.summarizedCount} summarized into session`);
+    } finally {
+      await deleteConversationSession(session.id, teacherId);
+    }
+  });
+
+  // ============================================================
+  // 시나리오 18: 토큰 추정 및 contextWindow 사전 검사
+  // ============================================================
+  await runTest('Token Estimation Preflight', async () => {
+    const korean = '학생은 최근 수학 성적이 향상되었으며 상담에서 진로에 대한 고민을 이야기했습니다.';
+    const english = 'The student has recently improved in math and talked about career concerns.';
+
+    // 한국어는 글자당 토큰이 많고, 토크나이저 계열마다 차이가 큼
+    if (estimateTokens(korean, 'anthropic') <= estimateTokens(korean, 'google')) {
+      throw new Error('Expected Claude tokenizer to be less efficient for Korean than Gemini');
+    }
+    if (estimateTokens(korean, 'generic') <= estimateTokens(english, 'generic')) {
+      throw new Error('Expected Korean text to need more tokens than English of similar length');
+    }
+
+    const candidates = [
+      { provider: { providerType: 'ollama' }, model: { modelId: 'llama3.2:3b', contextWindow: 8192 } },
+      { provider: { providerType: 'openai' }, model: { modelId: 'gpt-4o', contextWindow: 128000 } },
+    ];
+    const longHistory = { prompt: korean.repeat(200) };
+
+    const minContextWindow = computeMinContextWindow(longHistory, 2000);
+    const fitting = fitCandidatesToContextWindow(candidates, longHistory, 2000);
+    if (fitting.length !== 1 || fitting[0].model.modelId !== 'gpt-4o') {
+      throw new Error(`Expected only gpt-4o to fit, got ${fitting.map(c => c.model.modelId).join(', ')}`);
+    }
+
+    try {
+      fitCandidatesToContextWindow(candidates.slice(0, 1), longHistory, 2000);
+      throw new Error('Expected ContextWindowExceededError');
+    } catch (error) {
+      if (!(error instanceof ContextWindowExceededError)) throw error;
+    }
+    console.log(`   ✅ minContextWindow ${minContextWindow}, small model skipped`);
+  });
+
+  // ============================================================
+  // 시나리오 19: 임베딩 모델
+  // ============================================================
+  await runTest('Embedding Models', async () => {
+    // 임베딩 API가 있는 제공자만 createEmbeddingModel 구현
+    const embeddingProviders = (['openai', 'google', 'mistral', 'cohere', 'ollama'] as const).filter(
+      type => getAdapter(type).createEmbeddingModel
+    );
+    if (embeddingProviders.length !== 5 || getAdapter('anthropic').createEmbeddingModel) {
+      throw new Error(`Unexpected embedding support: ${embeddingProviders.join(', ')}`);
+    }
+
+    // 배치 한도를 넘으면 나눠 보내고 사용량은 합산
+    const mock = new MockEmbeddingModelV3({
+      maxEmbeddingsPerCall: 2,
+      doEmbed: async ({ values }) => ({
+        embeddings: values.map((_, i) => [i, 1, 0]),
+        usage: { tokens: values.length * 10 },
+        warnings: [],
+      }),
+    });
+    const result = await embedMany({ model: mock, values: ['a', 'b', 'c'] });
+    if (result.embeddings.length !== 3 || result.usage.tokens !== 30) {
+      throw new Error(`Unexpected embedMany result: ${result.embeddings.length} embeddings, ${result.usage.tokens} tokens`);
+    }
+    console.log(`   ✅ ${embeddingProviders.length} embedding providers, ${result.usage.tokens} tokens across batches`);
+  });
+
+  // ============================================================
+  // 시나리오 20: 상담 기록 의미 검색
+  // ============================================================
+  await runTest('Counseling Retrieval', async () => {
+    // 외부 API 없이 로컬 해싱 임베딩과 메모리 저장소 사용
+    const hashingEmbedder = createHashingEmbedder();
+    configureCounselingRetrieval({ store: new MemoryCounselingVectorStore(), embedder: hashingEmbedder });
+
+    const session = (id: string, summary: string, date: string, studentId = 'student-1') => ({
+      id,
+      studentId,
+      summary,
+      sessionDate: new Date(date),
+      type: 'CAREER',
+    });
+    await indexCounselingSessions([
+      session('old-career', '진로로 컴퓨터공학과를 희망하며 코딩 동아리 활동을 시작했다.', '2025-03-01'),
+      session('recent-1', '수학 성적이 떨어져 학원 변경을 고민했다.', '2026-01-10'),
+      session('recent-2', '친구 관계 문제로 교우 갈등이 있었고 상담 후 화해했다.', '2026-02-10'),
+      session('other-student', '컴퓨터공학과 진학 상담', '2026-02-11', 'student-2'),
+    ]);
+
+    const currentSummary = '컴퓨터공학과 진학을 위해 코딩 공부 계획을 세웠다.';
+    const relevant = await searchCounselingSessions(currentSummary, { studentId: 'student-1', topK: 2 });
+    if (relevant[0]?.id !== 'old-career' || relevant.some(s => s.studentId !== 'student-1')) {
+      throw new Error(`Unexpected ranking: ${relevant.map(s => s.id).join(', ')}`);
+    }
+
+    // 질의가 다른 모델로 임베딩되면(폴백) 빈 결과 대신 에러
+    configureCounselingRetrieval({
+      embedder: async (values) => ({ ...(await hashingEmbedder(values)), model: 'fallback/other-embedding' }),
+    });
+    try {
+      await searchCounselingSessions(currentSummary, { studentId: 'student-1' });
+      throw new Error('Expected CounselingEmbeddingMismatchError');
+    } catch (error) {
+      if (!(error instanceof CounselingEmbeddingMismatchError)) throw error;
+    } finally {
+      configureCounselingRetrieval({ embedder: hashingEmbedder });
+    }
+
+    // 오래된 관련 상담이 요약 없이 잘리지 않고 프롬프트에 포함
+    const prompt = buildCounselingSummaryPrompt({
+      currentSummary,
+      sessionDate: new Date('2026-03-01'),
+      sessionType: 'CAREER',
+      personality: null,
+      previousSessions: relevant,
+      studentName: '테스트',
+      previousSessionsTokenBudget: 200,
+    });
+    if (!prompt.includes('## 관련 상담 이력') || !prompt.includes('코딩 동아리 활동을 시작했다.')) {
+      throw new Error('Expected the relevant older session in the prompt');
+    }
+    console.log(`   ✅ Top match: ${relevant[0].id} (${relevant[0].score.toFixed(2)})`);
+  });
+
+  // ============================================================
+  // 시나리오 21: 배치 실행 / 제공자 호출 한도
+  // ============================================================
+  await runTest('Batch Runner / Provider Gate', async () => {
+    const gate = createProviderGate({
+      defaults: { maxConcurrency: 2 },
+      perProvider: { limited: { requestsPerMinute: 600 } },
+    });
+
+    // 동시 호출 수 제한: 슬롯 2개 이후 호출은 반납될 때까지 대기
+    const fake = { id: 'fake-id', providerType: 'fake' };
+    const first = await gate.acquire(fake);
+    await gate.acquire(fake);
+    let thirdAcquired = false;
+    const third = gate.acquire(fake).then((release) => {
+      thirdAcquired = true;
+      return release;
+    });
+    await new Promise((r) => setTimeout(r, 20));
+    if (thirdAcquired) {
+      throw new Error('Third call should wait for a free slot');
+    }
+    first();
+    (await third)();
+    console.log('   ✅ Concurrency limit queues calls');
+
+    // 스트림처럼 반환 후에도 계속되는 호출은 시도 함수가 슬롯 반납 시점을 맡음
+    const streamGate = createProviderGate({ defaults: { maxConcurrency: 1 } });
+    const streamProvider = { id: 'stream-gate-provider', providerType: 'openai', isEnabled: true, apiKeyEncrypted: encryptApiKey('sk-test') } as unknown as Provider;
+    const finishStream = await runProviderChain(
+      [{ provider: streamProvider, model: { id: 'stream-model', modelId: 'stream-model' } as unknown as Model }],
+      { featureType: 'test_analysis', gate: streamGate },
+      async ({ holdPermits }) => holdPermits()
+    );
+    let nextAcquired = false;
+    const next = streamGate.acquire(streamProvider).then((release) => {
+      nextAcquired = true;
+      return release;
+    });
+    await new Promise((r) => setTimeout(r, 20));
+    if (nextAcquired) {
+      throw new Error('Held slot should stay taken until the stream finishes');
+    }
+    finishStream();
+    (await next)();
+    console.log('   ✅ Stream keeps its slot until it finishes');
+
+    // 분당 요청 수 제한: 버킷(600)을 비운 뒤 다음 호출은 약 100ms 대기
+    const limited = { id: 'limited-id', providerType: 'limited' };
+    for (let i = 0; i < 600; i++) {
+      (await gate.acquire(limited))();
+    }
+    const waitStart = Date.now();
+    (await gate.acquire(limited))();
+    if (Date.now() - waitStart < 50) {
+      throw new Error('Rate limit should delay calls once the bucket is empty');
+    }
+    console.log(`   ✅ RPM limit delayed call by ${Date.now() - waitStart}ms`);
+
+    // 취소된 배치: 제공자를 호출하지 않고 항목별 실패로 기록
+    const controller = new AbortController();
+    controller.abort();
+    const events: string[] = [];
+    const batch = await runBatch(
+      [
+        { id: 'a', type: 'text', options: { featureType: 'test_analysis', prompt: 'a' } },
+        { id: 'b', type: 'text', options: { featureType: 'test_analysis', prompt: 'b' } },
+      ],
+      { signal: controller.signal, onProgress: (e) => events.push(`${e.id}:${e.type}`) }
+    );
+    if (batch.failed !== 2 || batch.items.some((item) => item.attempts !== 1 || !item.error)) {
+      throw new Error(`Unexpected batch result: ${JSON.stringify(batch.items.map((i) => i.status))}`);
+    }
+    if (!events.includes('a:failed') || batch.cost.totalCostUsd !== 0) {
+      throw new Error(`Unexpected progress events: ${events.join(', ')}`);
+    }
+    console.log(`   ✅ Cancelled batch reported ${batch.failed} failed items`);
+  });
+
+  // ============================================================
+  // 시나리오 22: 제공자 배치 작업 (로컬 모의 HTTP 서버)
+  // ============================================================
+  await runTest('Provider Batch Jobs', async () => {
+    // OpenAI Batch API / Anthropic Message Batches API 모의 서버
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const json = (data: unknown) => res.end(JSON.stringify(data));
+        const url = req.url ?? '';
+
+        if (req.method === 'POST' && url === '/files') return json({ id: 'file-in' });
+        if (req.method === 'POST' && url === '/batches') return json({ id: 'batch-oa', status: 'validating' });
+        if (url === '/batches/batch-oa') {
+          return json({ id: 'batch-oa', status: 'completed', output_file_id: 'file-out', request_counts: { total: 2, completed: 1, failed: 1 } });
+        }
+        if (url === '/files/file-out/content') {
+          return res.end([
+            JSON.stringify({ custom_id: 'a', response: { status_code: 200, body: { choices: [{ message: { content: 'A' } }], usage: { prompt_tokens: 100, completion_tokens: 10 } } } }),
+            JSON.stringify({ custom_id: 'b', response: { status_code: 400, body: { error: { message: 'bad request' } } } }),
+          ].join('\n'));
+        }
+        if (req.method === 'POST' && url === '/messages/batches') return json({ id: 'batch-an', processing_status: 'in_progress' });
+        if (url === '/messages/batches/batch-an') {
+          return json({ id: 'batch-an', processing_status: 'ended', request_counts: { processing: 0, succeeded: 1, errored: 0, canceled: 0, expired: 0 } });
+        }
+        if (url === '/messages/batches/batch-an/results') {
+          return res.end(JSON.stringify({
+            custom_id: 'report-1',
+            result: { type: 'succeeded', message: { content: [{ type: 'text', text: '리포트' }], usage: { input_tokens: 1000, output_tokens: 500 } } },
+          }));
+        }
+        res.statusCode = 404;
+        res.end('{}');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    let providerId: string | null = null;
+
+    try {
+      // 어댑터: OpenAI 파일 업로드 → 배치 생성 → 결과 파일 파싱
+      const openaiAdapter = getAdapter('openai');
+      const config = { baseUrl, apiKeyEncrypted: encryptApiKey('sk-test') } as unknown as ProviderConfig;
+      const submission = await openaiAdapter.submitBatch!('gpt-4o-mini', [
+        { customId: 'a', prompt: 'A?' },
+        { customId: 'b', prompt: 'B?' },
+      ], config);
+      const state = await openaiAdapter.getBatchState!(submission.externalId, config);
+      const openaiResults = await openaiAdapter.getBatchResults!(submission.externalId, state, config);
+      if (state.status !== 'completed' || openaiResults.length !== 2 || openaiResults[1].success) {
+        throw new Error(`Unexpected OpenAI batch results: ${JSON.stringify(openaiResults)}`);
+      }
+      console.log(`   ✅ OpenAI adapter: ${openaiResults.filter(r => r.success).length}/2 succeeded`);
+
+      // 전체 흐름: 제출 → DB 저장 → 조회 → 수집 + 배치 가격으로 LLMUsage 기록
+      const provider = await registry.register({
+        name: 'Test Anthropic Batch (Integration)',
+        providerType: 'anthropic',
+        baseUrl,
+        authType: 'api_key',
+        apiKey: 'sk-ant-test',
+        capabilities: [],
+        costTier: 'medium',
+        qualityTier: 'balanced',
+        isEnabled: true,
+      });
+      providerId = provider.id;
+
+      const job = await submitProviderBatchJob({
+        featureType: 'report_generate',
+        providerId: provider.id,
+        requests: [{ customId: 'report-1', prompt: '리포트를 작성해주세요.' }],
+      });
+      const polled = await pollProviderBatchJob(job.id);
+      const { job: collected, results } = await collectProviderBatchJob(job.id);
+      const again = await collectProviderBatchJob(job.id);
+
+      const usageRows = await prisma.lLMUsage.findMany({ where: { batchJobId: job.id } });
+      const listCost = calculateCost('anthropic', 1000, 500, job.modelId);
+      if (polled.status !== 'completed' || results[0]?.text !== '리포트' || again.results.length !== 1) {
+        throw new Error(`Unexpected batch job state: ${polled.status}`);
+      }
+      if (usageRows.length !== 1 || Math.abs((collected.costUsd ?? 0) - listCost * 0.5) > 0.000001) {
+        throw new Error(`Expected one usage row at batch pricing, got ${usageRows.length} rows, $${collected.costUsd}`);
+      }
+      console.log(`   ✅ Reconciled at batch pricing: $${collected.costUsd} (list $${listCost})`);
+
+      await prisma.lLMUsage.deleteMany({ where: { batchJobId: job.id } });
+      await prisma.lLMBatchJob.delete({ where: { id: job.id } });
+    } finally {
+      if (providerId) await registry.remove(providerId);
+      server.close();
+    }
+  });
+
+  // ============================================================
+  // 시나리오 23: 제공자 호출 한도 (Provider 행 한도)
+  // ============================================================
+  await runTest('Provider Rate Limiter', async () => {
+    const limiter = getProviderRateLimiter();
+
+    // 한도가 없는 제공자는 대기 없이 통과
+    (await limiter.acquire({ id: 'unlimited-id', providerType: 'fake' }))();
+
+    // 분당 토큰 한도: 추정치로 예약하고 실제 사용량으로 정산
+    const tpm = { id: 'tpm-id', providerType: 'fake', rateLimitTpm: 6000 };
+    const reserved = await limiter.acquire(tpm, { tokens: 5000 });
+    reserved(1000); // 실제 사용량이 적으면 차이(4000)를 환급
+    (await limiter.acquire(tpm, { tokens: 4500, maxWaitMs: 50 }))(4500);
+    console.log('   ✅ TPM reservation refunded after actual usage');
+
+    // 남은 토큰(~1000)으로 3000 토큰을 예약하려면 약 20초 대기 → 즉시 거절
+    try {
+      await limiter.acquire(tpm, { tokens: 3000, maxWaitMs: 100 });
+      throw new Error('Expected ProviderRateLimitedError');
+    } catch (error) {
+      if (!(error instanceof ProviderRateLimitedError) || error.waitMs <= 100) {
+        throw error;
+      }
+      console.log(`   ✅ Long wait rejected (~${error.waitMs}ms expected)`);
+    }
+
+    // 동시 호출 한도: 슬롯이 없으면 maxWaitMs 후 거절
+    const concurrent = { id: 'concurrent-id', providerType: 'fake', maxConcurrentRequests: 1 };
+    const held = await limiter.acquire(concurrent);
+    try {
+      await limiter.acquire(concurrent, { maxWaitMs: 20 });
+      throw new Error('Expected ProviderRateLimitedError');
+    } catch (error) {
+      if (!(error instanceof ProviderRateLimitedError)) {
+        throw error;
+      }
+    } finally {
+      held();
+    }
+    (await limiter.acquire(concurrent, { maxWaitMs: 20 }))();
+    console.log('   ✅ Concurrency limit from Provider row enforced');
+  });
+
+  // ============================================================
+  // 시나리오 24: 같은 제공자 재시도 (지수 백오프 + Retry-After)
+  // ============================================================
+  await runTest('Retry Policy', async () => {
+    const apiError = (statusCode: number, headers?: Record<string, string>) =>
+      Object.assign(new Error(`HTTP ${statusCode}`), { statusCode, responseHeaders: headers });
+
+    if (!isTransientError(apiError(429)) || !isTransientError(apiError(503)) || isTransientError(apiError(401))) {
+      throw new Error('Transient error classification is wrong');
+    }
+    if (!isTransientError(new Error('fetch failed')) || isTransientError(new Error('Invalid prompt'))) {
+      throw new Error('Message-based classification is wrong');
+    }
+    console.log('   ✅ 429/503/network errors are retried, 401 is not');
+
+    // 지터 범위: 2^n * base의 50~100%
+    const options = { maxRetries: 2, retryBaseDelayMs: 100, retryMaxDelayMs: 1000 };
+    const first = getRetryDelayMs(apiError(503), 0, options);
+    const second = getRetryDelayMs(apiError(503), 1, options);
+    if (first === null || first < 50 || first > 100 || second === null || second < 100 || second > 200) {
+      throw new Error(`Unexpected backoff: ${first}, ${second}`);
+    }
+    if (getRetryDelayMs(apiError(503), 2, options) !== null) {
+      throw new Error('Retry budget should be exhausted after maxRetries');
+    }
+    console.log(`   ✅ Jittered backoff: ${first}ms, ${second}ms`);
+
+    // Retry-After 우선, 상한을 넘거나 전체 기한을 넘기면 폴백
+    if (getRetryDelayMs(apiError(429, { 'retry-after': '0.3' }), 0, options) !== 300) {
+      throw new Error('Retry-After should be honored');
+    }
+    if (getRetryDelayMs(apiError(429, { 'retry-after': '30' }), 0, options) !== null) {
+      throw new Error('Long Retry-After should escalate to the next provider');
+    }
+    if (getRetryDelayMs(apiError(429, { 'retry-after': '0.3' }), 0, options, 200) !== null) {
+      throw new Error('Retry past the deadline should escalate');
+    }
+    console.log('   ✅ Retry-After honored, long waits escalate');
+  });
+
+  // ============================================================
+  // 시나리오 25: 제공자 호출 에러 분류
+  // ============================================================
+  await runTest('Provider Error Taxonomy', async () => {
+    const apiError = (statusCode: number, body?: unknown) =>
+      new APICallError({
+        message: `Request failed with status ${statusCode}`,
+        url: 'https://example.invalid',
+        requestBodyValues: {},
+        statusCode,
+        responseBody: body === undefined ? undefined : JSON.stringify(body),
+        isRetryable: statusCode >= 500,
+      });
+
+    // OpenAI: 크레딧 소진은 429로 오지만 rate_limit이 아닌 quota
+    const quota = getAdapter('openai').normalizeError(
+      apiError(429, { error: { code: 'insufficient_quota', type: 'insufficient_quota' } })
+    );
+    if (!(quota instanceof QuotaExceededError) || quota.transient) {
+      throw new Error(`Expected quota error, got ${quota.category}`);
+    }
+
+    // Anthropic: 에러 본문의 error.type으로 분류
+    const anthropicCases: Array<[unknown, string]> = [
+      [{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }, 'server'],
+      [{ type: 'error', error: { type: 'invalid_request_error', message: 'prompt is too long: 210000 tokens' } }, 'context_overflow'],
+      [{ type: 'error', error: { type: 'invalid_request_error', message: 'Your credit balance is too low' } }, 'quota'],
+    ];
+    for (const [body, expected] of anthropicCases) {
+      const category = getAdapter('anthropic').normalizeError(apiError(400, body)).category;
+      if (category !== expected) {
+        throw new Error(`Anthropic body classified as ${category}, expected ${expected}`);
+      }
+    }
+    console.log('   ✅ Provider-specific bodies mapped (quota, overload, context overflow)');
+
+    // 메시지에 숫자가 들어 있어도 상태 코드로 오인하지 않음
+    if (toProviderCallError(new Error('Expected 400 characters, got 12')).category !== 'unknown') {
+      throw new Error('Plain numbers in messages should not be read as status codes');
+    }
+    if (isRetryableError(apiError(400, { error: { type: 'invalid_request_error', message: 'bad' } }))) {
+      throw new Error('Invalid requests should stop the failover chain');
+    }
+    if (!isRetryableError(apiError(401))) {
+      throw new Error('Auth errors should fail over to another provider');
+    }
+    // 모델이 없는 제공자는 설정 문제 — 요청은 다른 후보에서 성공할 수 있음
+    const missingModels = [
+      apiError(404, { error: { code: 'model_not_found', message: 'The model `gpt-9` does not exist' } }),
+      getAdapter('anthropic').normalizeError(apiError(404, { type: 'error', error: { type: 'not_found_error', message: 'model: claude-x' } })),
+      apiError(400, { error: { type: 'invalid_request_error', message: 'The model `gpt-9` does not exist or you do not have access to it.' } }),
+    ];
+    for (const error of missingModels) {
+      if (toProviderCallError(error).category !== 'model_not_found' || !isRetryableError(error)) {
+        throw new Error(`Missing model should fail over, got ${toProviderCallError(error).category}`);
+      }
+    }
+    console.log('   ✅ Failover decided by category, not message substrings');
+  });
+
+  // ============================================================
+  // 시나리오 26: 폴백 시도 기록 (FailoverError 타임라인)
+  // ============================================================
+  await runTest('Failover Attempt Timeline', async () => {
+    const teacherId = `timeline-test-${Date.now()}`;
+    const fakeProvider = (id: string, isEnabled: boolean) =>
+      ({ id, providerType: 'openai', isEnabled, apiKeyEncrypted: encryptApiKey('sk-test') }) as unknown as Provider;
+    const fakeModel = (modelId: string) => ({ id: modelId, modelId }) as unknown as Model;
+
+    try {
+      await runProviderChain(
+        [
+          { provider: fakeProvider('timeline-disabled', false), model: fakeModel('disabled-model') },
+          { provider: fakeProvider('timeline-refusal', true), model: fakeModel('refusing-model') },
+          { provider: fakeProvider('timeline-invalid', true), model: fakeModel('invalid-model') },
+          { provider: fakeProvider('timeline-unreached', true), model: fakeModel('unreached-model') },
+        ],
+        { featureType: 'test_analysis', teacherId, maxRetries: 0 },
+        async ({ model }) => {
+          await new Promise((r) => setTimeout(r, 20));
+          if (model.modelId === 'refusing-model') {
+            throw new RefusalError(model.modelId, "I'm sorry, I can't help with that.");
+          }
+          // 잘못된 요청은 다른 제공자로도 해결되지 않으므로 체인 중단
+          throw Object.assign(new Error('Bad request'), { statusCode: 400 });
+        }
+      );
+      throw new Error('Expected FailoverError');
+    } catch (error) {
+      if (!(error instanceof FailoverError)) {
+        throw error;
+      }
+      const timeline = error.errors.map((e) => `${e.modelId}:${e.outcome}`);
+      if (timeline.join(',') !== 'disabled-model:skipped,refusing-model:refused,invalid-model:failed') {
+        throw new Error(`Unexpected timeline: ${timeline.join(', ')}`);
+      }
+      if (error.totalAttempts !== 2 || error.errors[1].durationMs < 15 || error.lastError?.category !== 'invalid_request') {
+        throw new Error(`Unexpected attempt details: ${JSON.stringify(error.errors.map((e) => e.durationMs))}`);
+      }
+      console.log(`   ✅ Timeline: ${timeline.join(' → ')}`);
+    } finally {
+      await prisma.lLMUsage.deleteMany({ where: { teacherId } });
+    }
+  });
+
+  // ============================================================
+  // 시나리오 27: 응답 품질 검사 (거부/빈 응답/잘림/JSON 아님)
+  // ============================================================
+  await runTest('Response Quality Guard', async () => {
+    const cases: Array<[string, ReturnType<typeof inspectResponse>]> = [
+      ['죄송하지만, 해당 요청은 도와드릴 수 없습니다.', inspectResponse('test_analysis', { text: '죄송하지만, 해당 요청은 도와드릴 수 없습니다.' })],
+      ['(empty)', inspectResponse('test_analysis', { text: '  ' })],
+      ['(length)', inspectResponse('test_analysis', { text: '분석 결과는 다음과', finishReason: 'length' })],
+      ['prose for face_analysis', inspectResponse('face_analysis', { text: '얼굴형은 둥근 편입니다.' })],
+    ];
+    const kinds = cases.map(([, issue]) => `${issue?.kind}:${issue?.action}`);
+    if (kinds.join(',') !== 'refusal:failover,empty:failover,truncated:pass,invalid_json:failover') {
+      throw new Error(`Unexpected issues: ${kinds.join(', ')}`);
+    }
+    if (inspectResponse('face_analysis', { text: '```json\n{"faceShape":"round"}\n```' })) {
+      throw new Error('Fenced JSON should pass the JSON guard');
+    }
+    const proseWrapped = [
+      'Here is the analysis:\n```json\n{"faceShape":"round"}\n```\nLet me know if you need more.',
+      '분석 결과입니다.\n{"faceShape": "round", "traits": ["calm",],}',
+    ];
+    for (const text of proseWrapped) {
+      if (inspectResponse('face_analysis', { text })) {
+        throw new Error(`Prose-wrapped JSON should pass the JSON guard: ${text}`);
+      }
+    }
+    console.log(`   ✅ Detected: ${kinds.join(', ')}`);
+
+    // 기능별 설정: 잘린 응답은 같은 모델로 재시도
+    configureResponseGuard({ perFeature: { test_analysis: { truncated: 'retry' } } });
+    const teacherId = `guard-test-${Date.now()}`;
+    const provider = { id: 'guard-provider', providerType: 'openai', isEnabled: true, apiKeyEncrypted: encryptApiKey('sk-test') } as unknown as Provider;
+    const calls: number[] = [];
+    try {
+      const result = await runProviderChain(
+        [{ provider, model: { id: 'guard-model', modelId: 'guard-model' } as unknown as Model }],
+        { featureType: 'test_analysis', teacherId, maxRetries: 2 },
+        async ({ model, retryAttempt }) => {
+          calls.push(retryAttempt);
+          const issue = inspectResponse('test_analysis', {
+            text: '분석 결과',
+            finishReason: retryAttempt === 0 ? 'length' : 'stop',
+          });
+          if (issue && issue.action !== 'pass') {
+            throw new ResponseQualityError(issue.kind, issue.action, model.modelId, '분석 결과');
+          }
+          return 'ok';
+        }
+      );
+      if (result !== 'ok' || calls.join(',') !== '0,1') {
+        throw new Error(`Expected one same-model retry, got attempts ${calls.join(',')}`);
+      }
+      console.log('   ✅ Truncated response retried on the same model');
+    } finally {
+      configureResponseGuard({ perFeature: { test_analysis: {} } });
+      await prisma.lLMUsage.deleteMany({ where: { teacherId } });
+    }
+  });
+
+  // ============================================================
+  // 시나리오 28: 헤지 요청 (느린 첫 후보와 다음 후보 경쟁)
+  // ============================================================
+  await runTest('Hedged Requests', async () => {
+    const teacherId = `hedge-test-${Date.now()}`;
+    const fakeProvider = (id: string) =>
+      ({ id, providerType: 'openai', isEnabled: true, apiKeyEncrypted: encryptApiKey('sk-test') }) as unknown as Provider;
+    const candidates = [
+      { provider: fakeProvider('hedge-slow'), model: { id: 'slow-model', modelId: 'slow-model' } as unknown as Model },
+      { provider: fakeProvider('hedge-fast'), model: { id: 'fast-model', modelId: 'fast-model' } as unknown as Model },
+    ];
+    const respond = (ms: number, signal: AbortSignal) =>
+      new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        });
+      });
+
+    try {
+      const hedgedCalls: string[] = [];
+      let slowAborted = false;
+      const result = await runProviderChain(
+        candidates,
+        { featureType: 'test_analysis', teacherId, hedgeDelayMs: 50, maxRetries: 0 },
+        async ({ model, signal, isHedged, isFailover }) => {
+          if (model.modelId === 'slow-model') {
+            signal.addEventListener('abort', () => { slowAborted = true; });
+          }
+          await respond(model.modelId === 'slow-model' ? 1000 : 20, signal);
+          // 경쟁으로 시작한 후보는 폴백이 아님
+          if (isHedged()) hedgedCalls.push(`${model.modelId}:${isFailover}`);
+          return model.modelId;
+        }
+      );
+      if (result !== 'fast-model' || !slowAborted || hedgedCalls.join(',') !== 'fast-model:false') {
+        throw new Error(`Expected the hedge to win and cancel the slow call, got ${result} (aborted: ${slowAborted})`);
+      }
+      console.log('   ✅ Hedge started after 50ms, won, and cancelled the slow call');
+
+      // 첫 후보가 지연 시간 안에 응답하면 헤지하지 않음
+      const started: string[] = [];
+      const quick = await runProviderChain(
+        candidates,
+        { featureType: 'test_analysis', teacherId, hedgeDelayMs: 200, maxRetries: 0 },
+        async ({ model, signal, isHedged }) => {
+          started.push(model.modelId);
+          await respond(10, signal);
+          return `${model.modelId}:${isHedged()}`;
+        }
+      );
+      if (quick !== 'slow-model:false' || started.length !== 1) {
+        throw new Error(`Expected no hedge, got ${quick} after ${started.join(', ')}`);
+      }
+      console.log('   ✅ No hedge when the first candidate responds in time');
+    } finally {
+      await prisma.lLMUsage.deleteMany({ where: { teacherId } });
+    }
+  });
+
+  // ============================================================
+  // 시나리오 29: 앙상블 점수 결합 (궁합 분석 JSON)
+  // ============================================================
+  await runTest('Ensemble Score Aggregation', async () => {
+    const member = (t1: [number, number], t2Saju: number | null) => ({
+      recommendations: [
+        { teacherId: 't1', overall: t1[0] + t1[1], breakdown: { mbti: t1[0], saju: t1[1] }, reasons: ['소통 방식이 비슷합니다'] },
+        ...(t2Saju === null ? [] : [{ teacherId: 't2', overall: 10 + t2Saju, breakdown: { mbti: 10, saju: t2Saju }, reasons: [] }]),
+      ],
+    });
+    const aggregation = aggregateScores(
+      [member([18, 40], 30), member([16, 44], 10), member([17, 42], null)],
+      COMPATIBILITY_SCORE_AGGREGATION
+    );
+
+    const merged = aggregation.merged as { recommendations: Array<{ teacherId: string; overall: number }> };
+    const summary = merged.recommendations.map((r) => `${r.teacherId}=${r.overall}`).join(',');
+    if (summary !== 't1=59,t2=30') {
+      throw new Error(`Unexpected merged scores: ${summary}`);
+    }
+    const saju = aggregation.disagreements.find((d) => d.path === 'recommendations[teacherId=t2].breakdown.saju');
+    if (saju?.range !== 20 || saju.merged !== 20 || aggregation.maxRange !== 20) {
+      throw new Error(`Unexpected disagreement: ${JSON.stringify(saju)}`);
+    }
+    if (!aggregation.partialPaths.includes('recommendations[teacherId=t2]')) {
+      throw new Error('Teacher missing from one member should be reported as partial');
+    }
+    console.log(`   ✅ Merged ${summary}, t2 saju range ${saju.range} (max ${aggregation.maxRange})`);
+
+    // 실패한 구성원은 아직 쓰지 않은 후보로 대체
+    const candidate = (modelId: string) => ({
+      provider: { id: modelId, providerType: 'openai' } as unknown as Provider,
+      model: { id: modelId, modelId } as unknown as Model,
+    });
+    const runCandidate = async ({ model }: { model: Model }) => {
+      await new Promise((r) => setTimeout(r, 10));
+      if (model.modelId.startsWith('failing')) {
+        throw new FailoverError('compatibility_analysis', [
+          { provider: 'openai', modelId: model.modelId, error: new Error('HTTP 503'), timestamp: new Date(), durationMs: 10 },
+        ]);
+      }
+      return { provider: 'openai', model: model.modelId, text: '{}', usage: {} as import('ai').LanguageModelUsage, costUsd: 0, responseTimeMs: 10 };
+    };
+    const replaced = await runEnsembleMembers(
+      'compatibility_analysis',
+      ['member-1', 'failing-2', 'member-3', 'member-4'].map(candidate),
+      { members: 3, minMembers: 2 },
+      runCandidate
+    );
+    const memberModels = replaced.members.map((m) => m.model).sort().join(',');
+    if (memberModels !== 'member-1,member-3,member-4' || replaced.failures.length !== 1) {
+      throw new Error(`Expected failing-2 replaced by member-4, got ${memberModels}`);
+    }
+    console.log(`   ✅ Failed member replaced: ${memberModels}`);
+
+    // 성공한 구성원이 minMembers보다 적으면 결합하지 않음
+    try {
+      await runEnsembleMembers(
+        'compatibility_analysis',
+        ['member-1', 'failing-2', 'failing-3'].map(candidate),
+        { members: 3, minMembers: 2 },
+        runCandidate
+      );
+      throw new Error('Expected EnsembleQuorumError');
+    } catch (error) {
+      if (!(error instanceof EnsembleQuorumError)) throw error;
+      if (error.members.length !== 1 || error.failures.length !== 2) {
+        throw new Error(`Unexpected quorum error: ${error.message}`);
+      }
+      console.log('   ✅ EnsembleQuorumError with 1/2 members');
+    }
+
+    // 폴백 실패가 아닌 에러는 다른 슬롯의 구성원을 취소하고 그대로 발생
+    let slowAborted = false;
+    try {
+      await runEnsembleMembers(
+        'compatibility_analysis',
+        ['slow-1', 'broken-2'].map(candidate),
+        { members: 2, minMembers: 2 },
+        async ({ model }, signal) => {
+          if (model.modelId === 'broken-2') throw new Error('Unexpected member error');
+          await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }));
+          slowAborted = true;
+          throw new Error('Slow member cancelled');
+        }
+      );
+      throw new Error('Expected the member error');
+    } catch (error) {
+      if (!(error instanceof Error) || error.message !== 'Unexpected member error') throw error;
+    }
+    await new Promise((r) => setTimeout(r, 0));
+    if (!slowAborted) {
+      throw new Error('Other slots should be cancelled when a member throws');
+    }
+    console.log('   ✅ Member error cancels the other slots');
+  });
+
+  // ============================================================
+  // 시나리오 30: 구조화 출력 (JSON 추출과 스키마 검증)
+  // ============================================================
+  await runTest('Structured Object Output', async () => {
+    // 코드 펜스, 앞뒤 설명문, trailing comma
+    const responses = [
+      '```json\n{"score": 82}\n```',
+      '분석 결과는 다음과 같습니다.\n{"score": 82}\n추가 설명이 필요하면 말씀해주세요.',
+      'Result:\n```\n{"score": 82, "tags": ["calm",],}\n```',
+    ];
+    for (const text of responses) {
+      const parsed = parseJsonResponse(text) as { score?: number };
+      if (parsed.score !== 82) {
+        throw new Error(`Failed to extract JSON from: ${text}`);
+      }
+    }
+    try {
+      parseJsonResponse('JSON으로 답할 수 없는 질문입니다.');
+      throw new Error('Expected SchemaValidationError');
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+    }
+    console.log(`   ✅ Extracted JSON from ${responses.length} wrapped responses`);
+
+    // JSON 모드가 없는 제공자(Ollama) 모의 서버 — 요청마다 다음 응답 반환
+    const replies = [
+      '요청하신 분석입니다.\n```json\n{"score": 82, "summary": "안정적",}\n```',
+      '{"score": "high", "summary": "불안정"}',
+    ];
+    const server = createServer((req, res) => {
+      req.resume();
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          model: 'mock-json',
+          created_at: new Date().toISOString(),
+          done: true,
+          done_reason: 'stop',
+          message: { role: 'assistant', content: replies.shift() ?? '' },
+          prompt_eval_count: 20,
+          eval_count: 10,
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    const previousOllamaUrl = process.env.OLLAMA_DIRECT_URL;
+    process.env.OLLAMA_DIRECT_URL = baseUrl;
+
+    const teacherId = `object-test-${Date.now()}`;
+    let providerId: string | null = null;
+    const schema = z.object({ score: z.number().min(0).max(100), summary: z.string() });
+
+    try {
+      const provider = await registry.register({
+        name: 'Test Ollama JSON (Integration)',
+        providerType: 'ollama',
+        baseUrl,
+        authType: 'none',
+        capabilities: [],
+        costTier: 'free',
+        qualityTier: 'balanced',
+        isEnabled: true,
+      });
+      providerId = provider.id;
+      await registry.addModel({ providerId: provider.id, modelId: 'mock-json', displayName: 'Mock JSON', contextWindow: 8192 });
+
+      const result = await generateObjectWithProvider({
+        featureType: 'test_analysis',
+        providerId: provider.id,
+        teacherId,
+        prompt: '학생 상담 내용을 점수로 평가해주세요.',
+        schema,
+      });
+      if (result.mode !== 'prompt' || result.object.score !== 82 || result.object.summary !== '안정적') {
+        throw new Error(`Unexpected object: ${result.mode} ${JSON.stringify(result.object)}`);
+      }
+      console.log(`   ✅ Prompt mode object: ${JSON.stringify(result.object)}`);
+
+      // 스키마 위반은 폴백 사유 — 후보가 하나뿐이면 FailoverError
+      try {
+        await generateObjectWithProvider({ featureType: 'test_analysis', providerId: provider.id, teacherId, prompt: '다시 평가해주세요.', schema });
+        throw new Error('Expected FailoverError');
+      } catch (error) {
+        if (!(error instanceof FailoverError)) throw error;
+        const message = error.lastError?.error.message ?? '';
+        if (!message.startsWith('Response did not match schema') || !message.includes('score')) {
+          throw new Error(`Expected a schema validation failure, got: ${message}`);
+        }
+        // 버려진 응답도 과금된 토큰은 기록 (요청 수에는 세지 않음)
+        const discarded = await prisma.lLMUsage.count({ where: { teacherId, countsAsRequest: false, outputTokens: 10 } });
+        if (discarded !== 1) {
+          throw new Error(`Expected the schema-violating response's usage recorded once, got ${discarded}`);
+        }
+        console.log(`   ✅ Schema violation: ${message}`);
+      }
+    } finally {
+      if (previousOllamaUrl === undefined) {
+        delete process.env.OLLAMA_DIRECT_URL;
+      } else {
+        process.env.OLLAMA_DIRECT_URL = previousOllamaUrl;
+      }
+      if (providerId) await registry.remove(providerId);
+      await prisma.lLMUsage.deleteMany({ where: { teacherId } });
+      server.close();
+    }
+  });
+
+  // ============================================================
+  // 시나리오 31: 스트리밍 첫 토큰 전 폴백
+  // ============================================================
+  await runTest('Streaming First-Token Fallback', async () => {
+    const teacherId = `stream-test-${Date.now()}`;
+    const fakeProvider = (id: string) =>
+      ({ id, providerType: 'openai', isEnabled: true, apiKeyEncrypted: encryptApiKey('sk-test') }) as unknown as Provider;
+    const finish = {
+      type: 'finish' as const,
+      finishReason: { unified: 'stop' as const, raw: 'stop' },
+      usage: {
+        inputTokens: { total: 5, noCache: 5, cacheRead: undefined, cacheWrite: undefined },
+        outputTokens: { total: 1, text: 1, reasoning: undefined },
+      },
+    };
+    const text = [
+      { type: 'text-start' as const, id: 't' },
+      { type: 'text-delta' as const, id: 't', delta: 'Hello' },
+      { type: 'text-end' as const, id: 't' },
+      finish,
+    ];
+    const streamModel = (chunks: unknown[], initialDelayInMs: number | null = null) =>
+      new MockLanguageModelV3({
+        doStream: async () => ({
+          stream: simulateReadableStream({ chunks, initialDelayInMs }) as ReadableStream<never>,
+        }),
+      });
+
+    // 첫 토큰 전 실패 유형별 후보: 시간 초과, 에러 파트, 토큰 없이 종료
+    const models: Record<string, MockLanguageModelV3> = {
+      'slow-stream': streamModel(text, 1000),
+      'error-stream': streamModel([{ type: 'error', error: new Error('Service Unavailable') }]),
+      'empty-stream': streamModel([finish]),
+      'ok-stream': streamModel(text),
+    };
+    const candidates = Object.keys(models).map((modelId) => ({
+      provider: fakeProvider(`stream-${modelId}`),
+      model: { id: modelId, modelId } as unknown as Model,
+    }));
+
+    try {
+      const failures: string[] = [];
+      const result = await runProviderChain(
+        candidates,
+        { featureType: 'test_analysis', teacherId, maxRetries: 0 },
+        async ({ model, signal }) => {
+          const controller = new AbortController();
+          const stream = streamText({
+            model: models[model.modelId],
+            prompt: 'hi',
+            maxRetries: 0,
+            abortSignal: AbortSignal.any([signal, controller.signal]),
+            onError: () => undefined,
+          });
+          try {
+            await waitForFirstToken(stream.fullStream, 100, () => controller.abort());
+          } catch (error) {
+            controller.abort();
+            failures.push(`${model.modelId}: ${(error as Error).message}`);
+            throw error;
+          }
+          return { modelId: model.modelId, stream };
+        }
+      );
+
+      const expected = [
+        'slow-stream: Stream timeout',
+        'error-stream: Service Unavailable',
+        'empty-stream: Stream ended before the first token',
+      ];
+      if (result.modelId !== 'ok-stream' || !expected.every((e, i) => failures[i]?.startsWith(e))) {
+        throw new Error(`Unexpected stream fallback: ${result.modelId} after ${failures.join(' | ')}`);
+      }
+
+      // 첫 토큰 확인에 쓴 사본과 별개로 호출자는 스트림을 처음부터 받음
+      const streamed = await result.stream.text;
+      if (streamed !== 'Hello') {
+        throw new Error(`Expected the full stream after the first-token check, got "${streamed}"`);
+      }
+      console.log(`   ✅ ${failures.length} candidates failed before the first token, ok-stream streamed "${streamed}"`);
+    } finally {
+      await prisma.lLMUsage.deleteMany({ where: { teacherId } });
+    }
+  });
+
+  // ============================================================
+  // 시나리오 32: 요청 취소와 시간 제한
+  // ============================================================
+  await runTest('Request Cancellation and Deadlines', async () => {
+    const teacherId = `deadline-test-${Date.now()}`;
+    const fakeProvider = (id: string) =>
+      ({ id, providerType: 'openai', isEnabled: true, apiKeyEncrypted: encryptApiKey('sk-test') }) as unknown as Provider;
+    const candidate = (modelId: string) => ({
+      provider: fakeProvider(`deadline-${modelId}`),
+      model: { id: modelId, modelId } as unknown as Model,
+    });
+    const respond = (ms: number, signal: AbortSignal) =>
+      new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        });
+      });
+    // slow-*: 1초 뒤 응답, failing-*: 30ms 뒤 503, 그 외: 10ms 뒤 응답
+    let started: string[] = [];
+    const run = async ({ model, signal }: { model: Model; signal: AbortSignal }) => {
+      started.push(model.modelId);
+      await respond(model.modelId.startsWith('slow') ? 1000 : model.modelId.startsWith('failing') ? 30 : 10, signal);
+      if (model.modelId.startsWith('failing')) {
+        throw Object.assign(new Error('Service Unavailable'), { statusCode: 503 });
+      }
+      return model.modelId;
+    };
+
+    try {
+      // 시도 제한 시간을 넘긴 후보는 타임아웃으로 기록하고 다음 후보로 폴백
+      const fallback = await runProviderChain(
+        [candidate('slow-1'), candidate('fast-2')],
+        { featureType: 'test_analysis', teacherId, maxRetries: 0, timeoutMs: 50 },
+        run
+      );
+      if (fallback !== 'fast-2') {
+        throw new Error(`Expected fallback after the attempt timeout, got ${fallback}`);
+      }
+      try {
+        await runProviderChain([candidate('slow-1')], { featureType: 'test_analysis', teacherId, maxRetries: 0, timeoutMs: 50 }, run);
+        throw new Error('Expected FailoverError');
+      } catch (error) {
+        if (!(error instanceof FailoverError)) throw error;
+        if (error.lastError?.category !== 'timeout') {
+          throw new Error(`Expected a timeout attempt, got ${error.lastError?.category}`);
+        }
+      }
+      console.log('   ✅ Attempt timeout recorded as timeout and failed over');
+
+      // 호출자 취소 — 진행 중인 시도를 중단하고 다음 후보로 폴백하지 않음
+      started = [];
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 30);
+      try {
+        await runProviderChain(
+          [candidate('slow-1'), candidate('fast-2')],
+          { featureType: 'test_analysis', teacherId, maxRetries: 0, signal: controller.signal },
+          run
+        );
+        throw new Error('Expected RequestAbortedError');
+      } catch (error) {
+        if (!(error instanceof RequestAbortedError)) throw error;
+        if (error.reason !== 'cancelled' || started.join(',') !== 'slow-1') {
+          throw new Error(`Unexpected cancellation: ${error.reason} after ${started.join(', ')}`);
+        }
+      }
+      console.log('   ✅ Caller cancel stopped the chain without failover');
+
+      // 전체 기한 — 폴백 도중 기한이 다 되면 남은 후보를 시도하지 않음
+      started = [];
+      try {
+        await runProviderChain(
+          [candidate('failing-1'), candidate('slow-2'), candidate('fast-3')],
+          { featureType: 'test_analysis', teacherId, maxRetries: 0, totalDeadlineMs: 120 },
+          run
+        );
+        throw new Error('Expected RequestAbortedError');
+      } catch (error) {
+        if (!(error instanceof RequestAbortedError)) throw error;
+        if (error.reason !== 'deadline' || started.join(',') !== 'failing-1,slow-2' || error.elapsedMs > 500) {
+          throw new Error(`Unexpected deadline: ${error.reason} after ${started.join(', ')} (${error.elapsedMs}ms)`);
+        }
+        console.log(`   ✅ Total deadline hit mid-chain after ${error.elapsedMs}ms`);
+      }
+    } finally {
+      await prisma.lLMUsage.deleteMany({ where: { teacherId } });
+    }
+  });
+
+  // ============================================================
+  // 시나리오 33: 성능 기반 라우팅 순위
+  // ============================================================
+  await runTest('Performance Routing Ranking', async () => {
+    const teacherId = `perf-test-${Date.now()}`;
+    const row = (modelId: string, responseTimeMs: number, success: boolean, extra: Record<string, unknown> = {}) => ({
+      provider: 'openai',
+      modelId,
+      featureType: 'test_analysis',
+      teacherId,
+      inputTokens: 10,
+      outputTokens: 10,
+      totalTokens: 20,
+      costUsd: 0,
+      responseTimeMs,
+      success,
+      errorCategory: success ? null : 'server',
+      ...extra,
+    });
+
+    // 우선순위 1위는 느리고 절반 실패, 2위는 빠르고 모두 성공 (헤지 경쟁에서 취소된 호출은 실패가 아님)
+    await prisma.lLMUsage.createMany({
+      data: [
+        ...Array.from({ length: 10 }, (_, i) => row('perf-slow', 2000, i % 2 === 0)),
+        ...Array.from({ length: 10 }, () => row('perf-fast', 200, true)),
+        ...Array.from({ length: 5 }, () => row('perf-fast', 50, false, { hedged: true, errorCategory: null })),
+      ],
+    });
+
+    try {
+      const candidates = ['perf-slow', 'perf-fast'].map((modelId) => ({
+        provider: { providerType: 'openai' },
+        model: { modelId },
+      }));
+      // 다른 시나리오의 통계 캐시와 겹치지 않도록 별도 기간 사용
+      const decision = await rankCandidatesByPerformance(candidates, 'test_analysis', { windowMs: 60 * 60 * 1000 });
+
+      const order = decision.orderedCandidates.map((c) => c.model.modelId).join(',');
+      const fast = decision.scores.find((s) => s.modelId === 'perf-fast');
+      if (order !== 'perf-fast,perf-slow' || fast?.successRate !== 1 || fast.sampleSize !== 10) {
+        throw new Error(`Unexpected ranking: ${order} (${JSON.stringify(fast)})`);
+      }
+      if (!decision.reason.includes('성능 기반 라우팅') || !decision.reason.includes('perf-fast')) {
+        throw new Error(`Expected a ranking reason, got: ${decision.reason}`);
+      }
+      console.log(`   ✅ ${decision.reason}`);
+    } finally {
+      await prisma.lLMUsage.deleteMany({ where: { teacherId } });
+    }
+  });
+
+  // ============================================================
+  // 시나리오 34: 정리 (Cleanup)
   // ============================================================
   await runTest('Cleanup', async () => {
     // 생성한 모델 삭제
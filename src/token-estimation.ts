@@ -0,0 +1,265 @@
+/**
+ * Token Estimation - 프롬프트 토큰 수 추정 및 contextWindow 사전 검사
+ *
+ * 제공자마다 토크나이저가 달라 같은 텍스트도 토큰 수가 다릅니다.
+ * 특히 한국어는 영어보다 글자당 토큰이 훨씬 많고 토크나이저 간 차이도 큽니다.
+ * 실제 토크나이저를 번들하지 않고, 토크나이저 계열별로 보정한 휴리스틱으로 추정합니다.
+ *
+ * - 라우터는 추정치로 ResolutionRequirements.minContextWindow를 자동 설정
+ * - 프롬프트 + maxOutputTokens가 들어가지 않는 모델은 후보에서 제외
+ * - 선택된 모델 기준 추정치는 GenerateResult.tokenEstimate로 반환
+ */
+
+// =============================================================================
+// 타입
+// =============================================================================
+
+/**
+ * 토크나이저 계열
+ */
+export type TokenizerFamily = 'openai' | 'anthropic' | 'google' | 'llama' | 'generic';
+
+/**
+ * 토크나이저 계열별 보정값
+ */
+interface TokenizerProfile {
+  /** 라틴 문자/숫자/기호/공백: 토큰당 글자 수 */
+  latinCharsPerToken: number;
+  /** 한글 음절: 글자당 토큰 수 */
+  hangulTokensPerChar: number;
+  /** 한자/가나: 글자당 토큰 수 */
+  cjkTokensPerChar: number;
+  /** 메시지당 역할/구분자 오버헤드 */
+  tokensPerMessage: number;
+}
+
+/**
+ * 추정 대상 프롬프트
+ */
+export interface PromptTokenInput {
+  system?: string;
+  prompt?: string;
+  messages?: Array<{ role: string; content: unknown }>;
+}
+
+/**
+ * 선택된 모델 기준 토큰 추정치
+ */
+export interface TokenEstimate {
+  family: TokenizerFamily;
+  /** 추정 입력 토큰 */
+  inputTokens: number;
+  /** 응답용으로 확보한 토큰 (maxOutputTokens 또는 기본값) */
+  reservedOutputTokens: number;
+  /** inputTokens + reservedOutputTokens */
+  totalTokens: number;
+  /** 모델 contextWindow (등록되지 않았으면 null) */
+  contextWindow: number | null;
+}
+
+/**
+ * 어떤 후보 모델에도 프롬프트가 들어가지 않을 때 발생하는 에러
+ */
+export class ContextWindowExceededError extends Error {
+  public readonly requiredTokens: number;
+  public readonly largestContextWindow: number | null;
+
+  constructor(requiredTokens: number, largestContextWindow: number | null) {
+    super(
+      `Prompt requires about ${requiredTokens} tokens, which exceeds the context window of every candidate model` +
+        (largestContextWindow ? ` (largest: ${largestContextWindow})` : '')
+    );
+    this.name = 'ContextWindowExceededError';
+    this.requiredTokens = requiredTokens;
+    this.largestContextWindow = largestContextWindow;
+
+    Object.setPrototypeOf(this, ContextWindowExceededError.prototype);
+  }
+
+  get userMessage(): string {
+    return '입력 내용이 너무 길어 처리할 수 있는 AI 모델이 없습니다. 내용을 줄여서 다시 시도해주세요.';
+  }
+}
+
+// =============================================================================
+// 설정
+// =============================================================================
+
+// maxOutputTokens를 지정하지 않은 호출의 응답 예약 토큰
+export const DEFAULT_OUTPUT_RESERVE_TOKENS = 1024;
+
+// 요청당 고정 오버헤드 (대화 시작/끝 구분자)
+const TOKENS_PER_REQUEST = 3;
+
+/**
+ * 토크나이저 계열별 근사값 (실측 보정값이 아님)
+ * 과소 추정보다 과대 추정 쪽으로 반올림했습니다.
+ */
+const TOKENIZER_PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  // o200k_base
+  openai: { latinCharsPerToken: 4.0, hangulTokensPerChar: 0.8, cjkTokensPerChar: 1.0, tokensPerMessage: 4 },
+  // Claude 토크나이저는 한국어 효율이 낮음
+  anthropic: { latinCharsPerToken: 3.5, hangulTokensPerChar: 1.2, cjkTokensPerChar: 1.3, tokensPerMessage: 5 },
+  // SentencePiece 256k 어휘 (Gemini/Gemma)
+  google: { latinCharsPerToken: 4.0, hangulTokensPerChar: 0.6, cjkTokensPerChar: 0.8, tokensPerMessage: 4 },
+  // Llama 3 계열 128k 어휘
+  llama: { latinCharsPerToken: 3.8, hangulTokensPerChar: 1.0, cjkTokensPerChar: 1.2, tokensPerMessage: 5 },
+  // 알 수 없는 토크나이저: 보수적으로 추정
+  generic: { latinCharsPerToken: 3.3, hangulTokensPerChar: 1.3, cjkTokensPerChar: 1.5, tokensPerMessage: 5 },
+};
+
+const HANGUL_PATTERN = /[가-힣ᄀ-ᇿ㄰-㆏]/;
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿豈-﫿]/;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * 제공자 타입과 모델 ID로 토크나이저 계열을 판단합니다.
+ * OpenRouter처럼 여러 회사 모델을 중계하는 제공자는 모델 ID로 판단합니다.
+ */
+export function getTokenizerFamily(providerType: string, modelId: string): TokenizerFamily {
+  const id = modelId.toLowerCase();
+
+  if (/(^|\/)(gpt|o\d|chatgpt|text-embedding)/.test(id)) return 'openai';
+  if (/(^|\/)claude/.test(id)) return 'anthropic';
+  if (/(^|\/)(gemini|gemma)/.test(id)) return 'google';
+  if (/(^|\/)(llama|meta-llama)/.test(id)) return 'llama';
+
+  switch (providerType) {
+    case 'openai':
+      return 'openai';
+    case 'anthropic':
+      return 'anthropic';
+    case 'google':
+      return 'google';
+    case 'ollama':
+      return 'llama';
+    default:
+      return 'generic';
+  }
+}
+
+/**
+ * 텍스트의 토큰 수를 추정합니다.
+ *
+ * @param text - 추정할 텍스트
+ * @param family - 토크나이저 계열 (기본: generic)
+ */
+export function estimateTokens(text: string, family: TokenizerFamily = 'generic'): number {
+  if (!text) return 0;
+
+  const profile = TOKENIZER_PROFILES[family];
+  let hangul = 0;
+  let cjk = 0;
+  let other = 0;
+
+  for (const char of text) {
+    if (HANGUL_PATTERN.test(char)) hangul++;
+    else if (CJK_PATTERN.test(char)) cjk++;
+    else other++;
+  }
+
+  return Math.ceil(
+    hangul * profile.hangulTokensPerChar +
+      cjk * profile.cjkTokensPerChar +
+      other / profile.latinCharsPerToken
+  );
+}
+
+/**
+ * 메시지 하나의 토큰 수를 추정합니다. (역할/구분자 오버헤드 포함)
+ * 문자열이 아닌 내용(멀티파트 등)은 JSON 문자열로 추정합니다.
+ */
+export function estimateMessageTokens(message: { content: unknown }, family: TokenizerFamily = 'generic'): number {
+  const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+  return TOKENIZER_PROFILES[family].tokensPerMessage + estimateTokens(content, family);
+}
+
+/**
+ * 시스템 프롬프트, 프롬프트, 메시지를 합친 입력 토큰 수를 추정합니다.
+ */
+export function estimatePromptTokens(input: PromptTokenInput, family: TokenizerFamily = 'generic'): number {
+  let total = TOKENS_PER_REQUEST;
+
+  if (input.system) {
+    total += estimateMessageTokens({ content: input.system }, family);
+  }
+  if (input.prompt) {
+    total += estimateMessageTokens({ content: input.prompt }, family);
+  }
+  for (const message of input.messages ?? []) {
+    total += estimateMessageTokens(message, family);
+  }
+
+  return total;
+}
+
+/**
+ * 라우팅 요구사항에 넣을 최소 contextWindow를 계산합니다.
+ * 계열별 추정치 중 가장 작은 값을 쓰므로, 이보다 작은 모델은 어떤 토크나이저로도 들어가지 않습니다.
+ * (모델별 정확한 판단은 fitCandidatesToContextWindow에서 수행)
+ */
+export function computeMinContextWindow(input: PromptTokenInput, maxOutputTokens?: number): number {
+  const families = Object.keys(TOKENIZER_PROFILES) as TokenizerFamily[];
+  const smallest = Math.min(...families.map((family) => estimatePromptTokens(input, family)));
+  return smallest + (maxOutputTokens ?? DEFAULT_OUTPUT_RESERVE_TOKENS);
+}
+
+/**
+ * 특정 모델 기준 토큰 추정치를 계산합니다.
+ */
+export function estimateForModel(
+  input: PromptTokenInput,
+  maxOutputTokens: number | undefined,
+  provider: { providerType: string },
+  model: { modelId: string; contextWindow: number | null }
+): TokenEstimate {
+  const family = getTokenizerFamily(provider.providerType, model.modelId);
+  const inputTokens = estimatePromptTokens(input, family);
+  const reservedOutputTokens = maxOutputTokens ?? DEFAULT_OUTPUT_RESERVE_TOKENS;
+
+  return {
+    family,
+    inputTokens,
+    reservedOutputTokens,
+    totalTokens: inputTokens + reservedOutputTokens,
+    contextWindow: model.contextWindow,
+  };
+}
+
+/**
+ * 프롬프트 + 응답 예약 토큰이 들어가지 않는 후보를 제외합니다.
+ * contextWindow가 등록되지 않은 모델은 판단할 수 없으므로 유지합니다.
+ *
+ * @throws ContextWindowExceededError - 남는 후보가 없는 경우
+ */
+export function fitCandidatesToContextWindow<
+  T extends { provider: { providerType: string }; model: { modelId: string; contextWindow: number | null } },
+>(candidates: T[], input: PromptTokenInput, maxOutputTokens?: number): T[] {
+  const fitting: T[] = [];
+  let requiredTokens = 0;
+  let largestContextWindow: number | null = null;
+
+  for (const candidate of candidates) {
+    const estimate = estimateForModel(input, maxOutputTokens, candidate.provider, candidate.model);
+    if (estimate.contextWindow === null || estimate.totalTokens <= estimate.contextWindow) {
+      fitting.push(candidate);
+      continue;
+    }
+
+    console.warn(
+      `[Token Estimation] Skipping ${candidate.provider.providerType}/${candidate.model.modelId}: ` +
+        `~${estimate.totalTokens} tokens > context window ${estimate.contextWindow}`
+    );
+    requiredTokens = requiredTokens === 0 ? estimate.totalTokens : Math.min(requiredTokens, estimate.totalTokens);
+    largestContextWindow = Math.max(largestContextWindow ?? 0, estimate.contextWindow);
+  }
+
+  if (fitting.length === 0 && candidates.length > 0) {
+    throw new ContextWindowExceededError(requiredTokens, largestContextWindow);
+  }
+
+  return fitting;
+}
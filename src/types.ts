@@ -41,6 +41,13 @@ export type MatchMode = 'auto_tag' | 'specific_model';
 
 export type FallbackMode = 'next_priority' | 'any_available' | 'fail';
 
+/**
+ * 키 풀 선택 전략
+ * - round_robin: 사용 가능한 키를 순서대로 돌아가며 사용
+ * - least_recently_throttled: 가장 오래전에 429를 받은 키 우선 사용
+ */
+export type KeySelectionStrategy = 'round_robin' | 'least_recently_throttled';
+
 // =============================================================================
 // Provider 관련 타입
 // =============================================================================
@@ -66,6 +73,14 @@ export interface ProviderInput {
   costTier: CostTier;
   qualityTier: QualityTier;
   isEnabled?: boolean;
+  /** 키 풀 선택 전략 (기본: round_robin) */
+  keySelection?: KeySelectionStrategy;
+  /** 분당 요청 수 한도 (클라이언트 측, null이면 제한 없음) */
+  rateLimitRpm?: number | null;
+  /** 분당 토큰 수 한도 (클라이언트 측, null이면 제한 없음) */
+  rateLimitTpm?: number | null;
+  /** 동시 요청 수 한도 (클라이언트 측, null이면 제한 없음) */
+  maxConcurrentRequests?: number | null;
 }
 
 /**
@@ -76,6 +91,45 @@ export interface ProviderWithModels extends Provider {
   hasApiKey?: boolean; // API 응답에서 추가되는 필드
 }
 
+// =============================================================================
+// Key Pool 관련 타입
+// =============================================================================
+
+/**
+ * 키 풀에 API 키 추가 시 입력 타입
+ */
+export interface ProviderKeyInput {
+  providerId: string;
+  apiKey: string;
+  /** 식별용 이름 (예: 'team-a', 'backup') */
+  label?: string | null;
+  isEnabled?: boolean;
+}
+
+/**
+ * 키 풀 조회 결과 (API 키는 마스킹됨)
+ */
+export interface ProviderKeyInfo {
+  id: string;
+  providerId: string;
+  label: string | null;
+  maskedKey: string;
+  isEnabled: boolean;
+  lastUsedAt: Date | null;
+  lastThrottledAt: Date | null;
+  cooldownUntil: Date | null;
+  /** 현재 429 쿨다운 중인지 여부 */
+  isCoolingDown: boolean;
+}
+
+/**
+ * 호출 1회에 사용할 키
+ */
+export interface PooledKey {
+  keyId: string;
+  apiKeyEncrypted: string;
+}
+
 // =============================================================================
 // Model 관련 타입
 // =============================================================================
@@ -96,6 +150,8 @@ export interface ModelInput {
   contextWindow?: number | null;
   supportsVision?: boolean;
   supportsTools?: boolean;
+  /** 임베딩 전용 모델 (텍스트 생성 라우팅에서 제외) */
+  supportsEmbedding?: boolean;
   defaultParams?: ModelParams | null;
   isDefault?: boolean;
 }
@@ -133,6 +189,11 @@ export interface FeatureMappingInput {
   specificModelId?: string | null;
   priority?: number;
   fallbackMode: FallbackMode;
+  /**
+   * 헤지 요청 지연 (ms, null이면 사용 안 함)
+   * 첫 후보가 이 시간 안에 응답하지 않으면 다음 후보를 동시에 시작합니다.
+   */
+  hedgeDelayMs?: number | null;
 }
 
 /**
@@ -142,6 +203,8 @@ export interface FeatureMappingInput {
 export interface ResolutionRequirements {
   needsVision?: boolean;
   needsTools?: boolean;
+  /** 임베딩 모델만 후보 (없으면 임베딩 모델은 제외) */
+  needsEmbedding?: boolean;
   preferredCost?: CostTier;
   preferredQuality?: QualityTier;
   minContextWindow?: number;
@@ -188,6 +251,101 @@ export interface ModelInfo {
   contextWindow?: number;
   supportsVision: boolean;
   supportsTools: boolean;
+  /** 임베딩 전용 모델 */
+  supportsEmbedding?: boolean;
+  /** 제공자 API가 가격을 알려주는 경우 (예: OpenRouter /models) */
+  pricing?: ModelPrice;
+}
+
+// =============================================================================
+// 모델 가격 관련 타입
+// =============================================================================
+
+/**
+ * 모델 가격 (USD per 1M tokens)
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  /** 캐시된 입력 토큰 가격 (없으면 입력 가격 적용) */
+  cachedInputPerMillion?: number | null;
+}
+
+export type ModelPricingSource = 'default' | 'manual' | 'openrouter' | 'provider_api';
+
+/**
+ * ModelPricing 생성 시 입력 타입
+ */
+export interface ModelPricingInput extends ModelPrice {
+  providerType: ProviderType;
+  modelId: string;
+  /** 적용 시작 시각 (기본: 지금) */
+  effectiveFrom?: Date;
+  source?: ModelPricingSource;
+}
+
+// =============================================================================
+// 제공자 배치 API 관련 타입
+// =============================================================================
+
+/**
+ * 제공자 배치에 넣을 요청 하나
+ */
+export interface ProviderBatchRequest {
+  /** 결과와 요청을 매칭하는 ID (배치 안에서 고유) */
+  customId: string;
+  prompt?: string;
+  messages?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * 배치 작업 상태
+ * - in_progress: 검증/처리/마무리 중
+ * - completed: 결과 수집 가능 (일부 요청은 실패했을 수 있음)
+ */
+export type ProviderBatchStatus = 'in_progress' | 'completed' | 'failed' | 'expired' | 'cancelled';
+
+/**
+ * 배치 제출 결과
+ */
+export interface ProviderBatchSubmission {
+  /** 제공자 배치 ID */
+  externalId: string;
+  /** 업로드한 입력 파일 ID (OpenAI) */
+  inputFileId?: string;
+}
+
+/**
+ * 제공자 배치 상태 조회 결과
+ */
+export interface ProviderBatchState {
+  status: ProviderBatchStatus;
+  /** 결과 파일 ID (OpenAI) */
+  outputFileId?: string;
+  /** 실패 요청 파일 ID (OpenAI) */
+  errorFileId?: string;
+  /** 배치 자체가 실패한 경우 사유 */
+  error?: string;
+  completedCount?: number;
+  failedCount?: number;
+}
+
+/**
+ * 배치 요청 하나의 결과
+ */
+export interface ProviderBatchResult {
+  customId: string;
+  success: boolean;
+  text?: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens?: number;
+  };
+  error?: string;
 }
 
 // =============================================================================
@@ -199,7 +357,7 @@ import type { ProviderName as LegacyProviderName, FeatureType as LegacyFeatureTy
 export type ProviderName = LegacyProviderName;
 export type FeatureType = LegacyFeatureType;
 
-export { PROVIDER_CONFIGS, COST_PER_MILLION_TOKENS, type FeatureConfig } from './providers/types';
+export { PROVIDER_CONFIGS, COST_PER_MILLION_TOKENS, BATCH_COST_MULTIPLIER, type FeatureConfig } from './providers/types';
 
 /**
  * Legacy ProviderName을 새로운 ProviderType으로 매핑
@@ -253,6 +411,10 @@ export interface GenerateOptions {
   maxTokens?: number;
   temperature?: number;
   topP?: number;
+  /** 호출자 취소 신호 */
+  signal?: AbortSignal;
+  /** 호출 제한 시간 (ms) */
+  timeoutMs?: number;
   [key: string]: unknown;
 }
 
@@ -5,25 +5,60 @@
  * 기존 router.ts의 인터페이스를 유지하면서 남부 구현을 교체합니다.
  */
 
-import { generateText, streamText } from 'ai';
+import { generateText, streamText, type LanguageModelUsage } from 'ai';
 import { db } from '@ais/db/client';
 import { getProviderRegistry } from './provider-registry';
 import { trackUsage, trackFailure } from './usage-tracker';
-import { isRetryableError } from './failover';
+import { runProviderChain, type ProviderLookupContext } from './router-chain';
+import { inspectResponse, ResponseQualityError, type ResponseGuardPolicy } from './response-guard';
+import { enforceBudget, applyBudgetToCandidates } from './budget-enforcement';
+import {
+  getConversationSession,
+  appendConversationMessages,
+  prepareConversation,
+  type ConversationOptions,
+  type ConversationSessionInfo,
+  type PreparedConversation,
+} from './conversation-sessions';
+import {
+  estimateForModel,
+  getTokenizerFamily,
+  computeMinContextWindow,
+  fitCandidatesToContextWindow,
+  type PromptTokenInput,
+  type TokenEstimate,
+} from './token-estimation';
+import {
+  buildResponseCacheKey,
+  readResponseCache,
+  writeResponseCache,
+  type ResponseCacheOptions,
+} from './response-cache';
+import { createAbortSignal, type CancellationOptions } from './cancellation';
+import type { ProviderGateOptions } from './provider-gate';
+import type { RetryOptions } from './retry-policy';
+import type { RoutingOptions } from './performance-routing';
 import {
   type Provider,
   type Model,
-  isRefusalResponse,
-  setupProviderEnv,
+  isProviderReady,
   createLanguageModel,
-  getProviderOrder,
+  buildProviderOrder,
+  selectProviderModel,
+  buildToolCallSettings,
+  collectToolActivity,
+  type ToolCallingOptions,
+  waitForFirstToken,
+  normalizeProviderError,
+  resolveHedgeDelayMs,
+  DEFAULT_FIRST_TOKEN_TIMEOUT_MS,
 } from './router-utils';
 
 // =============================================================================
 // 타입 (텍스트 전용)
 // =============================================================================
 
-export interface GenerateOptions {
+export interface GenerateOptions extends CancellationOptions, ToolCallingOptions, ProviderGateOptions, RetryOptions {
   prompt: string;
   featureType: string;
   teacherId?: string;
@@ -34,22 +69,149 @@ export interface GenerateOptions {
   providerId?: string;
   /** 멀티턴 대화용 메시지 배열 (지정 시 prompt 대신 사용) */
   messages?: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
+  /**
+   * 저장된 대화 세션 이어가기 (teacherId 필수)
+   * prompt를 새 사용자 메시지로 보내고, 성공하면 질문과 응답을 세션에 추가합니다.
+   */
+  conversation?: ConversationOptions;
+  /** 스트리밍 전용: 첫 토큰 대기 시간 (초과 시 다음 제공자로 폴백, 기본 15초) */
+  firstTokenTimeoutMs?: number;
+  /** 자동 라우팅 전략 (기본: FeatureResolver 우선순위) */
+  routing?: RoutingOptions;
+  /**
+   * 응답 캐시 사용 (generateWithProvider 전용, 기본: 사용 안 함)
+   * 같은 기능/모델/시스템 프롬프트/프롬프트/파라미터의 응답을 재사용합니다.
+   * tools를 지정하면 도구 실행 부수 효과 때문에 캐시하지 않습니다.
+   */
+  cache?: boolean | ResponseCacheOptions;
+  /**
+   * 헤지 요청 지연 (ms, generateWithProvider 전용, 기본: 기능 매핑 설정, null이면 사용 안 함)
+   * 첫 후보가 이 시간 안에 응답하지 않으면 다음 후보를 동시에 시작합니다.
+   * 세션 대화와 도구 호출은 부수 효과가 중복될 수 있으므로 헤지하지 않습니다.
+   */
+  hedgeDelayMs?: number | null;
+  /**
+   * 응답 검사 정책 (generateWithProvider 전용, 기능별 설정 위에 덮어씀)
+   * 거부/빈 응답/잘린 응답/JSON 아님을 폴백, 재시도, 통과 중 하나로 처리합니다.
+   */
+  responseGuard?: ResponseGuardPolicy;
 }
 
 export interface StreamResult {
   stream: ReturnType<typeof streamText>;
+  /** 최종적으로 스트림을 제공한 제공자 */
   provider: string;
   model: string;
+  wasFailover: boolean;
+  failoverFrom?: string;
+  /** 성능 기반 라우팅의 순위 설명 (routing.strategy가 'performance'일 때) */
+  routingReason?: string;
+  /** 선택된 모델 기준 사전 토큰 추정치 */
+  tokenEstimate?: TokenEstimate;
 }
 
 // =============================================================================
 // Re-exports (공유 타입, 비전 함수 — 하위 호환)
 // =============================================================================
 
-export type { GenerateResult } from './router-utils';
+export type { GenerateResult, ToolCallingOptions, ToolCallRecord, ToolResultRecord } from './router-utils';
 export type { VisionGenerateOptions } from './router-vision';
 export { generateWithVision, generateVisionWithSpecificProvider } from './router-vision';
+export type { GenerateObjectOptions, GenerateObjectResult } from './router-object';
+export { generateObjectWithProvider, SchemaValidationError } from './router-object';
+export type { EmbedOptions, EmbedManyOptions, EmbeddingResult, EmbeddingManyResult } from './router-embedding';
+export { embedWithProvider, embedManyWithProvider } from './router-embedding';
 export { FailoverError } from './failover';
+export { RequestAbortedError, type AbortReason, type CancellationOptions } from './cancellation';
+export type { RoutingOptions, RoutingStrategy, RoutingWeights } from './performance-routing';
+export { BudgetExceededError, type BudgetEnforcementMode } from './budget-enforcement';
+export type { ResponseCacheOptions } from './response-cache';
+export type { RetryOptions } from './retry-policy';
+export { ResponseQualityError, type ResponseGuardPolicy } from './response-guard';
+export { ConversationNotFoundError, type ConversationOptions } from './conversation-sessions';
+export { ContextWindowExceededError, type TokenEstimate } from './token-estimation';
+
+// =============================================================================
+// 내부 유틸리티 - 프롬프트 구성
+// =============================================================================
+
+/**
+ * 모델에 보낼 입력을 고릅니다: 세션 대화 > 멀티턴 메시지 > 단일 prompt
+ * 같은 값을 토큰 추정에도 사용합니다.
+ */
+function buildPromptInput(
+  options: GenerateOptions,
+  conversation: PreparedConversation | null
+): { system?: string; prompt: string; messages?: undefined } | { system?: string; messages: NonNullable<GenerateOptions['messages']>; prompt?: undefined } {
+  if (conversation) {
+    return { system: conversation.system, messages: conversation.messages };
+  }
+  if (options.messages && options.messages.length > 0) {
+    return { system: options.system, messages: options.messages };
+  }
+  return { system: options.system, prompt: options.prompt };
+}
+
+/**
+ * 라우팅 전 contextWindow 사전 검사용 입력
+ * 세션 대화는 모델별로 기록을 잘라 맞추므로 새 프롬프트만 검사합니다.
+ */
+function buildPreflightInput(options: GenerateOptions): PromptTokenInput {
+  return options.conversation
+    ? { system: options.system, prompt: options.prompt }
+    : buildPromptInput(options, null);
+}
+
+// =============================================================================
+// 내부 유틸리티 - 대화 세션
+// =============================================================================
+
+async function loadConversation(options: GenerateOptions): Promise<ConversationSessionInfo | null> {
+  if (!options.conversation) return null;
+  if (!options.teacherId) {
+    throw new Error('teacherId is required to continue a conversation session');
+  }
+  return getConversationSession(options.conversation.sessionId, options.teacherId);
+}
+
+/**
+ * 이번 시도의 모델 contextWindow에 맞춰 세션 대화를 구성하고,
+ * 요약을 새로 만들었으면 사용량을 기록합니다.
+ */
+async function prepareSessionAttempt(
+  session: ConversationSessionInfo,
+  options: GenerateOptions,
+  attempt: { provider: Provider; model: Model; languageModel: ReturnType<typeof createLanguageModel>; signal?: AbortSignal; keyId?: string }
+): Promise<PreparedConversation> {
+  const summaryStart = Date.now();
+  const prepared = await prepareConversation(session, options.prompt, {
+    model: attempt.languageModel,
+    contextWindow: attempt.model.contextWindow,
+    system: options.system,
+    maxOutputTokens: options.maxOutputTokens,
+    trimStrategy: options.conversation?.trimStrategy,
+    tokenizerFamily: getTokenizerFamily(attempt.provider.providerType, attempt.model.modelId),
+    signal: attempt.signal,
+  });
+
+  if (prepared.summaryUsage) {
+    await trackUsage({
+      provider: attempt.provider.providerType as import('./providers/types').ProviderName,
+      modelId: attempt.model.modelId,
+      featureType: options.featureType as import('./providers/types').FeatureType,
+      teacherId: options.teacherId,
+      inputTokens: prepared.summaryUsage.inputTokens || 0,
+      outputTokens: prepared.summaryUsage.outputTokens || 0,
+      responseTimeMs: Date.now() - summaryStart,
+      success: true,
+      keyId: attempt.keyId,
+      // 요약은 요청의 일부이므로 요청 수 한도에 세지 않음
+      countsAsRequest: false,
+    });
+  }
+
+  return prepared;
+}
 
 // =============================================================================
 // Public API - 텍스트 생성 함수
@@ -57,210 +219,331 @@ export { FailoverError } from './failover';
 
 /**
  * 텍스트를 생성합니다.
+ *
+ * tools를 지정하면 도구를 지원하는 모델만 후보로 두고 AI SDK 도구 루프를
+ * maxSteps까지 실행합니다. 도구 호출/결과는 결과의 toolCalls/toolResults로 반환되고,
+ * 사용량은 모든 스텝의 합계로 기록됩니다.
+ *
+ * @throws FailoverError 모든 후보가 실패하면 후보별 시도 기록(errors)과 함께 발생
  */
 export async function generateWithProvider(options: GenerateOptions): Promise<import('./router-utils').GenerateResult> {
-  const { prompt, featureType, teacherId, maxOutputTokens, temperature, system, providerId } = options;
+  const { prompt, featureType, teacherId, maxOutputTokens, temperature, system, providerId, messages } = options;
 
-  let providerOrder: Array<{ provider: Provider; model: Model }>;
+  const session = await loadConversation(options);
 
-  if (providerId) {
-    // 특정 제공자가 지정된 경우: 해당 제공자의 기본 모델 사용
-    const provider = await db.provider.findUnique({
-      where: { id: providerId },
-      include: { models: true },
-    });
-    if (!provider || !provider.isEnabled) {
-      throw new Error(`Provider "${providerId}" not found or disabled`);
-    }
-    const defaultModel = provider.models.find((m: Model) => m.isDefault) || provider.models[0];
-    if (!defaultModel) {
-      throw new Error(`Provider "${provider.name}" has no models configured`);
+  // 도구를 쓰면 도구 지원 모델만 후보, 프롬프트가 들어가지 않는 모델은 제외
+  const preflightInput = buildPreflightInput(options);
+  const { candidates: providerOrder, routingReason } = await buildProviderOrder(featureType, {
+    providerId,
+    teacherId,
+    requirements: options.tools ? { needsTools: true } : undefined,
+    routing: options.routing,
+    tokenInput: preflightInput,
+    maxOutputTokens,
+  });
+  // 도구 실행 부수 효과나 세션 기록이 있는 호출은 캐시하지 않음
+  const cacheOptions: ResponseCacheOptions | null =
+    options.tools || session || !options.cache ? null : options.cache === true ? {} : options.cache;
+
+  const chainOptions = {
+    ...options,
+    estimateTokens: ({ provider, model }: { provider: Provider; model: Model }) =>
+      estimateForModel(preflightInput, maxOutputTokens, provider, model).totalTokens,
+    // 세션 저장과 도구 실행은 두 번 일어나면 안 되므로 헤지하지 않음
+    hedgeDelayMs: providerId || options.tools || session
+      ? undefined
+      : await resolveHedgeDelayMs(featureType, options.hedgeDelayMs),
+  };
+
+  const cacheKeyFor = (provider: Provider, model: Model) =>
+    cacheOptions
+      ? buildResponseCacheKey({
+          featureType,
+          provider: provider.providerType,
+          model: model.modelId,
+          system,
+          prompt,
+          messages,
+          params: { maxOutputTokens, temperature },
+          namespace: cacheOptions.namespace,
+        })
+      : null;
+
+  // 응답 캐시 조회 — 게이트/키 대여 전에 확인, 적중 시 제공자를 호출하지 않고 비용 0으로 기록
+  const readCache = async ({
+    provider,
+    model,
+    isFailover,
+    failoverFrom,
+    startTime,
+  }: ProviderLookupContext): Promise<import('./router-utils').GenerateResult | null> => {
+    const cacheKey = cacheKeyFor(provider, model);
+    const cached = cacheKey ? await readResponseCache(cacheKey) : null;
+    if (!cached) {
+      return null;
     }
-    providerOrder = [{ provider: provider as unknown as Provider, model: defaultModel as unknown as Model }];
-  } else {
-    providerOrder = await getProviderOrder(featureType);
-  }
 
-  let lastError: Error | null = null;
-  let failoverFrom: string | undefined;
+    await trackUsage({
+      provider: provider.providerType as import('./providers/types').ProviderName,
+      modelId: model.modelId,
+      featureType: featureType as import('./providers/types').FeatureType,
+      teacherId,
+      inputTokens: cached.usage?.inputTokens || 0,
+      outputTokens: cached.usage?.outputTokens || 0,
+      responseTimeMs: Date.now() - startTime,
+      success: true,
+      failoverFrom,
+      cacheHit: true,
+    });
+
+    return {
+      text: cached.text,
+      usage: cached.usage,
+      provider: provider.providerType,
+      model: model.modelId,
+      wasFailover: isFailover,
+      failoverFrom,
+      cached: true,
+      routingReason,
+      tokenEstimate: estimateForModel(preflightInput, maxOutputTokens, provider, model),
+    };
+  };
+
+  return runProviderChain(providerOrder, chainOptions, async ({ provider, model, keyId, isFailover, failoverFrom, retryAttempt, isHedged, signal, startTime }) => {
+    const cacheKey = cacheKeyFor(provider, model);
+
+    const languageModel = createLanguageModel(provider, model);
+
+    // 세션이 있으면 contextWindow에 맞춘 세션 대화
+    const conversation = session
+      ? await prepareSessionAttempt(session, options, { provider, model, languageModel, signal, keyId })
+      : null;
+    const promptInput = buildPromptInput(options, conversation);
+
+    const result = await generateText({
+      model: languageModel,
+      ...promptInput,
+      maxOutputTokens,
+      temperature,
+      maxRetries: 0,
+      abortSignal: signal,
+      ...buildToolCallSettings(options),
+    });
 
-  for (let i = 0; i < providerOrder.length; i++) {
-    const { provider, model } = providerOrder[i];
-    const isFailover = i > 0;
+    // 거부/품질 미달 응답 감지 — 사용량은 기록한 뒤 정책에 따라 재시도 또는 폴백
+    const issue = inspectResponse(
+      featureType,
+      { text: result.text, finishReason: result.finishReason, allowEmpty: result.finishReason === 'tool-calls' },
+      options.responseGuard
+    );
+
+    const responseTimeMs = Date.now() - startTime;
+
+    // 도구 루프는 여러 스텝이므로 전체 스텝 합계(totalUsage)로 기록
+    await trackUsage({
+      provider: provider.providerType as import('./providers/types').ProviderName,
+      modelId: model.modelId,
+      featureType: featureType as import('./providers/types').FeatureType,
+      teacherId,
+      inputTokens: result.totalUsage?.inputTokens || 0,
+      cachedInputTokens: result.totalUsage?.inputTokenDetails?.cacheReadTokens,
+      outputTokens: result.totalUsage?.outputTokens || 0,
+      responseTimeMs,
+      success: true,
+      failoverFrom,
+      keyId,
+      retryAttempt,
+      qualityIssue: issue?.kind,
+      hedged: isHedged(),
+      // 재시도/폴백으로 버려지는 응답은 요청 수 한도에 세지 않음
+      countsAsRequest: !issue || issue.action === 'pass',
+    });
 
-    if (isFailover) {
-      failoverFrom = providerOrder[i - 1].provider.providerType;
+    if (issue && issue.action !== 'pass') {
+      throw new ResponseQualityError(issue.kind, issue.action, model.modelId, result.text);
     }
 
-    const startTime = Date.now();
+    if (session) {
+      await appendConversationMessages(session.id, session.teacherId, [
+        { role: 'user', content: prompt },
+        { role: 'assistant', content: result.text },
+      ]);
+    }
 
-    try {
-      const isReady = await setupProviderEnv(provider);
-      if (!isReady) {
-        console.warn(`Provider ${provider.providerType} not ready, skipping...`);
-        continue;
-      }
+    // 품질 문제가 있는 응답은 통과시켜도 캐시하지 않음
+    if (cacheKey && !issue) {
+      await writeResponseCache(
+        cacheKey,
+        {
+          text: result.text,
+          usage: result.usage,
+          provider: provider.providerType,
+          model: model.modelId,
+          featureType,
+        },
+        cacheOptions?.ttlMs
+      );
+    }
 
-      const languageModel = createLanguageModel(provider, model);
+    return {
+      text: result.text,
+      usage: result.totalUsage,
+      provider: provider.providerType,
+      model: model.modelId,
+      wasFailover: isFailover,
+      failoverFrom,
+      hedged: isHedged(),
+      routingReason,
+      tokenEstimate: estimateForModel(promptInput, maxOutputTokens, provider, model),
+      ...(options.tools && collectToolActivity(result.steps)),
+    };
+  }, cacheOptions ? readCache : undefined);
+}
 
-      const result = await generateText({
-        model: languageModel,
-        prompt,
-        system,
-        maxOutputTokens,
-        temperature,
-        maxRetries: 0,
-      });
+/**
+ * 텍스트를 스트리밍합니다.
+ *
+ * 각 제공자의 첫 토큰이 도착할 때까지 기다린 뒤 스트림을 반환합니다.
+ * 첫 토큰 전에 에러가 나거나 firstTokenTimeoutMs 안에 토큰이 오지 않으면
+ * 해당 제공자를 중단하고 다음 제공자로 폴백합니다.
+ * 토큰이 클라이언트에 전달되기 시작한 뒤의 에러는 폴백하지 않고 실패로 기록만 합니다.
+ *
+ * timeoutMs는 첫 토큰까지의 시도 시간을 제한하며,
+ * signal과 totalDeadlineMs는 반환된 스트림이 끝날 때까지 적용됩니다.
+ * 제공자 호출 한도(gate, Provider 행 한도) 슬롯도 스트림이 끝나거나 실패/취소될 때까지 유지됩니다.
+ */
+export async function streamWithProvider(options: GenerateOptions): Promise<StreamResult> {
+  const {
+    prompt,
+    featureType,
+    teacherId,
+    maxOutputTokens,
+    temperature,
+    providerId,
+    signal: userSignal,
+    firstTokenTimeoutMs = DEFAULT_FIRST_TOKEN_TIMEOUT_MS,
+  } = options;
 
-      // LLM 거부 응답 감지 — 다음 모델로 폴백
-      if (isRefusalResponse(result.text)) {
-        console.warn(
-          `[Universal Router] Model ${model.modelId} refused the request, trying next provider...`
-        );
-        lastError = new Error(`Model ${model.modelId} refused: ${result.text.slice(0, 100)}`);
-        continue;
-      }
+  const session = await loadConversation(options);
 
+  const preflightInput = buildPreflightInput(options);
+  const { candidates: providerOrder, routingReason } = await buildProviderOrder(featureType, {
+    providerId,
+    teacherId,
+    requirements: options.tools ? { needsTools: true } : undefined,
+    routing: options.routing,
+    tokenInput: preflightInput,
+    maxOutputTokens,
+  });
+  const chainOptions = {
+    ...options,
+    estimateTokens: ({ provider, model }: { provider: Provider; model: Model }) =>
+      estimateForModel(preflightInput, maxOutputTokens, provider, model).totalTokens,
+    // 스트림은 첫 토큰 이후 결과를 바꿀 수 없으므로 헤지하지 않음
+    hedgeDelayMs: undefined,
+  };
+
+  return runProviderChain(providerOrder, chainOptions, async ({ provider, model, keyId, isFailover, failoverFrom, retryAttempt, signal, remainingMs, startTime, holdPermits }) => {
+    // 스트림은 반환 후에도 제공자 호출이 계속되므로 게이트 슬롯은 스트림이 끝날 때 반납
+    // (첫 토큰 전에 실패하면 체인이 반납)
+    const releasePermits = holdPermits();
+    const languageModel = createLanguageModel(provider, model);
+    const conversation = session
+      ? await prepareSessionAttempt(session, options, { provider, model, languageModel, signal, keyId })
+      : null;
+    const promptInput = buildPromptInput(options, conversation);
+
+    // 첫 토큰 대기 시간 초과 또는 첫 토큰 전 실패 시 이 시도를 중단
+    const controller = new AbortController();
+    // 첫 토큰 이후에는 시도 신호가 정리되므로, 호출자 취소와 전체 기한은 별도로 연결
+    const streamSignal = AbortSignal.any(
+      [signal, controller.signal, createAbortSignal(userSignal, remainingMs)].filter(
+        (s): s is AbortSignal => s !== undefined
+      )
+    );
+
+    // 도구 루프는 여러 스텝이므로 전체 스텝 합계(totalUsage)로 기록
+    const onFinishCallback = async ({ totalUsage: usage, text }: { totalUsage?: LanguageModelUsage; text: string }) => {
       const responseTimeMs = Date.now() - startTime;
+      releasePermits(usage?.totalTokens);
+
+      // 스트림이 끝까지 전달된 경우에만 세션에 기록
+      if (session) {
+        await appendConversationMessages(session.id, session.teacherId, [
+          { role: 'user', content: prompt },
+          { role: 'assistant', content: text },
+        ]).catch((error) => {
+          console.error(`[Universal Router] Failed to save conversation ${session.id}:`, error);
+        });
+      }
 
       await trackUsage({
         provider: provider.providerType as import('./providers/types').ProviderName,
         modelId: model.modelId,
         featureType: featureType as import('./providers/types').FeatureType,
         teacherId,
-        inputTokens: result.usage?.inputTokens || 0,
-        outputTokens: result.usage?.outputTokens || 0,
+        inputTokens: usage?.inputTokens || 0,
+        cachedInputTokens: usage?.inputTokenDetails?.cacheReadTokens,
+        outputTokens: usage?.outputTokens || 0,
         responseTimeMs,
         success: true,
-        failoverFrom: isFailover ? (failoverFrom as import('./providers/types').ProviderName) : undefined,
+        failoverFrom,
+        keyId,
+        retryAttempt,
       });
-
-      return {
-        text: result.text,
-        usage: result.usage,
-        provider: provider.providerType,
-        model: model.modelId,
-        wasFailover: isFailover,
-        failoverFrom: isFailover ? (failoverFrom as import('./providers/types').ProviderName) : undefined,
-      };
-    } catch (error) {
-      const responseTimeMs = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-      console.error(`Provider ${provider.providerType} failed:`, errorMessage);
-
+    };
+
+    // 첫 토큰 이후의 스트림 에러 — 이미 클라이언트로 전달 중이므로 실패로만 기록
+    let firstTokenReceived = false;
+    const onErrorCallback = async ({ error }: { error: unknown }) => {
+      if (!firstTokenReceived) return;
+      releasePermits();
+      const callError = normalizeProviderError(provider.providerType, error);
+      console.error(`[Universal Router] Stream from ${provider.providerType} failed mid-stream:`, callError.message);
       await trackFailure({
         provider: provider.providerType as import('./providers/types').ProviderName,
         modelId: model.modelId,
         featureType: featureType as import('./providers/types').FeatureType,
         teacherId,
-        errorMessage,
-        responseTimeMs,
-      });
-
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // 재시도 불가능한 에러는 폴 백 체인 중단
-      if (!isRetryableError(lastError)) {
-        console.warn(`[Universal Router] Error is not retryable, stopping failover chain: ${lastError.message}`);
-        break;
-      }
-    }
-  }
-
-  throw new Error(
-    `All providers failed for feature "${featureType}". Last error: ${lastError?.message || 'Unknown error'}`
-  );
-}
-
-/**
- * 텍스트를 스트리밍합니다.
- */
-export async function streamWithProvider(options: GenerateOptions): Promise<StreamResult> {
-  const { prompt, featureType, teacherId, maxOutputTokens, temperature, system, providerId, messages } = options;
-
-  let providerOrder: Array<{ provider: Provider; model: Model }>;
-
-  if (providerId) {
-    // 특정 제공자가 지정된 경우: 해당 제공자의 기본 모델 사용
-    const provider = await db.provider.findUnique({
-      where: { id: providerId },
-      include: { models: true },
+        errorMessage: callError.message,
+        errorCategory: callError.category,
+        responseTimeMs: Date.now() - startTime,
+        keyId,
+        retryAttempt,
+      }).catch(() => undefined);
+    };
+
+    const result = streamText({
+      model: languageModel,
+      ...promptInput,
+      maxOutputTokens,
+      temperature,
+      maxRetries: 0,
+      abortSignal: streamSignal,
+      onFinish: onFinishCallback,
+      onError: onErrorCallback,
+      onAbort: () => releasePermits(),
+      ...buildToolCallSettings(options),
     });
-    if (!provider || !provider.isEnabled) {
-      throw new Error(`Provider "${providerId}" not found or disabled`);
-    }
-    const defaultModel = provider.models.find((m: Model) => m.isDefault) || provider.models[0];
-    if (!defaultModel) {
-      throw new Error(`Provider "${provider.name}" has no models configured`);
-    }
-    providerOrder = [{ provider: provider as unknown as Provider, model: defaultModel as unknown as Model }];
-  } else {
-    providerOrder = await getProviderOrder(featureType);
-  }
-
-  let lastError: Error | null = null;
-
-  for (const { provider, model } of providerOrder) {
-    const startTime = Date.now();
 
     try {
-      const isReady = await setupProviderEnv(provider);
-      if (!isReady) {
-        continue;
-      }
-
-      const languageModel = createLanguageModel(provider, model);
-
-      const onFinishCallback = async ({ usage }: { usage?: { inputTokens?: number; outputTokens?: number } }) => {
-        const responseTimeMs = Date.now() - startTime;
-        await trackUsage({
-          provider: provider.providerType as import('./providers/types').ProviderName,
-          modelId: model.modelId,
-          featureType: featureType as import('./providers/types').FeatureType,
-          teacherId,
-          inputTokens: usage?.inputTokens || 0,
-          outputTokens: usage?.outputTokens || 0,
-          responseTimeMs,
-          success: true,
-        });
-      };
-
-      // 멀티턴 메시지가 있으면 messages 사용, 없으면 단일 prompt 사용
-      const result = messages && messages.length > 0
-        ? streamText({
-            model: languageModel,
-            messages,
-            system,
-            maxOutputTokens,
-            temperature,
-            maxRetries: 0,
-            onFinish: onFinishCallback,
-          })
-        : streamText({
-            model: languageModel,
-            prompt,
-            system,
-            maxOutputTokens,
-            temperature,
-            maxRetries: 0,
-            onFinish: onFinishCallback,
-          });
-
-      return {
-        stream: result,
-        provider: provider.providerType,
-        model: model.modelId,
-      };
+      await waitForFirstToken(result.fullStream, firstTokenTimeoutMs, () => controller.abort());
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      console.error(`Provider ${provider.providerType} failed:`, lastError.message);
+      controller.abort();
+      throw error;
     }
-  }
-
-  throw new Error(
-    `All providers failed for feature "${featureType}". Last error: ${lastError?.message || 'Unknown error'}`
-  );
+    firstTokenReceived = true;
+
+    return {
+      stream: result,
+      provider: provider.providerType,
+      model: model.modelId,
+      wasFailover: isFailover,
+      failoverFrom,
+      routingReason,
+      tokenEstimate: estimateForModel(promptInput, maxOutputTokens, provider, model),
+    };
+  });
 }
 
 /**
@@ -270,7 +553,14 @@ export async function generateWithSpecificProvider(
   providerType: string,
   options: Omit<GenerateOptions, 'featureType'> & { featureType?: string }
 ): Promise<import('./router-utils').GenerateResult> {
-  const { prompt, featureType = 'learning_analysis', teacherId, maxOutputTokens, temperature, system } = options;
+  const {
+    prompt,
+    featureType = 'learning_analysis',
+    teacherId,
+    maxOutputTokens,
+    temperature,
+    system,
+  } = options;
 
   const registry = getProviderRegistry(db);
   const providers = await registry.list({ enabledOnly: true });
@@ -281,47 +571,75 @@ export async function generateWithSpecificProvider(
   }
 
   const typedProvider = provider as unknown as Provider;
-  const model = provider.models.find(m => m.isDefault) || provider.models[0];
+
+  // 예산 정책 적용 (차단 또는 저비용 등급 제한)
+  applyBudgetToCandidates([{ provider: typedProvider }], await enforceBudget(featureType, teacherId), featureType);
+
+  // 프롬프트 + maxOutputTokens가 들어가는 모델만 선택
+  const tokenInput: PromptTokenInput = { system, prompt };
+  const model = selectProviderModel(provider.models as unknown as Model[], {
+    needsTools: options.tools ? true : undefined,
+    minContextWindow: computeMinContextWindow(tokenInput, maxOutputTokens),
+  });
   if (!model) {
-    throw new Error(`No models available for provider ${providerType}`);
+    throw new Error(
+      options.tools
+        ? `No tool-capable models with a large enough context window available for provider ${providerType}`
+        : `No models with a large enough context window available for provider ${providerType}`
+    );
   }
+  fitCandidatesToContextWindow([{ provider: typedProvider, model }], tokenInput, maxOutputTokens);
 
-  const startTime = Date.now();
-
-  const isReady = await setupProviderEnv(typedProvider);
+  const isReady = await isProviderReady(typedProvider);
   if (!isReady) {
     throw new Error(`Provider ${providerType} is not configured or enabled`);
   }
 
-  const languageModel = createLanguageModel(typedProvider, model as unknown as Model);
-
-  const result = await generateText({
-    model: languageModel,
-    prompt,
-    system,
-    maxOutputTokens,
-    temperature,
-    maxRetries: 2,
-  });
-
-  const responseTimeMs = Date.now() - startTime;
+  // 단일 후보 체인 — 게이트, 재시도 정책, 시도/전체 기한, 키 쿨다운을 다른 경로와 같게 적용
+  // (지정 제공자는 마지막 후보이므로 Provider 행 한도 안에서 기다림)
+  return runProviderChain(
+    [{ provider: typedProvider, model }],
+    {
+      ...options,
+      featureType,
+      estimateTokens: () => estimateForModel(tokenInput, maxOutputTokens, typedProvider, model).totalTokens,
+      hedgeDelayMs: undefined,
+    },
+    async ({ provider, keyId, retryAttempt, signal, startTime }) => {
+      const result = await generateText({
+        model: createLanguageModel(provider, model),
+        prompt,
+        system,
+        maxOutputTokens,
+        temperature,
+        maxRetries: 0,
+        abortSignal: signal,
+        ...buildToolCallSettings(options),
+      });
 
-  await trackUsage({
-    provider: typedProvider.providerType as import('./providers/types').ProviderName,
-    modelId: model.modelId,
-    featureType: featureType as import('./providers/types').FeatureType,
-    teacherId,
-    inputTokens: result.usage?.inputTokens || 0,
-    outputTokens: result.usage?.outputTokens || 0,
-    responseTimeMs,
-    success: true,
-  });
+      await trackUsage({
+        provider: typedProvider.providerType as import('./providers/types').ProviderName,
+        modelId: model.modelId,
+        featureType: featureType as import('./providers/types').FeatureType,
+        teacherId,
+        inputTokens: result.totalUsage?.inputTokens || 0,
+        cachedInputTokens: result.totalUsage?.inputTokenDetails?.cacheReadTokens,
+        outputTokens: result.totalUsage?.outputTokens || 0,
+        responseTimeMs: Date.now() - startTime,
+        success: true,
+        keyId,
+        retryAttempt,
+      });
 
-  return {
-    text: result.text,
-    usage: result.usage,
-    provider: typedProvider.providerType,
-    model: model.modelId,
-    wasFailover: false,
-  };
+      return {
+        text: result.text,
+        usage: result.totalUsage,
+        provider: typedProvider.providerType,
+        model: model.modelId,
+        wasFailover: false,
+        tokenEstimate: estimateForModel(tokenInput, maxOutputTokens, typedProvider, model),
+        ...(options.tools && collectToolActivity(result.steps)),
+      };
+    }
+  );
 }
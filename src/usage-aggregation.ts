@@ -1,15 +1,6 @@
 import { db } from '@ais/db/client';
-import type { ProviderName, FeatureType } from './providers';
-
-const PROVIDERS: ProviderName[] = ['anthropic', 'openai', 'google', 'ollama'];
-const FEATURES: FeatureType[] = [
-  'learning_analysis',
-  'counseling_suggest',
-  'report_generate',
-  'face_analysis',
-  'palm_analysis',
-  'personality_summary',
-];
+import { BATCH_COST_MULTIPLIER, type ProviderName, type FeatureType } from './providers';
+import { computeCost, getPricingSegments } from './model-pricing';
 
 interface AggregationResult {
   year: number;
@@ -24,9 +15,66 @@ interface AggregationResult {
   successRate: number;
 }
 
+/**
+ * 모델 하나의 월간 비용을 가격 레지스트리로 다시 계산합니다.
+ * 월 중에 가격이 바뀐 경우 가격 구간별로 토큰을 나누어 계산합니다.
+ * 캐시 적중 행은 제공자를 호출하지 않았으므로(비용 0) 계산에서 제외하고,
+ * 배치 작업 행은 제공자 배치 할인(BATCH_COST_MULTIPLIER)을 적용합니다.
+ */
+async function priceModelUsage(
+  provider: string,
+  featureType: string,
+  modelId: string,
+  startDate: Date,
+  endDate: Date,
+  batch: boolean,
+  totals: { inputTokens: number; outputTokens: number; cachedInputTokens: number }
+): Promise<number> {
+  const segments = await getPricingSegments(provider, modelId, startDate, endDate);
+  const multiplier = batch ? (BATCH_COST_MULTIPLIER[provider as ProviderName] ?? 1) : 1;
+
+  if (segments.length === 1) {
+    return Math.round(computeCost(segments[0].pricing, totals) * multiplier * 1000000) / 1000000;
+  }
+
+  let cost = 0;
+  for (const [index, segment] of segments.entries()) {
+    // 마지막 구간은 월말 시각(endDate)을 포함
+    const isLast = index === segments.length - 1;
+    const aggregate = await db.lLMUsage.aggregate({
+      where: {
+        provider,
+        featureType,
+        modelId,
+        ...billedRows(batch),
+        createdAt: isLast ? { gte: segment.from, lte: segment.to } : { gte: segment.from, lt: segment.to },
+      },
+      _sum: { inputTokens: true, outputTokens: true, cachedInputTokens: true },
+    });
+
+    cost += computeCost(segment.pricing, {
+      inputTokens: aggregate._sum.inputTokens || 0,
+      outputTokens: aggregate._sum.outputTokens || 0,
+      cachedInputTokens: aggregate._sum.cachedInputTokens || 0,
+    });
+  }
+
+  return Math.round(cost * multiplier * 1000000) / 1000000;
+}
+
+/**
+ * 과금 대상 행 조건 (캐시 적중 제외, 실시간/배치 구분)
+ */
+function billedRows(batch: boolean) {
+  return { cacheHit: false, batchJobId: batch ? { not: null } : null };
+}
+
 /**
  * 월별 사용량 집계
  * - 각 제공자/기능별로 해당 월의 사용량을 집계하여 LLMUsageMonthly 테이블에 upsert
+ * - 비용은 모델 가격 레지스트리로 모델별로 다시 계산 (가격 수정이 과거 집계에도 반영됨)
+ * - 요청 수/토큰에는 캐시 적중이 포함되지만 비용에는 포함되지 않음
+ * - 배치 작업 사용량은 배치 할인 가격으로 계산 (trackUsage 기록과 동일)
  *
  * @param year - 집계 대상 연도
  * @param month - 집계 대상 월 (1-12)
@@ -38,92 +86,122 @@ export async function aggregateMonthlyUsage(
 ): Promise<{ aggregated: number; records: AggregationResult[] }> {
   const startDate = new Date(year, month - 1, 1, 0, 0, 0, 0);
   const endDate = new Date(year, month, 0, 23, 59, 59, 999);
+  const createdAt = { gte: startDate, lte: endDate };
 
-  const results: AggregationResult[] = [];
+  // 제공자/기능/모델별 월간 집계
+  const modelGroups = await db.lLMUsage.groupBy({
+    by: ['provider', 'featureType', 'modelId'],
+    where: { createdAt },
+    _count: { id: true },
+    _sum: {
+      inputTokens: true,
+      outputTokens: true,
+      cachedInputTokens: true,
+      responseTimeMs: true,
+    },
+  });
 
-  for (const provider of PROVIDERS) {
-    for (const featureType of FEATURES) {
-      // 해당 제공자/기능에 대한 월간 집계 쿼리
-      const aggregate = await db.lLMUsage.aggregate({
-        where: {
-          provider,
-          featureType,
-          createdAt: {
-            gte: startDate,
-            lte: endDate,
-          },
-        },
-        _count: { id: true },
-        _sum: {
-          inputTokens: true,
-          outputTokens: true,
-          costUsd: true,
-          responseTimeMs: true,
-        },
+  // 과금 대상 토큰 (캐시 적중 제외, 배치는 할인 가격으로 따로 계산)
+  const billedGroups = await Promise.all(
+    [false, true].map(async (batch) => {
+      const groups = await db.lLMUsage.groupBy({
+        by: ['provider', 'featureType', 'modelId'],
+        where: { createdAt, ...billedRows(batch) },
+        _sum: { inputTokens: true, outputTokens: true, cachedInputTokens: true },
       });
+      return groups.map((group) => ({ ...group, batch }));
+    })
+  ).then((groups) => groups.flat());
+
+  // 성공 요청 수
+  const successGroups = await db.lLMUsage.groupBy({
+    by: ['provider', 'featureType'],
+    where: { createdAt, success: true },
+    _count: { id: true },
+  });
 
-      // 성공 요청 수
-      const successCount = await db.lLMUsage.count({
-        where: {
-          provider,
-          featureType,
-          success: true,
-          createdAt: {
-            gte: startDate,
-            lte: endDate,
-          },
-        },
+  const totals = new Map<string, {
+    provider: string;
+    featureType: string;
+    totalRequests: number;
+    inputTokens: number;
+    outputTokens: number;
+    responseTimeMs: number;
+    costUsd: number;
+  }>();
+
+  for (const group of modelGroups) {
+    const inputTokens = group._sum.inputTokens || 0;
+    const outputTokens = group._sum.outputTokens || 0;
+    let costUsd = 0;
+    for (const billed of billedGroups) {
+      if (billed.provider !== group.provider || billed.featureType !== group.featureType || billed.modelId !== group.modelId) {
+        continue;
+      }
+      costUsd += await priceModelUsage(group.provider, group.featureType, group.modelId, startDate, endDate, billed.batch, {
+        inputTokens: billed._sum.inputTokens || 0,
+        outputTokens: billed._sum.outputTokens || 0,
+        cachedInputTokens: billed._sum.cachedInputTokens || 0,
       });
+    }
 
-      const totalRequests = aggregate._count.id || 0;
+    const key = `${group.provider}:${group.featureType}`;
+    const total = totals.get(key) ?? {
+      provider: group.provider,
+      featureType: group.featureType,
+      totalRequests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      responseTimeMs: 0,
+      costUsd: 0,
+    };
+
+    total.totalRequests += group._count.id || 0;
+    total.inputTokens += inputTokens;
+    total.outputTokens += outputTokens;
+    total.responseTimeMs += group._sum.responseTimeMs || 0;
+    total.costUsd += costUsd;
+    totals.set(key, total);
+  }
 
-      // 데이터가 없으면 스킵
-      if (totalRequests === 0) {
-        continue;
-      }
+  const results: AggregationResult[] = [];
 
-      const totalInputTokens = BigInt(aggregate._sum.inputTokens || 0);
-      const totalOutputTokens = BigInt(aggregate._sum.outputTokens || 0);
-      const totalCostUsd = aggregate._sum.costUsd || 0;
-      const avgResponseTimeMs =
-        totalRequests > 0
-          ? (aggregate._sum.responseTimeMs || 0) / totalRequests
-          : 0;
-      const successRate = totalRequests > 0 ? successCount / totalRequests : 1;
-
-      // LLMUsageMonthly 테이블에 upsert
-      await db.lLMUsageMonthly.upsert({
-        where: {
-          year_month_provider_featureType: {
-            year,
-            month,
-            provider,
-            featureType,
-          },
-        },
-        update: {
-          totalRequests,
-          totalInputTokens,
-          totalOutputTokens,
-          totalCostUsd,
-          avgResponseTimeMs,
-          successRate,
-        },
-        create: {
+  for (const total of totals.values()) {
+    const { provider, featureType, totalRequests } = total;
+
+    // 데이터가 없으면 스킵
+    if (totalRequests === 0) {
+      continue;
+    }
+
+    const successCount =
+      successGroups.find((g) => g.provider === provider && g.featureType === featureType)?._count.id || 0;
+
+    const totalInputTokens = BigInt(total.inputTokens);
+    const totalOutputTokens = BigInt(total.outputTokens);
+    const totalCostUsd = Math.round(total.costUsd * 1000000) / 1000000;
+    const avgResponseTimeMs = total.responseTimeMs / totalRequests;
+    const successRate = successCount / totalRequests;
+
+    // LLMUsageMonthly 테이블에 upsert
+    await db.lLMUsageMonthly.upsert({
+      where: {
+        year_month_provider_featureType: {
           year,
           month,
           provider,
           featureType,
-          totalRequests,
-          totalInputTokens,
-          totalOutputTokens,
-          totalCostUsd,
-          avgResponseTimeMs,
-          successRate,
         },
-      });
-
-      results.push({
+      },
+      update: {
+        totalRequests,
+        totalInputTokens,
+        totalOutputTokens,
+        totalCostUsd,
+        avgResponseTimeMs,
+        successRate,
+      },
+      create: {
         year,
         month,
         provider,
@@ -134,8 +212,21 @@ export async function aggregateMonthlyUsage(
         totalCostUsd,
         avgResponseTimeMs,
         successRate,
-      });
-    }
+      },
+    });
+
+    results.push({
+      year,
+      month,
+      provider,
+      featureType,
+      totalRequests,
+      totalInputTokens,
+      totalOutputTokens,
+      totalCostUsd,
+      avgResponseTimeMs,
+      successRate,
+    });
   }
 
   return { aggregated: results.length, records: results };
@@ -1,18 +1,24 @@
 import { db } from '@ais/db/client';
-import { COST_PER_MILLION_TOKENS, type ProviderName, type FeatureType } from './providers';
+import { BATCH_COST_MULTIPLIER, type ProviderName, type FeatureType } from './providers';
+import { recordCircuitSuccess, recordCircuitFailure } from './circuit-breaker';
+import { findModelPricing, calculateModelCost, computeCost } from './model-pricing';
+import type { ProviderErrorCategory } from './provider-errors';
+import type { ResponseGuardKind } from './response-guard';
 
+/**
+ * 비용을 계산합니다.
+ * modelId가 있으면 모델 가격(로드된 가격 레지스트리 또는 기본 모델 가격)을,
+ * 없으면 제공자 단위 가격을 사용합니다.
+ */
 export function calculateCost(
   provider: ProviderName,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  modelId?: string,
+  cachedInputTokens?: number
 ): number {
-  const costs = COST_PER_MILLION_TOKENS[provider];
-  if (!costs) return 0;
-
-  const inputCost = (inputTokens / 1_000_000) * costs.input;
-  const outputCost = (outputTokens / 1_000_000) * costs.output;
-
-  return Math.round((inputCost + outputCost) * 1000000) / 1000000;
+  const pricing = findModelPricing(provider, modelId ?? '');
+  return computeCost(pricing, { inputTokens, outputTokens, cachedInputTokens });
 }
 
 interface TrackUsageInput {
@@ -22,10 +28,30 @@ interface TrackUsageInput {
   teacherId?: string;
   inputTokens: number;
   outputTokens: number;
+  /** 입력 토큰 중 캐시에서 읽은 토큰 (캐시 입력 가격 적용) */
+  cachedInputTokens?: number;
   responseTimeMs: number;
   success?: boolean;
   errorMessage?: string;
   failoverFrom?: ProviderName;
+  /** 키 풀에서 사용한 키 ID (Provider 기본 키를 사용했으면 생략) */
+  keyId?: string;
+  /** 응답 캐시 적중 (비용 0으로 기록, 서킷 브레이커에 반영하지 않음) */
+  cacheHit?: boolean;
+  /** 제공자 배치 작업 ID (배치 가격 적용, 서킷 브레이커에 반영하지 않음) */
+  batchJobId?: string;
+  /** 같은 제공자 재시도 번호 (첫 시도는 0) */
+  retryAttempt?: number;
+  /** 응답 검사에서 감지된 품질 문제 (통과/재시도/폴백 모두 기록) */
+  qualityIssue?: ResponseGuardKind;
+  /** 헤지 요청으로 다른 후보와 경쟁한 호출 (헤지 비용 집계용) */
+  hedged?: boolean;
+  /**
+   * 요청 수 한도(requestLimit)에 세는 호출인지 (기본: 캐시 적중이 아니면 true)
+   * 세션 요약, 임베딩, 폴백/재시도로 버려진 응답, 앙상블 내부 호출처럼
+   * 다른 요청의 일부인 호출은 false로 기록해 논리적 요청당 1건만 셉니다.
+   */
+  countsAsRequest?: boolean;
 }
 
 export async function trackUsage(input: TrackUsageInput) {
@@ -36,14 +62,36 @@ export async function trackUsage(input: TrackUsageInput) {
     teacherId,
     inputTokens,
     outputTokens,
+    cachedInputTokens = 0,
     responseTimeMs,
     success = true,
     errorMessage,
     failoverFrom,
+    keyId,
+    cacheHit = false,
+    batchJobId,
+    retryAttempt = 0,
+    qualityIssue,
+    hedged = false,
+    countsAsRequest = !cacheHit,
   } = input;
 
   const totalTokens = inputTokens + outputTokens;
-  const costUsd = calculateCost(provider, inputTokens, outputTokens);
+  const listCost = cacheHit
+    ? 0
+    : await calculateModelCost(provider, modelId, { inputTokens, outputTokens, cachedInputTokens });
+  const costUsd = batchJobId
+    ? Math.round(listCost * (BATCH_COST_MULTIPLIER[provider] ?? 1) * 1000000) / 1000000
+    : listCost;
+
+  // 서킷 브레이커에 호출 결과 반영 (캐시 적중과 배치 결과는 실시간 호출이 아니므로 제외)
+  if (!cacheHit && !batchJobId) {
+    if (success) {
+      recordCircuitSuccess(provider, modelId);
+    } else {
+      recordCircuitFailure(provider, modelId, errorMessage);
+    }
+  }
 
   return db.lLMUsage.create({
     data: {
@@ -53,12 +101,20 @@ export async function trackUsage(input: TrackUsageInput) {
       teacherId,
       inputTokens,
       outputTokens,
+      cachedInputTokens,
       totalTokens,
       costUsd,
       responseTimeMs,
       success,
       errorMessage,
       failoverFrom,
+      keyId,
+      cacheHit,
+      batchJobId,
+      retryAttempt,
+      qualityIssue: qualityIssue ?? null,
+      hedged,
+      countsAsRequest,
     },
   });
 }
@@ -69,8 +125,22 @@ export async function trackFailure(input: {
   featureType: FeatureType;
   teacherId?: string;
   errorMessage: string;
+  /** 에러 분류 (rate_limit, auth, quota 등) */
+  errorCategory?: ProviderErrorCategory;
   responseTimeMs: number;
+  keyId?: string;
+  /** 같은 제공자 재시도 번호 (첫 시도는 0) */
+  retryAttempt?: number;
+  /** 헤지 요청으로 다른 후보와 경쟁한 호출 */
+  hedged?: boolean;
+  /** 다른 헤지 호출이 먼저 응답해 취소됨 (서킷 브레이커에 반영하지 않음) */
+  hedgeCancelled?: boolean;
 }) {
+  // 서킷 브레이커에 호출 결과 반영
+  if (!input.hedgeCancelled) {
+    recordCircuitFailure(input.provider, input.modelId, input.errorMessage, input.errorCategory);
+  }
+
   return db.lLMUsage.create({
     data: {
       provider: input.provider,
@@ -84,6 +154,10 @@ export async function trackFailure(input: {
       responseTimeMs: input.responseTimeMs,
       success: false,
       errorMessage: input.errorMessage,
+      errorCategory: input.hedgeCancelled ? null : (input.errorCategory ?? 'unknown'),
+      keyId: input.keyId,
+      retryAttempt: input.retryAttempt ?? 0,
+      hedged: input.hedged ?? false,
     },
   });
 }
@@ -96,6 +170,16 @@ interface UsageStats {
   totalCostUsd: number;
   avgResponseTimeMs: number;
   successRate: number;
+  /** 응답 캐시 적중 수 */
+  cacheHits: number;
+  /** 같은 제공자 재시도로 발생한 호출 수 (성공/실패 포함) */
+  retries: number;
+  /** 응답 검사에서 품질 문제가 감지된 호출 수 (거부, 빈 응답, 잘림, JSON 아님) */
+  qualityIssues: number;
+  /** 헤지 요청으로 경쟁한 호출 수 (이긴 호출과 취소된 호출 포함) */
+  hedgedRequests: number;
+  /** 헤지 요청으로 경쟁한 호출의 비용 합계 (USD) */
+  hedgedCostUsd: number;
 }
 
 export async function getUsageStats(options: {
@@ -104,8 +188,10 @@ export async function getUsageStats(options: {
   provider?: ProviderName;
   featureType?: FeatureType;
   teacherId?: string;
+  /** 키 풀의 특정 키 사용량만 조회 */
+  keyId?: string;
 }): Promise<UsageStats> {
-  const { startDate, endDate, provider, featureType, teacherId } = options;
+  const { startDate, endDate, provider, featureType, teacherId, keyId } = options;
 
   const where = {
     createdAt: {
@@ -115,6 +201,7 @@ export async function getUsageStats(options: {
     ...(provider && { provider }),
     ...(featureType && { featureType }),
     ...(teacherId && { teacherId }),
+    ...(keyId && { keyId }),
   };
 
   const aggregate = await db.lLMUsage.aggregate({
@@ -132,6 +219,24 @@ export async function getUsageStats(options: {
     where: { ...where, success: true },
   });
 
+  const cacheHits = await db.lLMUsage.count({
+    where: { ...where, cacheHit: true },
+  });
+
+  const retries = await db.lLMUsage.count({
+    where: { ...where, retryAttempt: { gt: 0 } },
+  });
+
+  const qualityIssues = await db.lLMUsage.count({
+    where: { ...where, qualityIssue: { not: null } },
+  });
+
+  const hedgedAggregate = await db.lLMUsage.aggregate({
+    where: { ...where, hedged: true },
+    _count: { id: true },
+    _sum: { costUsd: true },
+  });
+
   const totalRequests = aggregate._count.id || 0;
 
   return {
@@ -144,6 +249,11 @@ export async function getUsageStats(options: {
       ? (aggregate._sum.responseTimeMs || 0) / totalRequests
       : 0,
     successRate: totalRequests > 0 ? successCount / totalRequests : 1,
+    cacheHits,
+    retries,
+    qualityIssues,
+    hedgedRequests: hedgedAggregate._count.id || 0,
+    hedgedCostUsd: hedgedAggregate._sum.costUsd || 0,
   };
 }
 
@@ -186,22 +296,39 @@ export async function getUsageStatsByFeature(options: {
   return result as Record<FeatureType, UsageStats>;
 }
 
-export async function getCurrentPeriodCost(period: 'daily' | 'weekly' | 'monthly'): Promise<number> {
-  const now = new Date();
-  let startDate: Date;
+export async function getUsageStatsByKey(options: {
+  startDate: Date;
+  endDate: Date;
+  keyIds: string[];
+}): Promise<Record<string, UsageStats>> {
+  const { keyIds, ...range } = options;
+  const result: Record<string, UsageStats> = {};
+
+  await Promise.all(
+    keyIds.map(async (keyId) => {
+      result[keyId] = await getUsageStats({ ...range, keyId });
+    })
+  );
+
+  return result;
+}
 
+/**
+ * 예산 기간의 시작 시각을 계산합니다. (로컬 시간 기준, 주간은 일요일 시작)
+ */
+export function getPeriodStartDate(period: 'daily' | 'weekly' | 'monthly', now: Date = new Date()): Date {
   switch (period) {
     case 'daily':
-      startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      break;
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
     case 'weekly':
-      const dayOfWeek = now.getDay();
-      startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate() - dayOfWeek);
-      break;
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay());
     case 'monthly':
-      startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-      break;
+      return new Date(now.getFullYear(), now.getMonth(), 1);
   }
+}
+
+export async function getCurrentPeriodCost(period: 'daily' | 'weekly' | 'monthly'): Promise<number> {
+  const startDate = getPeriodStartDate(period);
 
   const aggregate = await db.lLMUsage.aggregate({
     where: {